@@ -101,6 +101,65 @@ public class BoxesIntegrationTests(IntegrationDatabaseFixture fixture)
         response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
     }
 
+    [Fact]
+    public async Task GetBoxesByLocation_IncludesItemStats()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var createResponse = await client.PostAsJsonAsync("/api/box/",
+            new BoxRequest("STAT-001", "Stats Box", locationId, null, "/images/box.jpg", null));
+        createResponse.EnsureSuccessStatusCode();
+        var box = await createResponse.Content.ReadFromJsonAsync<BoxResponse>();
+        await client.PostAsJsonAsync("/api/item/", new ItemRequest(box!.BoxId, "Plate", null, "/images/plate.jpg", null));
+        var lastItemResponse = await client.PostAsJsonAsync("/api/item/", new ItemRequest(box.BoxId, "Cup", null, null, null));
+        var lastItem = await lastItemResponse.Content.ReadFromJsonAsync<ItemResponse>();
+
+        var response = await client.GetAsync($"/api/box/location/{locationId}/");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var boxes = await response.Content.ReadFromJsonAsync<List<BoxResponse>>();
+        boxes.ShouldNotBeNull();
+        var stats = boxes.Single().Stats;
+        stats.ShouldNotBeNull();
+        stats.ItemCount.ShouldBe(2);
+        stats.ImageCount.ShouldBe(2);
+        stats.LastItemUpdated.ShouldNotBeNull();
+        stats.LastItemUpdated.Value.ShouldBe(lastItem!.Updated, TimeSpan.FromMilliseconds(1));
+    }
+
+    [Fact]
+    public async Task GetBoxesByLocation_WithSortFilterAndPage_ReturnsPageAndTotalCount()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        foreach (var (code, name) in new[] { ("SRT-1", "Attic Shelf"), ("SRT-2", "Garage Shelf"), ("SRT-3", "Basement Shelf"), ("SRT-4", "Kitchen") })
+        {
+            var createResponse = await client.PostAsJsonAsync("/api/box/",
+                new BoxRequest(code, name, locationId, null, null, null));
+            createResponse.EnsureSuccessStatusCode();
+        }
+
+        var response = await client.GetAsync(
+            $"/api/box/location/{locationId}/?sort=name&descending=true&filter=shelf&pageNumber=1&pageSize=2");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        response.Headers.GetValues("x-total-count").Single().ShouldBe("3");
+        var boxes = await response.Content.ReadFromJsonAsync<List<BoxResponse>>();
+        boxes.ShouldNotBeNull();
+        boxes.Select(b => b.Name).ShouldBe(["Garage Shelf", "Basement Shelf"]);
+    }
+
+    [Fact]
+    public async Task GetBoxesByLocation_WithUnknownSort_ReturnsValidationProblem()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        var response = await client.GetAsync($"/api/box/location/{locationId}/?sort=colour");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
     [Fact]
     public async Task Respawn_ResetsDataBetweenTests()
     {
@@ -175,6 +234,66 @@ public class BoxesIntegrationTests(IntegrationDatabaseFixture fixture)
         moved.LocationId.ShouldBe(destLocation.LocationId);
     }
 
+    [Fact]
+    public async Task GetBox_NestedInsideBoxes_ReturnsPathAndNestedStats()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var shelf = await CreateBoxAsync(client, new BoxRequest("NEST-1", "Shelf", locationId, null, null, null));
+        var tote = await CreateBoxAsync(client, new BoxRequest("NEST-2", "Tote", locationId, null, null, null, shelf.BoxId));
+        var bin = await CreateBoxAsync(client, new BoxRequest("NEST-3", "Bin", locationId, null, null, null, tote.BoxId));
+        await client.PostAsJsonAsync("/api/item/", new ItemRequest(bin.BoxId, "Screws", null, null, null));
+
+        var boxResponse = await client.GetAsync($"/api/box/{bin.BoxId}");
+        var listResponse = await client.GetAsync($"/api/box/location/{locationId}/?topLevel=true");
+
+        var fetched = await boxResponse.Content.ReadFromJsonAsync<BoxResponse>();
+        fetched.ShouldNotBeNull();
+        fetched.ParentBoxId.ShouldBe(tote.BoxId);
+        fetched.Path.ShouldNotBeNull();
+        fetched.Path.Select(p => p.Name).ShouldBe(["Shelf", "Tote"]);
+        var topLevel = await listResponse.Content.ReadFromJsonAsync<List<BoxResponse>>();
+        topLevel.ShouldNotBeNull();
+        var stats = topLevel.ShouldHaveSingleItem().Stats;
+        stats.ShouldNotBeNull();
+        stats.ItemCount.ShouldBe(0);
+        stats.BoxCount.ShouldBe(2);
+        stats.TotalItemCount.ShouldBe(1);
+    }
+
+    [Fact]
+    public async Task MoveBox_WithNestedBoxes_CarriesThemAlong()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var shelf = await CreateBoxAsync(client, new BoxRequest("CARRY-1", "Shelf", locationId, null, null, null));
+        var tote = await CreateBoxAsync(client, new BoxRequest("CARRY-2", "Tote", locationId, null, null, null, shelf.BoxId));
+        var createLocResponse = await client.PostAsJsonAsync("/api/location/", new LocationRequest("New Garage"));
+        var destLocation = await createLocResponse.Content.ReadFromJsonAsync<LocationResponse>();
+
+        var moveResponse = await client.PutAsJsonAsync($"/api/box/{shelf.BoxId}/move", new MoveBoxRequest(destLocation!.LocationId));
+
+        moveResponse.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var toteResponse = await client.GetAsync($"/api/box/{tote.BoxId}");
+        var movedTote = await toteResponse.Content.ReadFromJsonAsync<BoxResponse>();
+        movedTote.ShouldNotBeNull();
+        movedTote.LocationId.ShouldBe(destLocation.LocationId);
+        movedTote.ParentBoxId.ShouldBe(shelf.BoxId);
+    }
+
+    [Fact]
+    public async Task MoveBox_IntoBoxNestedInsideIt_ReturnsValidationProblem()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var shelf = await CreateBoxAsync(client, new BoxRequest("LOOP-1", "Shelf", locationId, null, null, null));
+        var tote = await CreateBoxAsync(client, new BoxRequest("LOOP-2", "Tote", locationId, null, null, null, shelf.BoxId));
+
+        var moveResponse = await client.PutAsJsonAsync($"/api/box/{shelf.BoxId}/move", new MoveBoxRequest(locationId, tote.BoxId));
+
+        moveResponse.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
     [Fact]
     public async Task DeleteBox_Empty_Returns200()
     {
@@ -228,4 +347,11 @@ public class BoxesIntegrationTests(IntegrationDatabaseFixture fixture)
 
         deleteResponse.StatusCode.ShouldBe(HttpStatusCode.OK);
     }
+
+    private static async Task<BoxResponse> CreateBoxAsync(HttpClient client, BoxRequest request)
+    {
+        var response = await client.PostAsJsonAsync("/api/box/", request);
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<BoxResponse>())!;
+    }
 }
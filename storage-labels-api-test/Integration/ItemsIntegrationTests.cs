@@ -1,7 +1,9 @@
 using System.Net;
 using System.Net.Http.Json;
 using Shouldly;
+using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Models.DTO.CustomField;
 using StorageLabelsApi.Models.DTO.Item;
 using StorageLabelsApi.Tests.TestInfrastructure;
 
@@ -146,6 +148,23 @@ public class ItemsIntegrationTests(IntegrationDatabaseFixture fixture)
         response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
     }
 
+    [Fact]
+    public async Task UpdateItem_ToBoxWithoutEditAccess_Returns404()
+    {
+        var (userId, _, boxId) = await SeedBoxAsync();
+        var (_, _, otherBoxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var createResponse = await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(boxId, "Kettle", null, null, null));
+        createResponse.EnsureSuccessStatusCode();
+        var item = await createResponse.Content.ReadFromJsonAsync<ItemResponse>();
+
+        var response = await client.PutAsJsonAsync($"/api/item/{item!.ItemId}",
+            new ItemRequest(otherBoxId, "Kettle", null, null, null));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
+    }
+
     [Fact]
     public async Task DeleteItem_Returns200_AndItemNoLongerFound()
     {
@@ -175,6 +194,93 @@ public class ItemsIntegrationTests(IntegrationDatabaseFixture fixture)
         response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
     }
 
+    [Fact]
+    public async Task CreateItems_WithMixedRows_CreatesValidRowsAndReportsErrors()
+    {
+        var (userId, _, boxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        var response = await client.PostAsJsonAsync("/api/item/batch",
+            new CreateItemsRequest(boxId, [
+                new CreateItemsEntry("Socks", null, null, null),
+                new CreateItemsEntry("", null, null, null),
+                new CreateItemsEntry("Scarf", "Wool", null, null),
+            ]));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var batch = await response.Content.ReadFromJsonAsync<CreateItemsResponse>();
+        batch.ShouldNotBeNull();
+        var results = batch.Results.ToList();
+        results.Select(r => r.Index).ShouldBe([0, 1, 2]);
+        results[0].Item!.Name.ShouldBe("Socks");
+        results[1].Item.ShouldBeNull();
+        results[1].Errors.ShouldNotBeNull();
+        results[1].Errors!.ShouldContainKey(nameof(CreateItemsEntry.Name));
+        results[2].Item!.Description.ShouldBe("Wool");
+
+        var listResponse = await client.GetAsync($"/api/item/box/{boxId}/");
+        var items = await listResponse.Content.ReadFromJsonAsync<List<ItemResponse>>();
+        items.ShouldNotBeNull();
+        items.Select(i => i.Name).ShouldBe(["Socks", "Scarf"], ignoreOrder: true);
+    }
+
+    [Fact]
+    public async Task CreateItems_WithNoRows_ReturnsValidationProblem()
+    {
+        var (userId, _, boxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        var response = await client.PostAsJsonAsync("/api/item/batch",
+            new CreateItemsRequest(boxId, []));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task MoveItems_ToAnotherBox_Returns200AndItemsMove()
+    {
+        var (userId, locationId, boxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var boxResponse = await client.PostAsJsonAsync("/api/box/",
+            new BoxRequest("ITEM-DEST", "Destination Box", locationId, null, null, null));
+        boxResponse.EnsureSuccessStatusCode();
+        var destination = await boxResponse.Content.ReadFromJsonAsync<BoxResponse>();
+        var createResponse = await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(boxId, "Lamp", null, null, null));
+        createResponse.EnsureSuccessStatusCode();
+        var item = await createResponse.Content.ReadFromJsonAsync<ItemResponse>();
+
+        var moveResponse = await client.PutAsJsonAsync("/api/item/move",
+            new MoveItemsRequest(destination!.BoxId, [item!.ItemId]));
+
+        moveResponse.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var moved = await moveResponse.Content.ReadFromJsonAsync<List<ItemResponse>>();
+        moved.ShouldNotBeNull();
+        moved.Single().BoxId.ShouldBe(destination.BoxId);
+
+        var sourceResponse = await client.GetAsync($"/api/item/box/{boxId}/");
+        var sourceItems = await sourceResponse.Content.ReadFromJsonAsync<List<ItemResponse>>();
+        sourceItems.ShouldNotBeNull();
+        sourceItems.ShouldBeEmpty();
+    }
+
+    [Fact]
+    public async Task MoveItems_ToBoxWithoutEditAccess_ReturnsValidationProblem()
+    {
+        var (userId, _, boxId) = await SeedBoxAsync();
+        var (_, _, otherBoxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var createResponse = await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(boxId, "Kettle", null, null, null));
+        createResponse.EnsureSuccessStatusCode();
+        var item = await createResponse.Content.ReadFromJsonAsync<ItemResponse>();
+
+        var moveResponse = await client.PutAsJsonAsync("/api/item/move",
+            new MoveItemsRequest(otherBoxId, [item!.ItemId]));
+
+        moveResponse.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
     [Fact]
     public async Task CreateItem_WithEmptyName_ReturnsValidationProblem()
     {
@@ -186,4 +292,46 @@ public class ItemsIntegrationTests(IntegrationDatabaseFixture fixture)
 
         response.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
     }
+
+    private static async Task<CustomFieldResponse> CreateFieldAsync(HttpClient client, long locationId, string name, CustomFieldType type)
+    {
+        var response = await client.PostAsJsonAsync($"/api/location/{locationId}/fields", new CustomFieldRequest(name, type));
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<CustomFieldResponse>())!;
+    }
+
+    [Fact]
+    public async Task CreateItem_WithCustomFields_ReturnsNormalisedValues()
+    {
+        var (userId, locationId, boxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var quantity = await CreateFieldAsync(client, locationId, "Quantity", CustomFieldType.Number);
+        var bought = await CreateFieldAsync(client, locationId, "Purchased", CustomFieldType.Date);
+
+        var response = await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(boxId, "Tent pegs", null, null, null,
+                [new CustomFieldEntry(quantity.CustomFieldId, " 12.50 "), new CustomFieldEntry(bought.CustomFieldId, "2026-03-07")]));
+        var created = await response.Content.ReadFromJsonAsync<ItemResponse>();
+        var fetched = await client.GetFromJsonAsync<ItemResponse>($"/api/item/{created!.ItemId}");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.Created);
+        fetched.ShouldNotBeNull();
+        fetched.CustomFields.ShouldNotBeNull();
+        fetched.CustomFields.OrderBy(f => f.CustomFieldId).ShouldBe([
+            new CustomFieldEntry(quantity.CustomFieldId, "12.50"),
+            new CustomFieldEntry(bought.CustomFieldId, "2026-03-07")]);
+    }
+
+    [Fact]
+    public async Task CreateItem_WithInvalidCustomFieldValue_Returns400()
+    {
+        var (userId, locationId, boxId) = await SeedBoxAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var quantity = await CreateFieldAsync(client, locationId, "Quantity", CustomFieldType.Number);
+
+        var response = await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(boxId, "Tent pegs", null, null, null, [new CustomFieldEntry(quantity.CustomFieldId, "a dozen")]));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
 }
@@ -0,0 +1,193 @@
+using System.Net;
+using System.Net.Http.Json;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Shouldly;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Models.DTO.Labels;
+using StorageLabelsApi.Tests.TestInfrastructure;
+
+namespace StorageLabelsApi.Tests.Integration;
+
+public class LabelsIntegrationTests(IntegrationDatabaseFixture fixture)
+    : IntegrationTestBase(fixture)
+{
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        Converters = { new JsonStringEnumConverter() },
+        PropertyNameCaseInsensitive = true
+    };
+
+    private static async Task<LabelPrintJobResponse> CreateJobAsync(HttpClient client, string prefix = "A")
+    {
+        var response = await client.PostAsJsonAsync("/api/labels/",
+            new CreateLabelPrintJobRequest("Test Job", LabelFormat.Avery94107, LabelIncrementAlgorithm.NumericOnly, prefix, 4, 0, ""),
+            JsonOptions);
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<LabelPrintJobResponse>(JsonOptions))!;
+    }
+
+    // ── Page history ────────────────────────────────────────────────────────
+
+    [Fact]
+    public async Task GetNextPage_RecordsPageInHistory()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var job = await CreateJobAsync(client);
+
+        await client.PostAsync($"/api/labels/{job.Id}/next-page", null);
+        await client.PostAsync($"/api/labels/{job.Id}/next-page", null);
+
+        var response = await client.GetAsync($"/api/labels/{job.Id}/pages");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var pages = await response.Content.ReadFromJsonAsync<List<LabelPrintJobPageResponse>>(JsonOptions);
+        pages.ShouldNotBeNull();
+        pages.Count.ShouldBe(2);
+        pages[0].FirstLabelNumber.ShouldBe(13);
+        pages[0].LastLabelNumber.ShouldBe(24);
+        pages[1].FirstLabelNumber.ShouldBe(1);
+    }
+
+    [Fact]
+    public async Task GetLabelJobPages_WithUnknownJob_Returns404()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        var response = await client.GetAsync($"/api/labels/{Guid.NewGuid()}/pages");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
+    }
+
+    // ── Templates ───────────────────────────────────────────────────────────
+
+    [Fact]
+    public async Task CreateLabelJob_WithTemplate_ReturnsTemplateOnJobAndPages()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var template = new LabelTemplate(LabelLayout.QrLeft, true, false, "Garage", false, true, LabelSymbology.DataMatrix, EncodeScanUrl: true);
+
+        var createResponse = await client.PostAsJsonAsync("/api/labels/",
+            new CreateLabelPrintJobRequest("Test Job", LabelFormat.Avery5160, LabelIncrementAlgorithm.NumericOnly, "A", 4, 0, "", template),
+            JsonOptions);
+
+        createResponse.StatusCode.ShouldBe(HttpStatusCode.Created);
+        var job = await createResponse.Content.ReadFromJsonAsync<LabelPrintJobResponse>(JsonOptions);
+        job!.Template.ShouldBe(template);
+
+        var pageResponse = await client.PostAsync($"/api/labels/{job.Id}/next-page", null);
+        var page = await pageResponse.Content.ReadFromJsonAsync<LabelPageResponse>(JsonOptions);
+        page!.Template.ShouldBe(template);
+    }
+
+    [Fact]
+    public async Task UpdateLabelJob_WithoutTemplate_KeepsTemplate()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var template = new LabelTemplate(LabelLayout.QrLeft, true, false, "Garage", false, true, LabelSymbology.Code128, EncodeScanUrl: true);
+        var createResponse = await client.PostAsJsonAsync("/api/labels/",
+            new CreateLabelPrintJobRequest("Test Job", LabelFormat.Avery5160, LabelIncrementAlgorithm.NumericOnly, "A", 4, 0, "", template),
+            JsonOptions);
+        var job = await createResponse.Content.ReadFromJsonAsync<LabelPrintJobResponse>(JsonOptions);
+
+        var response = await client.PutAsJsonAsync($"/api/labels/{job!.Id}",
+            new UpdateLabelPrintJobRequest("Renamed Job", LabelFormat.Avery5160, LabelIncrementAlgorithm.NumericOnly, "A", 4, ""),
+            JsonOptions);
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var updated = await response.Content.ReadFromJsonAsync<LabelPrintJobResponse>(JsonOptions);
+        updated!.Name.ShouldBe("Renamed Job");
+        updated.Template.ShouldBe(template);
+    }
+
+    [Fact]
+    public async Task CreateLabelJob_WithTooLongTemplateDescription_Returns400()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var template = LabelTemplate.Default with { Description = new string('x', 101) };
+
+        var response = await client.PostAsJsonAsync("/api/labels/",
+            new CreateLabelPrintJobRequest("Test Job", LabelFormat.Avery94107, LabelIncrementAlgorithm.NumericOnly, "A", 4, 0, "", template),
+            JsonOptions);
+
+        response.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
+    // ── Reprint ─────────────────────────────────────────────────────────────
+
+    [Fact]
+    public async Task ReprintLabels_ReturnsOriginalCodesWithoutAdvancingJob()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var job = await CreateJobAsync(client);
+        await client.PostAsync($"/api/labels/{job.Id}/next-page", null);
+
+        // Editing the job afterwards must not change the codes of the generated page
+        await client.PutAsJsonAsync($"/api/labels/{job.Id}",
+            new UpdateLabelPrintJobRequest("Test Job", LabelFormat.Avery94107, LabelIncrementAlgorithm.NumericOnly, "B", 4, ""),
+            JsonOptions);
+
+        var response = await client.PostAsJsonAsync($"/api/labels/{job.Id}/reprint", new ReprintLabelsRequest(3, 5));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var page = await response.Content.ReadFromJsonAsync<LabelPageResponse>(JsonOptions);
+        page.ShouldNotBeNull();
+        page.Labels.Select(l => l.Code).ShouldBe(["A0002", "A0003", "A0004"]);
+        page.Labels.Select(l => l.LabelNumber).ShouldBe([3, 4, 5]);
+
+        var jobResponse = await client.GetAsync($"/api/labels/{job.Id}");
+        var updated = await jobResponse.Content.ReadFromJsonAsync<LabelPrintJobResponse>(JsonOptions);
+        updated!.TotalLabelsGenerated.ShouldBe(12);
+    }
+
+    [Fact]
+    public async Task ReprintLabels_UsesFormatEachPageWasGeneratedWith()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var job = await CreateJobAsync(client);
+        await client.PostAsync($"/api/labels/{job.Id}/next-page", null);
+        await client.PutAsJsonAsync($"/api/labels/{job.Id}",
+            new UpdateLabelPrintJobRequest("Test Job", LabelFormat.Avery5160, LabelIncrementAlgorithm.NumericOnly, "A", 4, ""),
+            JsonOptions);
+        await client.PostAsync($"/api/labels/{job.Id}/next-page", null);
+
+        var firstPage = await client.PostAsJsonAsync($"/api/labels/{job.Id}/reprint", new ReprintLabelsRequest(3, 5));
+        var spanningPages = await client.PostAsJsonAsync($"/api/labels/{job.Id}/reprint", new ReprintLabelsRequest(10, 15));
+
+        firstPage.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var page = await firstPage.Content.ReadFromJsonAsync<LabelPageResponse>(JsonOptions);
+        page!.LabelFormat.ShouldBe(LabelFormat.Avery94107);
+        spanningPages.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task ReprintLabels_OutsideGeneratedRange_Returns404()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var job = await CreateJobAsync(client);
+
+        var response = await client.PostAsJsonAsync($"/api/labels/{job.Id}/reprint", new ReprintLabelsRequest(1, 12));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task ReprintLabels_WithInvertedRange_Returns400()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var job = await CreateJobAsync(client);
+
+        var response = await client.PostAsJsonAsync($"/api/labels/{job.Id}/reprint", new ReprintLabelsRequest(10, 2));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+}
@@ -1,7 +1,9 @@
 using System.Net;
 using System.Net.Http.Json;
 using Shouldly;
+using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Models.DTO.CustomField;
 using StorageLabelsApi.Models.DTO.Location;
 using StorageLabelsApi.Tests.TestInfrastructure;
 
@@ -47,6 +49,48 @@ public class LocationsIntegrationTests(IntegrationDatabaseFixture fixture)
         location.ShouldNotBeNull();
         location.Name.ShouldBe("New Storage Room");
         location.LocationId.ShouldBeGreaterThan(0);
+        location.Code.ShouldStartWith("LOC-");
+    }
+
+    [Fact]
+    public async Task CreateLocation_DuplicateCode_Returns409()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var firstResponse = await client.PostAsJsonAsync("/api/location/", new LocationRequest("Garage", "GARAGE-1"));
+        firstResponse.EnsureSuccessStatusCode();
+
+        var response = await client.PostAsJsonAsync("/api/location/", new LocationRequest("Shed", "GARAGE-1"));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task CreateLocation_CodeUsedByBox_Returns409()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var boxResponse = await client.PostAsJsonAsync("/api/box/",
+            new BoxRequest("SHELF-7", "Shelf Box", locationId, null, null, null));
+        boxResponse.EnsureSuccessStatusCode();
+
+        var response = await client.PostAsJsonAsync("/api/location/", new LocationRequest("Shed", "SHELF-7"));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task CreateBox_CodeUsedByLocation_Returns409()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var locationResponse = await client.PostAsJsonAsync("/api/location/", new LocationRequest("Shed", "SHED-1"));
+        locationResponse.EnsureSuccessStatusCode();
+
+        var response = await client.PostAsJsonAsync("/api/box/",
+            new BoxRequest("SHED-1", "Shed Box", locationId, null, null, null));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.Conflict);
     }
 
     [Fact]
@@ -176,4 +220,35 @@ public class LocationsIntegrationTests(IntegrationDatabaseFixture fixture)
 
         response.StatusCode.ShouldBe(HttpStatusCode.NotFound);
     }
+
+    [Fact]
+    public async Task CreateCustomField_WithOptions_AppearsInList()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        var response = await client.PostAsJsonAsync($"/api/location/{locationId}/fields",
+            new CustomFieldRequest(" Condition ", CustomFieldType.Enum, CustomFieldAppliesTo.ItemsAndBoxes, ["New", "Used", "new", " "]));
+        var fields = await client.GetFromJsonAsync<List<CustomFieldResponse>>($"/api/location/{locationId}/fields");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.Created);
+        fields.ShouldNotBeNull();
+        var field = fields.ShouldHaveSingleItem();
+        field.Name.ShouldBe("Condition");
+        field.Options.ShouldBe(["New", "Used"]);
+    }
+
+    [Fact]
+    public async Task CreateCustomField_DuplicateName_Returns409()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        (await client.PostAsJsonAsync($"/api/location/{locationId}/fields",
+            new CustomFieldRequest("Serial number", CustomFieldType.Text))).EnsureSuccessStatusCode();
+
+        var response = await client.PostAsJsonAsync($"/api/location/{locationId}/fields",
+            new CustomFieldRequest("serial NUMBER", CustomFieldType.Text));
+
+        response.StatusCode.ShouldBe(HttpStatusCode.Conflict);
+    }
 }
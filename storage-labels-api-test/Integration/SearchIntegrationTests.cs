@@ -1,7 +1,11 @@
 using System.Net;
 using System.Net.Http.Json;
 using Shouldly;
+using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Models.DTO.CustomField;
+using StorageLabelsApi.Models.DTO.Item;
+using StorageLabelsApi.Models.DTO.Location;
 using StorageLabelsApi.Models.DTO.Search;
 using StorageLabelsApi.Tests.TestInfrastructure;
 
@@ -47,6 +51,25 @@ public class SearchIntegrationTests(IntegrationDatabaseFixture fixture)
         result.BoxName.ShouldBe("QR Search Box");
     }
 
+    [Fact]
+    public async Task SearchByQrCode_WithLocationCode_Returns200WithLocation()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var createResponse = await client.PostAsJsonAsync("/api/location/", new LocationRequest("Attic", "QR-LOC-001"));
+        var location = await createResponse.Content.ReadFromJsonAsync<LocationResponse>();
+
+        var response = await client.GetAsync("/api/search/qrcode/QR-LOC-001");
+
+        response.StatusCode.ShouldBe(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<SearchResultResponse>();
+        result.ShouldNotBeNull();
+        result.Type.ShouldBe("location");
+        result.LocationId.ShouldBe(location!.LocationId.ToString());
+        result.LocationName.ShouldBe("Attic");
+        result.BoxId.ShouldBeNull();
+    }
+
     [Fact]
     public async Task SearchByQrCode_WithNonExistentCode_Returns404()
     {
@@ -118,4 +141,91 @@ public class SearchIntegrationTests(IntegrationDatabaseFixture fixture)
         response.StatusCode.ShouldBe(HttpStatusCode.OK);
         response.Headers.Contains("x-total-count").ShouldBeTrue();
     }
+
+    [Fact]
+    public async Task SearchBoxesAndItems_TypeAndHasImageFilters_RestrictResults()
+    {
+        var (userId, locationId, box) = await SeedBoxWithCodeAsync("FILTER-1", "Lantern box");
+        var client = CreateAuthenticatedClient(userId);
+        (await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(box.BoxId, "Lantern with photo", null, "https://example.com/lantern.jpg", null))).EnsureSuccessStatusCode();
+        (await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(box.BoxId, "Lantern wick", null, null, null))).EnsureSuccessStatusCode();
+
+        var items = await client.GetFromJsonAsync<List<SearchResultResponse>>(
+            $"/api/search?query=lantern&locationId={locationId}&type=item&hasImage=true");
+        var boxes = await client.GetFromJsonAsync<List<SearchResultResponse>>(
+            $"/api/search?query=lantern&locationId={locationId}&type=box");
+        var invalid = await client.GetAsync("/api/search?query=lantern&type=shelf");
+
+        items.ShouldNotBeNull();
+        items.Select(r => r.ItemName).ShouldBe(["Lantern with photo"]);
+        boxes.ShouldNotBeNull();
+        boxes.Select(r => r.Type).ShouldBe(["box"]);
+        invalid.StatusCode.ShouldBe(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task SearchBoxesAndItems_DescriptionMatch_ReturnsHighlight()
+    {
+        var (userId, locationId, box) = await SeedBoxWithCodeAsync("HIGHLIGHT-1", "Coat box");
+        var client = CreateAuthenticatedClient(userId);
+        (await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(box.BoxId, "Winter Jacket", "Blue parka with hood", null, null))).EnsureSuccessStatusCode();
+
+        var results = await client.GetFromJsonAsync<List<SearchResultResponse>>(
+            $"/api/search?query=parka&locationId={locationId}");
+
+        results.ShouldNotBeNull();
+        var highlights = results.ShouldHaveSingleItem().Highlights;
+        highlights.ShouldNotBeNull();
+        var description = highlights.ShouldHaveSingleItem();
+        description.Field.ShouldBe("description");
+        description.Text.ShouldBe("Blue parka with hood");
+        description.Matches.ShouldBe([new SearchMatch(5, 5)]);
+    }
+
+    [Fact]
+    public async Task SearchBoxesAndItems_InsideNestedBox_ReturnsContainerPath()
+    {
+        var (userId, locationId, shelf) = await SeedBoxWithCodeAsync("SHELF-1", "Garage shelf");
+        var client = CreateAuthenticatedClient(userId);
+        var toteResponse = await client.PostAsJsonAsync("/api/box/",
+            new BoxRequest("TOTE-1", "Camping tote", locationId, null, null, null, shelf.BoxId));
+        toteResponse.EnsureSuccessStatusCode();
+        var tote = await toteResponse.Content.ReadFromJsonAsync<BoxResponse>();
+        (await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(tote!.BoxId, "Lantern", null, null, null))).EnsureSuccessStatusCode();
+
+        var results = await client.GetFromJsonAsync<List<SearchResultResponse>>(
+            $"/api/search?query=lantern&boxId={shelf.BoxId}");
+
+        results.ShouldNotBeNull();
+        var lantern = results.ShouldHaveSingleItem();
+        lantern.BoxName.ShouldBe("Camping tote");
+        lantern.ContainerPath.ShouldBe(["Garage shelf"]);
+    }
+
+    [Fact]
+    public async Task SearchBoxesAndItems_CustomFieldMatch_ReturnsHighlight()
+    {
+        var (userId, locationId, box) = await SeedBoxWithCodeAsync("FIELD-1", "Electronics");
+        var client = CreateAuthenticatedClient(userId);
+        var fieldResponse = await client.PostAsJsonAsync($"/api/location/{locationId}/fields",
+            new CustomFieldRequest("Serial number", CustomFieldType.Text));
+        var field = await fieldResponse.Content.ReadFromJsonAsync<CustomFieldResponse>();
+        (await client.PostAsJsonAsync("/api/item/",
+            new ItemRequest(box.BoxId, "Drill", null, null, null, [new CustomFieldEntry(field!.CustomFieldId, "SN-4471-XQ")]))).EnsureSuccessStatusCode();
+
+        var results = await client.GetFromJsonAsync<List<SearchResultResponse>>(
+            $"/api/search?query=4471&locationId={locationId}");
+
+        results.ShouldNotBeNull();
+        var drill = results.ShouldHaveSingleItem();
+        drill.ItemName.ShouldBe("Drill");
+        drill.Highlights.ShouldNotBeNull();
+        var highlight = drill.Highlights.ShouldHaveSingleItem();
+        highlight.Field.ShouldBe("field:Serial number");
+        highlight.Matches.ShouldBe([new SearchMatch(3, 4)]);
+    }
 }
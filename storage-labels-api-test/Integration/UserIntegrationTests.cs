@@ -1,6 +1,7 @@
 using System.Net;
 using System.Net.Http.Json;
 using Shouldly;
+using StorageLabelsApi.Models.DTO.Box;
 using StorageLabelsApi.Models.DTO.User;
 using StorageLabelsApi.Tests.TestInfrastructure;
 
@@ -155,6 +156,72 @@ public class UserIntegrationTests(IntegrationDatabaseFixture fixture)
         prefs.Theme.ShouldBe("dark");
     }
 
+    [Fact]
+    public async Task UpdateUserPreferences_WithBoxListSorts_PersistsAcrossRequests()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        await client.PutAsJsonAsync("/api/user/preferences",
+            new UserPreferencesResponse
+            {
+                BoxListSorts = new Dictionary<string, BoxListSort>
+                {
+                    [locationId.ToString()] = new BoxListSort(BoxSortField.ItemCount, true)
+                }
+            });
+
+        var getResponse = await client.GetAsync("/api/user/preferences");
+        var prefs = await getResponse.Content.ReadFromJsonAsync<UserPreferencesResponse>();
+        prefs.ShouldNotBeNull();
+        prefs.BoxListSorts.ShouldContainKey(locationId.ToString());
+        prefs.BoxListSorts[locationId.ToString()].ShouldBe(new BoxListSort(BoxSortField.ItemCount, true));
+    }
+
+    [Fact]
+    public async Task UpdateUserPreferences_WithSearchHistory_PersistsAcrossRequests()
+    {
+        var (userId, locationId) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+        var saved = new SavedSearch("winter", locationId.ToString(), null, "Garage", "item", true);
+
+        await client.PutAsJsonAsync("/api/user/preferences",
+            new UserPreferencesResponse
+            {
+                RecentSearches = ["jacket", "lantern"],
+                SavedSearches = [saved]
+            });
+
+        var getResponse = await client.GetAsync("/api/user/preferences");
+        var prefs = await getResponse.Content.ReadFromJsonAsync<UserPreferencesResponse>();
+        prefs.ShouldNotBeNull();
+        prefs.RecentSearches.ShouldBe(["jacket", "lantern"]);
+        prefs.SavedSearches.ShouldBe([saved]);
+    }
+
+    [Fact]
+    public async Task UpdateUserPreferences_WithPrinterCalibrations_PersistsAcrossRequests()
+    {
+        var (userId, _) = await SeedTestUserWithLocationAsync();
+        var client = CreateAuthenticatedClient(userId);
+
+        await client.PutAsJsonAsync("/api/user/preferences",
+            new UserPreferencesResponse
+            {
+                PrinterCalibrations = [new PrinterCalibration("Office Laser", 1.5, -2, 1, 0.98)],
+                ActivePrinter = "Office Laser"
+            });
+
+        var getResponse = await client.GetAsync("/api/user/preferences");
+        var prefs = await getResponse.Content.ReadFromJsonAsync<UserPreferencesResponse>();
+        prefs.ShouldNotBeNull();
+        prefs.ActivePrinter.ShouldBe("Office Laser");
+        var calibration = prefs.PrinterCalibrations.ShouldHaveSingleItem();
+        calibration.OffsetX.ShouldBe(1.5);
+        calibration.OffsetY.ShouldBe(-2);
+        calibration.ScaleY.ShouldBe(0.98);
+    }
+
     [Fact]
     public async Task UpdateUserPreferences_WithUnknownUser_Returns404()
     {
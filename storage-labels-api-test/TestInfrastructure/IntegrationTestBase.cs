@@ -55,6 +55,7 @@ public abstract class IntegrationTestBase(IntegrationDatabaseFixture fixture) :
         var location = db.Locations.Add(new Location(
             LocationId: 0,
             Name: "Test Location",
+            Code: $"LOC-{userId[..8]}",
             Created: now,
             Updated: now)).Entity;
 
@@ -11,6 +11,7 @@ public record Box(
     string? ImageUrl,
     Guid? ImageMetadataId,
     long LocationId,
+    Guid? ParentBoxId,
     DateTimeOffset Created,
     DateTimeOffset Updated,
     DateTimeOffset LastAccessed)
@@ -18,4 +19,5 @@ public record Box(
     public Location Location { get; } = null!;
     public ICollection<Item> Items { get; } = [];
     public ImageMetadata? ImageMetadata { get; set; }
+    public ICollection<CustomFieldValue> CustomFieldValues { get; } = [];
 }
\ No newline at end of file
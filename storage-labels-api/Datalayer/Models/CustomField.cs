@@ -0,0 +1,47 @@
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
+
+namespace StorageLabelsApi.DataLayer.Models;
+
+/// <summary>
+/// Kind of value a custom field holds. Values are stored as text in a normalised form
+/// (invariant numbers, yyyy-MM-dd dates, true/false) so they sort and search the same everywhere.
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum CustomFieldType
+{
+    Text,
+    Number,
+    Date,
+    Enum,
+    Boolean
+}
+
+/// <summary>
+/// Whether a custom field is filled in on items, boxes or both
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum CustomFieldAppliesTo
+{
+    Items,
+    Boxes,
+    ItemsAndBoxes
+}
+
+/// <summary>
+/// A field defined for one location, such as quantity, purchase date or serial number.
+/// Options lists the allowed values of an Enum field and is empty for the other types.
+/// </summary>
+[Table("CustomFields")]
+public record CustomField(
+    long CustomFieldId,
+    long LocationId,
+    string Name,
+    CustomFieldType Type,
+    CustomFieldAppliesTo AppliesTo,
+    List<string> Options,
+    DateTimeOffset Created,
+    DateTimeOffset Updated)
+{
+    public Location Location { get; } = null!;
+}
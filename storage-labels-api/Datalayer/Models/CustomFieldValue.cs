@@ -0,0 +1,17 @@
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StorageLabelsApi.DataLayer.Models;
+
+/// <summary>
+/// The value of a custom field on one item or one box; exactly one of BoxId and ItemId is set.
+/// </summary>
+[Table("CustomFieldValues")]
+public record CustomFieldValue(
+    long CustomFieldValueId,
+    long CustomFieldId,
+    Guid? BoxId,
+    Guid? ItemId,
+    string Value)
+{
+    public CustomField CustomField { get; } = null!;
+}
@@ -15,4 +15,5 @@ public record Item(
 {
     public Box Box { get; } = null!;
     public ImageMetadata? ImageMetadata { get; set; }
+    public ICollection<CustomFieldValue> CustomFieldValues { get; } = [];
 };
\ No newline at end of file
@@ -11,7 +11,27 @@ public enum LabelFormat
     /// <summary>
     /// Avery 94107 - 2" x 2", 12 per page (3 columns x 4 rows)
     /// </summary>
-    Avery94107
+    Avery94107,
+
+    /// <summary>
+    /// Avery 5160 - 2-5/8" x 1", 30 per page (3 columns x 10 rows)
+    /// </summary>
+    Avery5160,
+
+    /// <summary>
+    /// Avery 22805 - 1-1/2" x 1-1/2", 24 per page (4 columns x 6 rows)
+    /// </summary>
+    Avery22805,
+
+    /// <summary>
+    /// Dymo 30332 - 1" x 1" continuous roll, generated in batches of 10
+    /// </summary>
+    Dymo30332,
+
+    /// <summary>
+    /// Dymo 30334 - 2-1/4" x 1-1/4" continuous roll, generated in batches of 10
+    /// </summary>
+    Dymo30334
 }
 
 /// <summary>
@@ -30,6 +50,48 @@ public enum LabelIncrementAlgorithm
     Base36Suffix
 }
 
+/// <summary>
+/// Arrangement of the QR code and text on a label
+/// </summary>
+public enum LabelLayout
+{
+    /// <summary>
+    /// QR on top for square labels, QR on the left for wide labels
+    /// </summary>
+    Auto,
+
+    /// <summary>
+    /// QR code above the text
+    /// </summary>
+    QrTop,
+
+    /// <summary>
+    /// QR code on the left with the text on the right
+    /// </summary>
+    QrLeft
+}
+
+/// <summary>
+/// Barcode symbology printed on a label
+/// </summary>
+public enum LabelSymbology
+{
+    /// <summary>
+    /// QR code
+    /// </summary>
+    QrCode,
+
+    /// <summary>
+    /// Code 128 linear barcode, readable by handheld laser scanners
+    /// </summary>
+    Code128,
+
+    /// <summary>
+    /// Data Matrix 2D code, smaller than a QR code for the same content
+    /// </summary>
+    DataMatrix
+}
+
 /// <summary>
 /// Represents a saved label print job configuration
 /// </summary>
@@ -85,6 +147,47 @@ public class LabelPrintJob
     [MaxLength(200)]
     public string CodeColorPattern { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Arrangement of the QR code and text on each label
+    /// </summary>
+    public LabelLayout LabelLayout { get; set; } = LabelLayout.Auto;
+
+    /// <summary>
+    /// Barcode symbology used to encode the code on each label
+    /// </summary>
+    public LabelSymbology Symbology { get; set; } = LabelSymbology.QrCode;
+
+    /// <summary>
+    /// Adds a box name line to each label
+    /// </summary>
+    public bool ShowBoxName { get; set; }
+
+    /// <summary>
+    /// Adds a location name line to each label
+    /// </summary>
+    public bool ShowLocationName { get; set; }
+
+    /// <summary>
+    /// Optional short text printed on every label (e.g. "Property of the Smiths")
+    /// </summary>
+    [MaxLength(100)]
+    public string? TemplateDescription { get; set; }
+
+    /// <summary>
+    /// Adds the application logo to each label
+    /// </summary>
+    public bool ShowLogo { get; set; }
+
+    /// <summary>
+    /// Adds the human-readable print date to each label
+    /// </summary>
+    public bool ShowDate { get; set; }
+
+    /// <summary>
+    /// Encodes a scan deep link URL in the barcode instead of the bare code
+    /// </summary>
+    public bool EncodeScanUrl { get; set; }
+
     /// <summary>
     /// UTC timestamp when this job was created
     /// </summary>
@@ -95,4 +198,9 @@ public class LabelPrintJob
     /// </summary>
     [MaxLength(450)]
     public string CreatedBy { get; set; } = string.Empty;
+
+    /// <summary>
+    /// History of pages generated by this job
+    /// </summary>
+    public ICollection<LabelPrintJobPage> Pages { get; } = [];
 }
@@ -0,0 +1,69 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace StorageLabelsApi.DataLayer.Models;
+
+/// <summary>
+/// A page of labels generated by a print job. Stores a snapshot of the code settings
+/// so the same codes can be reprinted after the job has moved on or been edited.
+/// </summary>
+[Table("labelprintjobpages")]
+public class LabelPrintJobPage
+{
+    /// <summary>
+    /// Unique identifier for the generated page
+    /// </summary>
+    [Key]
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    /// <summary>
+    /// The print job that generated this page
+    /// </summary>
+    public Guid JobId { get; set; }
+
+    /// <summary>
+    /// Navigation property to the owning print job
+    /// </summary>
+    public LabelPrintJob Job { get; set; } = null!;
+
+    /// <summary>
+    /// Code index of the first label on the page
+    /// </summary>
+    public long StartIndex { get; set; }
+
+    /// <summary>
+    /// Sequential label number (1-based, across the job) of the first label on the page
+    /// </summary>
+    public int FirstLabelNumber { get; set; }
+
+    /// <summary>
+    /// Number of labels generated on the page
+    /// </summary>
+    public int LabelCount { get; set; }
+
+    /// <summary>
+    /// Label format the page was generated for
+    /// </summary>
+    public LabelFormat LabelFormat { get; set; }
+
+    /// <summary>
+    /// Increment algorithm in effect when the page was generated
+    /// </summary>
+    public LabelIncrementAlgorithm IncrementAlgorithm { get; set; }
+
+    /// <summary>
+    /// Code prefix in effect when the page was generated
+    /// </summary>
+    [MaxLength(50)]
+    public string? AlgorithmPrefix { get; set; }
+
+    /// <summary>
+    /// Suffix length in effect when the page was generated
+    /// </summary>
+    public int AlgorithmSuffixLength { get; set; }
+
+    /// <summary>
+    /// UTC timestamp when the page was generated
+    /// </summary>
+    public DateTimeOffset GeneratedAt { get; set; }
+}
@@ -6,9 +6,11 @@ namespace StorageLabelsApi.DataLayer.Models;
 public record Location(
     long LocationId,
     string Name,
+    string Code,
     DateTimeOffset Created,
     DateTimeOffset Updated)
 {
     public ICollection<UserLocation> UserLocations { get; } = [];
     public ICollection<Box> Boxes { get; } = [];
+    public ICollection<CustomField> CustomFields { get; } = [];
 }
@@ -10,6 +10,8 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
 {
     public DbSet<Box> Boxes { get; set; } = null!;
     public DbSet<CommonLocation> CommonLocations { get; set; } = null!;
+    public DbSet<CustomField> CustomFields { get; set; } = null!;
+    public DbSet<CustomFieldValue> CustomFieldValues { get; set; } = null!;
     public DbSet<Item> Items { get; set; } = null!;
     public DbSet<Location> Locations { get; set; } = null!;
     public DbSet<RefreshToken> RefreshTokens { get; set; } = null!;
@@ -21,6 +23,7 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
     public DbSet<EncryptionKey> EncryptionKeys { get; set; } = null!;
     public DbSet<EncryptionKeyRotation> EncryptionKeyRotations { get; set; } = null!;
     public DbSet<LabelPrintJob> LabelPrintJobs { get; set; } = null!;
+    public DbSet<LabelPrintJobPage> LabelPrintJobPages { get; set; } = null!;
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -47,6 +50,9 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
         modelBuilder.Entity<RefreshToken>().ToTable("refreshtokens");
         modelBuilder.Entity<EncryptionKey>().ToTable("encryptionkeys");
         modelBuilder.Entity<LabelPrintJob>().ToTable("labelprintjobs");
+        modelBuilder.Entity<LabelPrintJobPage>().ToTable("labelprintjobpages");
+        modelBuilder.Entity<CustomField>().ToTable("customfields");
+        modelBuilder.Entity<CustomFieldValue>().ToTable("customfieldvalues");
         modelBuilder.Entity<CommonLocation>().ToTable("commonlocations");
         modelBuilder.Entity<Item>().ToTable("items");
         modelBuilder.Entity<Location>().ToTable("locations");
@@ -68,6 +74,12 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
         modelBuilder.Entity<Box>()
             .HasIndex(box => box.Code);
 
+        // Boxes can sit inside other boxes of the same location (shelves, totes, bins)
+        modelBuilder.Entity<Box>()
+            .HasOne<Box>()
+            .WithMany()
+            .HasForeignKey(box => box.ParentBoxId);
+
         modelBuilder.Entity<Box>()
             .HasMany(box => box.Items)
             .WithOne(item => item.Box)
@@ -76,6 +88,35 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
         modelBuilder.Entity<CommonLocation>()
             .HasKey(commonLocation => commonLocation.CommonLocationId);
 
+        modelBuilder.Entity<CustomField>()
+            .HasKey(field => field.CustomFieldId);
+
+        // Names are unique per location ignoring case; that index is on lower("Name"), so the migration creates it
+        modelBuilder.Entity<CustomField>()
+            .HasIndex(field => field.LocationId);
+
+        modelBuilder.Entity<CustomFieldValue>()
+            .HasKey(value => value.CustomFieldValueId);
+
+        modelBuilder.Entity<CustomFieldValue>()
+            .HasOne(value => value.CustomField)
+            .WithMany()
+            .HasForeignKey(value => value.CustomFieldId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // Values go with the box or item they belong to, including bulk deletes done in SQL
+        modelBuilder.Entity<Box>()
+            .HasMany(box => box.CustomFieldValues)
+            .WithOne()
+            .HasForeignKey(value => value.BoxId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        modelBuilder.Entity<Item>()
+            .HasMany(item => item.CustomFieldValues)
+            .WithOne()
+            .HasForeignKey(value => value.ItemId)
+            .OnDelete(DeleteBehavior.Cascade);
+
         modelBuilder.Entity<Item>()
             .HasKey(item => item.ItemId);
 
@@ -86,11 +127,20 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
         modelBuilder.Entity<Location>()
             .HasKey(location => location.LocationId);
 
+        modelBuilder.Entity<Location>()
+            .HasIndex(location => location.Code)
+            .IsUnique();
+
         modelBuilder.Entity<Location>()
             .HasMany(location => location.Boxes)
             .WithOne(box => box.Location)
             .HasForeignKey(box => box.LocationId);
 
+        modelBuilder.Entity<Location>()
+            .HasMany(location => location.CustomFields)
+            .WithOne(field => field.Location)
+            .HasForeignKey(field => field.LocationId);
+
         modelBuilder.Entity<Location>()
             .HasMany(location => location.UserLocations)
             .WithOne(userLocation => userLocation.Location)
@@ -165,5 +215,14 @@ public class StorageLabelsDbContext([NotNull] DbContextOptions options) : Identi
             .WithMany()
             .HasForeignKey(token => token.UserId)
             .OnDelete(DeleteBehavior.Cascade);
+
+        modelBuilder.Entity<LabelPrintJob>()
+            .HasMany(job => job.Pages)
+            .WithOne(page => page.Job)
+            .HasForeignKey(page => page.JobId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        modelBuilder.Entity<LabelPrintJobPage>()
+            .HasIndex(page => new { page.JobId, page.FirstLabelNumber });
     }
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+
+namespace StorageLabelsApi.Endpoints.Boxes;
+
+internal partial class BoxEndpoints
+{
+    /// <summary>
+    /// A scan finds boxes before locations, so a box sharing a location's code would hide that location's label
+    /// </summary>
+    private static Task<bool> IsCodeUsedByLocation(StorageLabelsDbContext dbContext, string code, CancellationToken cancellationToken) =>
+        dbContext.Locations
+            .AsNoTracking()
+            .AnyAsync(l => l.Code == code, cancellationToken);
+}
@@ -0,0 +1,49 @@
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.Services;
+
+namespace StorageLabelsApi.Endpoints.Boxes;
+
+internal partial class BoxEndpoints
+{
+    /// <summary>
+    /// Checks a box can be put inside <paramref name="parentBoxId"/>: the parent has to be in the
+    /// same location, and can't be the box itself or a box inside it. Returns the problem, if any.
+    /// </summary>
+    private static string? CheckParentBox(BoxHierarchy hierarchy, long locationId, Guid? parentBoxId, Guid? boxId)
+    {
+        if (!parentBoxId.HasValue)
+            return null;
+
+        var parent = hierarchy.Find(parentBoxId.Value);
+        if (parent is null || parent.LocationId != locationId)
+            return $"Parent box ({parentBoxId}) was not found in location ({locationId}).";
+
+        if (boxId.HasValue && hierarchy.IsWithin(parentBoxId.Value, boxId.Value))
+            return "A box can't be put inside itself or a box it contains.";
+
+        return null;
+    }
+
+    /// <summary>
+    /// Box codes are unique within a location, so a box (and everything inside it) can only move
+    /// somewhere none of its codes are already used. Returns the first clashing code.
+    /// </summary>
+    private static Task<string?> FindCodeClash(StorageLabelsDbContext dbContext, long locationId, IReadOnlyCollection<string> codes, CancellationToken cancellationToken) =>
+        dbContext.Boxes
+            .AsNoTracking()
+            .Where(b => b.LocationId == locationId && codes.Contains(b.Code))
+            .Select(b => b.Code)
+            .FirstOrDefaultAsync(cancellationToken);
+
+    /// <summary>
+    /// Moves the boxes nested inside a box to the location the box itself was moved to
+    /// </summary>
+    private static Task<int> CarryNestedBoxes(StorageLabelsDbContext dbContext, IReadOnlyCollection<Guid> nestedBoxIds, long locationId, DateTimeOffset dateTime, CancellationToken cancellationToken) =>
+        dbContext.Boxes
+            .Where(b => nestedBoxIds.Contains(b.BoxId))
+            .ExecuteUpdateAsync(setters => setters
+                .SetProperty(b => b.LocationId, locationId)
+                .SetProperty(b => b.Updated, dateTime),
+                cancellationToken);
+}
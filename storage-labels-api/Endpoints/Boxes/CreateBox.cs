@@ -6,6 +6,7 @@ using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Logging;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Services;
 
 namespace StorageLabelsApi.Endpoints.Boxes;
 
@@ -32,6 +33,11 @@ internal partial class BoxEndpoints
             return TypedResults.Problem($"A box with the code {request.Code} already exists in this location", statusCode: 409);
         }
 
+        if (await IsCodeUsedByLocation(dbContext, request.Code, cancellationToken))
+        {
+            return TypedResults.Problem($"A location with the code {request.Code} already exists", statusCode: 409);
+        }
+
         var userCanAccessLocation = await dbContext.UserLocations
             .AsNoTracking()
             .Where(ul => ul.LocationId == request.LocationId)
@@ -45,6 +51,22 @@ internal partial class BoxEndpoints
             return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(Location)] = [$"User cannot add box to location ({request.LocationId})."] });
         }
 
+        if (request.ParentBoxId.HasValue)
+        {
+            var hierarchy = await BoxHierarchy.LoadAsync(dbContext, request.LocationId, cancellationToken);
+            var parentProblem = CheckParentBox(hierarchy, request.LocationId, request.ParentBoxId, null);
+            if (parentProblem is not null)
+            {
+                return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(BoxRequest.ParentBoxId)] = [parentProblem] });
+            }
+        }
+
+        var customFields = await CustomFieldValues.PrepareAsync(dbContext, request.LocationId, CustomFieldAppliesTo.Boxes, request.CustomFields, cancellationToken);
+        if (!customFields.IsValid)
+        {
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(BoxRequest.CustomFields)] = [.. customFields.Errors] });
+        }
+
         var dateTime = timeProvider.GetUtcNow();
 
         var box = dbContext.Boxes.Add(new(
@@ -55,10 +77,12 @@ internal partial class BoxEndpoints
             ImageUrl: request.ImageUrl,
             ImageMetadataId: request.ImageMetadataId,
             LocationId: request.LocationId,
+            ParentBoxId: request.ParentBoxId,
             Created: dateTime,
             Updated: dateTime,
             LastAccessed: dateTime)
         );
+        CustomFieldValues.Add(dbContext, customFields, box.Entity.BoxId, null);
 
         await dbContext.SaveChangesAsync(cancellationToken);
 
@@ -41,6 +41,13 @@ internal partial class BoxEndpoints
                 .ExecuteDeleteAsync(cancellationToken);
         }
 
+        // Boxes nested inside move up to where this box was rather than going with it
+        await dbContext.Boxes
+            .Where(b => b.ParentBoxId == boxId)
+            .ExecuteUpdateAsync(setters => setters
+                .SetProperty(b => b.ParentBoxId, box.ParentBoxId),
+                cancellationToken);
+
         await dbContext.Boxes
             .Where(b => b.BoxId == boxId)
             .ExecuteDeleteAsync(cancellationToken);
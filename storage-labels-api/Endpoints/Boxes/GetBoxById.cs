@@ -4,6 +4,7 @@ using Microsoft.EntityFrameworkCore;
 using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Services;
 
 namespace StorageLabelsApi.Endpoints.Boxes;
 
@@ -15,6 +16,7 @@ internal partial class BoxEndpoints
 
         var box = await dbContext.Boxes
             .AsNoTracking()
+            .Include(b => b.CustomFieldValues)
             .Where(b => b.BoxId == boxId)
             .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId))
             .Where(b => b.Location.UserLocations.Where(ul => ul.UserId == userId).First().AccessLevel > AccessLevels.None)
@@ -25,6 +27,14 @@ internal partial class BoxEndpoints
             return TypedResults.NotFound($"Box with id {boxId} was not found.");
         }
 
-        return TypedResults.Ok(new BoxResponse(box));
+        // The boxes this one sits inside, for breadcrumbs
+        var path = new List<BoxPathSegment>();
+        if (box.ParentBoxId.HasValue)
+        {
+            var hierarchy = await BoxHierarchy.LoadAsync(dbContext, box.LocationId, cancellationToken);
+            path = hierarchy.Ancestors(boxId).Select(n => new BoxPathSegment(n.BoxId, n.Name, n.Code)).ToList();
+        }
+
+        return TypedResults.Ok(new BoxResponse(box) with { Path = path });
     }
 }
@@ -1,28 +1,143 @@
-using System.Runtime.CompilerServices;
+using System.Linq.Expressions;
+using Microsoft.AspNetCore.Http.HttpResults;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Services;
+using BoxModel = StorageLabelsApi.DataLayer.Models.Box;
 
 namespace StorageLabelsApi.Endpoints.Boxes;
 
 internal partial class BoxEndpoints
 {
-    private static async IAsyncEnumerable<BoxResponse> GetBoxesByLocationId(HttpContext context, [FromRoute] long locationId, [FromServices] StorageLabelsDbContext dbContext, [EnumeratorCancellation] CancellationToken cancellationToken)
+    private const int MaxBoxPageSize = 100;
+
+    /// <summary>
+    /// Lists the boxes in a location with their content stats. Without <paramref name="pageNumber"/>
+    /// every matching box is returned; the total is always sent in the x-total-count header.
+    /// <paramref name="parentBoxId"/> lists just the boxes inside that box, and <paramref name="topLevel"/>
+    /// just those not inside any box; otherwise boxes at every depth are listed.
+    /// </summary>
+    private static async Task<Results<Ok<List<BoxResponse>>, ValidationProblem>> GetBoxesByLocationId(
+        HttpContext context,
+        [FromRoute] long locationId,
+        [FromServices] StorageLabelsDbContext dbContext,
+        [FromQuery] string? sort = null,
+        [FromQuery] bool descending = false,
+        [FromQuery] string? filter = null,
+        [FromQuery] int? pageNumber = null,
+        [FromQuery] int pageSize = 50,
+        [FromQuery] Guid? parentBoxId = null,
+        [FromQuery] bool topLevel = false,
+        CancellationToken cancellationToken = default)
     {
         var userId = context.GetUserId();
 
+        var sortField = BoxSortField.Name;
+        if (!string.IsNullOrEmpty(sort) && !Enum.TryParse(sort, ignoreCase: true, out sortField))
+        {
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]>
+            {
+                [nameof(sort)] = [$"Unknown sort ({sort}). Use one of: {string.Join(", ", Enum.GetNames<BoxSortField>())}."]
+            });
+        }
+
+        if (pageSize < 1 || pageSize > MaxBoxPageSize) pageSize = 50;
+
         var boxes = dbContext.Boxes
             .AsNoTracking()
             .Where(b => b.LocationId == locationId)
-            .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.View))
-            .AsAsyncEnumerable();
+            .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.View));
+
+        if (parentBoxId.HasValue)
+        {
+            boxes = boxes.Where(b => b.ParentBoxId == parentBoxId);
+        }
+        else if (topLevel)
+        {
+            boxes = boxes.Where(b => b.ParentBoxId == null);
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter))
+        {
+            var pattern = $"%{filter.Trim()}%";
+            boxes = boxes.Where(b =>
+                EF.Functions.ILike(b.Name, pattern) ||
+                EF.Functions.ILike(b.Code, pattern) ||
+                EF.Functions.ILike(b.Description ?? "", pattern));
+        }
+
+        var totalCount = await boxes.CountAsync(cancellationToken);
+
+        var rows = boxes.Select(b => new BoxListRow
+        {
+            Box = b,
+            ItemCount = b.Items.Count(),
+            // The box's own photo plus every item photo
+            ImageCount = b.Items.Count(i => i.ImageUrl != null) + (b.ImageUrl != null ? 1 : 0),
+            LastItemUpdated = b.Items.Max(i => (DateTimeOffset?)i.Updated)
+        });
+
+        var sorted = (sortField switch
+        {
+            BoxSortField.Code => SortBy(rows, r => r.Box.Code, descending),
+            BoxSortField.Updated => SortBy(rows, r => r.Box.Updated, descending),
+            BoxSortField.LastAccessed => SortBy(rows, r => r.Box.LastAccessed, descending),
+            BoxSortField.ItemCount => SortBy(rows, r => r.ItemCount, descending),
+            _ => SortBy(rows, r => r.Box.Name, descending),
+        }).ThenBy(r => r.Box.BoxId);
+
+        IQueryable<BoxListRow> page = sorted;
+        if (pageNumber.HasValue)
+        {
+            page = sorted
+                .Skip((Math.Max(pageNumber.Value, 1) - 1) * pageSize)
+                .Take(pageSize);
+        }
+
+        var results = await page.ToListAsync(cancellationToken);
+
+        context.Response.Headers["x-total-count"] = totalCount.ToString();
 
-        await foreach (var box in boxes)
+        if (results.Count == 0)
         {
-            if (cancellationToken.IsCancellationRequested) break;
-            yield return new BoxResponse(box);
+            return TypedResults.Ok(new List<BoxResponse>());
         }
+
+        // Nested totals walk the whole location's nesting, so work them out in memory
+        var hierarchy = await BoxHierarchy.LoadAsync(dbContext, locationId, cancellationToken);
+        var itemCounts = await dbContext.Items
+            .AsNoTracking()
+            .Where(i => i.Box.LocationId == locationId)
+            .GroupBy(i => i.BoxId)
+            .Select(g => new { BoxId = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(g => g.BoxId, g => g.Count, cancellationToken);
+
+        return TypedResults.Ok(results
+            .Select(r =>
+            {
+                var nested = hierarchy.Descendants(r.Box.BoxId);
+                var totalItemCount = r.ItemCount + nested.Sum(n => itemCounts.GetValueOrDefault(n.BoxId));
+                return new BoxResponse(r.Box) with
+                {
+                    Stats = new BoxStatsResponse(r.ItemCount, r.ImageCount, r.LastItemUpdated, nested.Count, totalItemCount),
+                    // Custom field values aren't loaded for lists; the box itself has them
+                    CustomFields = null
+                };
+            })
+            .ToList());
+    }
+
+    private static IOrderedQueryable<BoxListRow> SortBy<TKey>(IQueryable<BoxListRow> rows, Expression<Func<BoxListRow, TKey>> key, bool descending) =>
+        descending ? rows.OrderByDescending(key) : rows.OrderBy(key);
+
+    private sealed class BoxListRow
+    {
+        public required BoxModel Box { get; init; }
+        public int ItemCount { get; init; }
+        public int ImageCount { get; init; }
+        public DateTimeOffset? LastItemUpdated { get; init; }
     }
 }
@@ -5,23 +5,29 @@ using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Logging;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Services;
 
 namespace StorageLabelsApi.Endpoints.Boxes;
 
 internal partial class BoxEndpoints
 {
-    private static async Task<Results<Ok<BoxResponse>, NotFound<string>, ValidationProblem>> MoveBox(HttpContext context, [FromRoute] Guid boxId, [FromBody] MoveBoxRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, [FromServices] ILogger<BoxEndpoints> logger, CancellationToken cancellationToken)
+    /// <summary>
+    /// Moves a box to a location, optionally inside another box there. Boxes nested inside the
+    /// moved box travel with it and keep their place within it.
+    /// </summary>
+    private static async Task<Results<Ok<BoxResponse>, NotFound<string>, ValidationProblem, ProblemHttpResult>> MoveBox(HttpContext context, [FromRoute] Guid boxId, [FromBody] MoveBoxRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, [FromServices] ILogger<BoxEndpoints> logger, CancellationToken cancellationToken)
     {
         var userId = context.GetUserId();
 
-        var userCanAccessSourceLocation = await dbContext.Boxes
+        var sourceLocationId = await dbContext.Boxes
             .AsNoTracking()
             .Where(b => b.BoxId == boxId)
             .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId &&
                 (ul.AccessLevel == AccessLevels.Edit || ul.AccessLevel == AccessLevels.Owner)))
-            .AnyAsync(cancellationToken);
+            .Select(b => (long?)b.LocationId)
+            .FirstOrDefaultAsync(cancellationToken);
 
-        if (!userCanAccessSourceLocation)
+        if (sourceLocationId is null)
         {
             return TypedResults.NotFound($"Box with id ({boxId}) not found or you don't have permission to move it.");
         }
@@ -42,17 +48,60 @@ internal partial class BoxEndpoints
             });
         }
 
+        var destination = await BoxHierarchy.LoadAsync(dbContext, request.DestinationLocationId, cancellationToken);
+
+        var parentProblem = CheckParentBox(destination, request.DestinationLocationId, request.DestinationParentBoxId, boxId);
+        if (parentProblem is not null)
+        {
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]>
+            {
+                [nameof(MoveBoxRequest.DestinationParentBoxId)] = [parentProblem]
+            });
+        }
+
+        var changesLocation = sourceLocationId.Value != request.DestinationLocationId;
+        var source = changesLocation
+            ? await BoxHierarchy.LoadAsync(dbContext, sourceLocationId.Value, cancellationToken)
+            : destination;
+        var nested = source.Descendants(boxId);
+
+        if (changesLocation)
+        {
+            var codes = nested.Select(n => n.Code).Append(source.Find(boxId)!.Code).ToList();
+            var clash = await FindCodeClash(dbContext, request.DestinationLocationId, codes, cancellationToken);
+            if (clash is not null)
+            {
+                return TypedResults.Problem($"A box with the code {clash} already exists in the destination location", statusCode: 409);
+            }
+        }
+
         var dateTime = timeProvider.GetUtcNow();
 
+        using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
+
         await dbContext.Boxes
             .Where(b => b.BoxId == boxId)
             .ExecuteUpdateAsync(setters => setters
                 .SetProperty(b => b.LocationId, request.DestinationLocationId)
+                .SetProperty(b => b.ParentBoxId, request.DestinationParentBoxId)
                 .SetProperty(b => b.Updated, dateTime),
                 cancellationToken);
 
+        if (changesLocation && nested.Count > 0)
+        {
+            await CarryNestedBoxes(dbContext, nested.Select(n => n.BoxId).ToList(), request.DestinationLocationId, dateTime, cancellationToken);
+        }
+
+        if (changesLocation)
+        {
+            await CustomFieldValues.CarryOverBoxesAsync(dbContext, [boxId, .. nested.Select(n => n.BoxId)], request.DestinationLocationId, cancellationToken);
+        }
+
+        await transaction.CommitAsync(cancellationToken);
+
         var updatedBox = await dbContext.Boxes
             .AsNoTracking()
+            .Include(b => b.CustomFieldValues)
             .FirstAsync(b => b.BoxId == boxId, cancellationToken);
 
         return TypedResults.Ok(new BoxResponse(updatedBox));
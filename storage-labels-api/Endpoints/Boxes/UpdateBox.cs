@@ -6,6 +6,7 @@ using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Logging;
 using StorageLabelsApi.Models.DTO.Box;
+using StorageLabelsApi.Services;
 
 namespace StorageLabelsApi.Endpoints.Boxes;
 
@@ -33,6 +34,11 @@ internal partial class BoxEndpoints
             return TypedResults.Problem($"A box with the code {request.Code} already exists in this location", statusCode: 409);
         }
 
+        if (await IsCodeUsedByLocation(dbContext, request.Code, cancellationToken))
+        {
+            return TypedResults.Problem($"A location with the code {request.Code} already exists", statusCode: 409);
+        }
+
         var userCanAccessLocation = await dbContext.UserLocations
             .AsNoTracking()
             .Where(ul => ul.LocationId == request.LocationId)
@@ -46,18 +52,48 @@ internal partial class BoxEndpoints
             return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(Location)] = [$"User cannot add box to location ({request.LocationId})."] });
         }
 
-        var exists = await dbContext.Boxes
+        var currentLocationId = await dbContext.Boxes
             .AsNoTracking()
             .Where(b => b.BoxId == boxId)
-            .AnyAsync(cancellationToken);
+            .Select(b => (long?)b.LocationId)
+            .FirstOrDefaultAsync(cancellationToken);
 
-        if (!exists)
+        if (currentLocationId is null)
         {
             return TypedResults.NotFound($"Box with id {boxId} not found.");
         }
 
+        var hierarchy = await BoxHierarchy.LoadAsync(dbContext, request.LocationId, cancellationToken);
+        var parentProblem = CheckParentBox(hierarchy, request.LocationId, request.ParentBoxId, boxId);
+        if (parentProblem is not null)
+        {
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(BoxRequest.ParentBoxId)] = [parentProblem] });
+        }
+
+        // Changing the location takes the boxes nested inside along, so their codes must fit there too
+        var changesLocation = currentLocationId.Value != request.LocationId;
+        var nestedBoxIds = new List<Guid>();
+        if (changesLocation)
+        {
+            var nested = (await BoxHierarchy.LoadAsync(dbContext, currentLocationId.Value, cancellationToken)).Descendants(boxId);
+            var clash = await FindCodeClash(dbContext, request.LocationId, nested.Select(n => n.Code).ToList(), cancellationToken);
+            if (clash is not null)
+            {
+                return TypedResults.Problem($"A box with the code {clash} already exists in this location", statusCode: 409);
+            }
+            nestedBoxIds = nested.Select(n => n.BoxId).ToList();
+        }
+
+        var customFields = await CustomFieldValues.PrepareAsync(dbContext, request.LocationId, CustomFieldAppliesTo.Boxes, request.CustomFields, cancellationToken);
+        if (!customFields.IsValid)
+        {
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(BoxRequest.CustomFields)] = [.. customFields.Errors] });
+        }
+
         var dateTime = timeProvider.GetUtcNow();
 
+        using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
+
         await dbContext.Boxes
             .Where(b => b.BoxId == boxId)
             .ExecuteUpdateAsync(setters => setters
@@ -67,11 +103,27 @@ internal partial class BoxEndpoints
                 .SetProperty(b => b.ImageUrl, request.ImageUrl)
                 .SetProperty(b => b.ImageMetadataId, request.ImageMetadataId)
                 .SetProperty(b => b.LocationId, request.LocationId)
+                .SetProperty(b => b.ParentBoxId, request.ParentBoxId)
                 .SetProperty(b => b.Updated, dateTime),
                 cancellationToken);
 
+        if (nestedBoxIds.Count > 0)
+        {
+            await CarryNestedBoxes(dbContext, nestedBoxIds, request.LocationId, dateTime, cancellationToken);
+        }
+
+        if (changesLocation)
+        {
+            await CustomFieldValues.CarryOverBoxesAsync(dbContext, [boxId, .. nestedBoxIds], request.LocationId, cancellationToken);
+        }
+
+        await CustomFieldValues.ReplaceAsync(dbContext, customFields, boxId, null, cancellationToken);
+
+        await transaction.CommitAsync(cancellationToken);
+
         var updatedBox = await dbContext.Boxes
             .AsNoTracking()
+            .Include(b => b.CustomFieldValues)
             .FirstAsync(b => b.BoxId == boxId, cancellationToken);
 
         return TypedResults.Ok(new BoxResponse(updatedBox));
@@ -6,6 +6,7 @@ using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Logging;
 using StorageLabelsApi.Models.DTO.Item;
+using StorageLabelsApi.Services;
 
 namespace StorageLabelsApi.Endpoints.Items;
 
@@ -33,6 +34,17 @@ internal partial class ItemEndpoints
             return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(Box)] = [$"Cannot add item to box ({request.BoxId})."] });
         }
 
+        var locationId = await dbContext.Boxes
+            .Where(b => b.BoxId == request.BoxId)
+            .Select(b => b.LocationId)
+            .FirstAsync(cancellationToken);
+
+        var customFields = await CustomFieldValues.PrepareAsync(dbContext, locationId, CustomFieldAppliesTo.Items, request.CustomFields, cancellationToken);
+        if (!customFields.IsValid)
+        {
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(ItemRequest.CustomFields)] = [.. customFields.Errors] });
+        }
+
         var dateTime = timeProvider.GetUtcNow();
         var item = dbContext.Items.Add(new(
             ItemId: Guid.CreateVersion7(),
@@ -44,6 +56,7 @@ internal partial class ItemEndpoints
             Created: dateTime,
             Updated: dateTime
         ));
+        CustomFieldValues.Add(dbContext, customFields, null, item.Entity.ItemId);
 
         await dbContext.SaveChangesAsync(cancellationToken);
 
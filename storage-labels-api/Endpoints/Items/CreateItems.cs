@@ -0,0 +1,91 @@
+using FluentValidation;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Logging;
+using StorageLabelsApi.Models.DTO.Item;
+
+namespace StorageLabelsApi.Endpoints.Items;
+
+internal partial class ItemEndpoints
+{
+    private const int MaxBatchSize = 200;
+
+    private static async Task<Results<Ok<CreateItemsResponse>, ValidationProblem>> CreateItems(HttpContext context, CreateItemsRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, [FromServices] ILogger<ItemEndpoints> logger, CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+
+        var validation = await new CreateItemsValidator().ValidateAsync(request, cancellationToken);
+        if (!validation.IsValid)
+        {
+            return TypedResults.ValidationProblem(validation.ToDictionary());
+        }
+
+        var userCanEditBox = await dbContext.UserLocations
+            .Where(ul => ul.UserId == userId)
+            .Where(ul => ul.AccessLevel >= AccessLevels.Edit)
+            .Where(ul => ul.Location.Boxes.Any(b => b.BoxId == request.BoxId))
+            .AnyAsync(cancellationToken);
+
+        if (!userCanEditBox)
+        {
+            logger.LogItemAddAttemptWarning(userId, request.BoxId);
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(Box)] = [$"Cannot add item to box ({request.BoxId})."] });
+        }
+
+        // Entries are validated one at a time so a bad row is reported without failing the rest
+        var entryValidator = new CreateItemsEntryValidator();
+        var dateTime = timeProvider.GetUtcNow();
+        var results = new List<CreateItemsResult>(request.Items.Count);
+
+        for (var index = 0; index < request.Items.Count; index++)
+        {
+            var entry = request.Items[index];
+            var entryValidation = await entryValidator.ValidateAsync(entry, cancellationToken);
+            if (!entryValidation.IsValid)
+            {
+                results.Add(new(index, null, entryValidation.ToDictionary()));
+                continue;
+            }
+
+            var item = dbContext.Items.Add(new(
+                ItemId: Guid.CreateVersion7(),
+                BoxId: request.BoxId,
+                Name: entry.Name,
+                Description: entry.Description,
+                ImageUrl: entry.ImageUrl,
+                ImageMetadataId: entry.ImageMetadataId,
+                Created: dateTime,
+                Updated: dateTime
+            ));
+            results.Add(new(index, new ItemResponse(item.Entity), null));
+        }
+
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        return TypedResults.Ok(new CreateItemsResponse(results));
+    }
+
+    private sealed class CreateItemsValidator : AbstractValidator<CreateItemsRequest>
+    {
+        public CreateItemsValidator()
+        {
+            RuleFor(x => x.BoxId).NotEmpty();
+            RuleFor(x => x.Items)
+                .Cascade(CascadeMode.Stop)
+                .NotEmpty()
+                .Must(items => items.Count <= MaxBatchSize)
+                .WithMessage($"No more than {MaxBatchSize} items can be created at once.");
+        }
+    }
+
+    private sealed class CreateItemsEntryValidator : AbstractValidator<CreateItemsEntry>
+    {
+        public CreateItemsEntryValidator()
+        {
+            RuleFor(x => x.Name).NotEmpty();
+        }
+    }
+}
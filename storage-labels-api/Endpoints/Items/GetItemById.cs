@@ -15,6 +15,7 @@ internal partial class ItemEndpoints
 
         var item = await dbContext.Items
             .AsNoTracking()
+            .Include(i => i.CustomFieldValues)
             .Where(i => i.ItemId == itemId)
             .Where(i => i.Box.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.View))
             .FirstOrDefaultAsync(cancellationToken);
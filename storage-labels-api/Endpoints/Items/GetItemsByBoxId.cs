@@ -16,9 +16,9 @@ internal partial class ItemEndpoints
         var items = dbContext.Boxes
             .AsNoTracking()
             .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.View))
-            .Include(b => b.Items)
             .SelectMany(b => b.Items)
             .Where(i => i.BoxId == boxId)
+            .Include(i => i.CustomFieldValues)
             .AsAsyncEnumerable();
 
         await foreach (var item in items)
@@ -13,6 +13,12 @@ internal partial class ItemEndpoints : IEndpointModule
         group.MapPost("/", CreateItem)
             .WithName("Create Item");
 
+        group.MapPost("/batch", CreateItems)
+            .WithName("Create Items");
+
+        group.MapPut("/move", MoveItems)
+            .WithName("Move Items");
+
         group.MapGet("/box/{boxId:guid}/", GetItemsByBoxId)
             .WithName("Get Items By Box");
 
@@ -0,0 +1,86 @@
+using FluentValidation;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Logging;
+using StorageLabelsApi.Models.DTO.Item;
+using StorageLabelsApi.Services;
+
+namespace StorageLabelsApi.Endpoints.Items;
+
+internal partial class ItemEndpoints
+{
+    private static async Task<Results<Ok<List<ItemResponse>>, NotFound<string>, ValidationProblem>> MoveItems(HttpContext context, [FromBody] MoveItemsRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, [FromServices] ILogger<ItemEndpoints> logger, CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+
+        var validation = await new MoveItemsValidator().ValidateAsync(request, cancellationToken);
+        if (!validation.IsValid)
+        {
+            return TypedResults.ValidationProblem(validation.ToDictionary());
+        }
+
+        var itemIds = request.ItemIds.Distinct().ToList();
+
+        var movableItemCount = await dbContext.Items
+            .AsNoTracking()
+            .Where(i => itemIds.Contains(i.ItemId))
+            .Where(i => i.Box.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.Edit))
+            .CountAsync(cancellationToken);
+
+        if (movableItemCount != itemIds.Count)
+        {
+            return TypedResults.NotFound("One or more items were not found or you don't have permission to move them.");
+        }
+
+        var destinationLocationId = await dbContext.Boxes
+            .AsNoTracking()
+            .Where(b => b.BoxId == request.DestinationBoxId)
+            .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.Edit))
+            .Select(b => (long?)b.LocationId)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (destinationLocationId is null)
+        {
+            logger.NoAccessToBox(userId, request.DestinationBoxId);
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]>
+            {
+                [nameof(MoveItemsRequest.DestinationBoxId)] = [$"Destination box with id ({request.DestinationBoxId}) not found or you don't have edit permission for it."]
+            });
+        }
+
+        var dateTime = timeProvider.GetUtcNow();
+
+        using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
+
+        await dbContext.Items
+            .Where(i => itemIds.Contains(i.ItemId))
+            .ExecuteUpdateAsync(setters => setters
+                .SetProperty(i => i.BoxId, request.DestinationBoxId)
+                .SetProperty(i => i.Updated, dateTime),
+                cancellationToken);
+
+        await CustomFieldValues.CarryOverItemsAsync(dbContext, itemIds, destinationLocationId.Value, cancellationToken);
+
+        await transaction.CommitAsync(cancellationToken);
+
+        var movedItems = await dbContext.Items
+            .AsNoTracking()
+            .Include(i => i.CustomFieldValues)
+            .Where(i => itemIds.Contains(i.ItemId))
+            .ToListAsync(cancellationToken);
+
+        return TypedResults.Ok(movedItems.Select(i => new ItemResponse(i)).ToList());
+    }
+
+    private sealed class MoveItemsValidator : AbstractValidator<MoveItemsRequest>
+    {
+        public MoveItemsValidator()
+        {
+            RuleFor(x => x.DestinationBoxId).NotEmpty();
+            RuleFor(x => x.ItemIds).NotEmpty();
+        }
+    }
+}
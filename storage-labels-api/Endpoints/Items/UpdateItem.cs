@@ -5,6 +5,7 @@ using Microsoft.EntityFrameworkCore;
 using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Item;
+using StorageLabelsApi.Services;
 
 namespace StorageLabelsApi.Endpoints.Items;
 
@@ -27,8 +28,23 @@ internal partial class ItemEndpoints
         if (!validation.IsValid)
             return TypedResults.ValidationProblem(validation.ToDictionary());
 
+        var locationId = await dbContext.Boxes
+            .Where(b => b.BoxId == request.BoxId)
+            .Where(b => b.Location.UserLocations.Any(ul => ul.UserId == userId && ul.AccessLevel >= AccessLevels.Edit))
+            .Select(b => (long?)b.LocationId)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (locationId is null)
+            return TypedResults.NotFound();
+
+        var customFields = await CustomFieldValues.PrepareAsync(dbContext, locationId.Value, CustomFieldAppliesTo.Items, request.CustomFields, cancellationToken);
+        if (!customFields.IsValid)
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]> { [nameof(ItemRequest.CustomFields)] = [.. customFields.Errors] });
+
         var dateTime = timeProvider.GetUtcNow();
 
+        using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
+
         await dbContext.Items
             .Where(i => i.ItemId == itemId)
             .ExecuteUpdateAsync(setters => setters
@@ -40,8 +56,18 @@ internal partial class ItemEndpoints
                 .SetProperty(i => i.Updated, dateTime),
                 cancellationToken);
 
+        if (request.BoxId != item.BoxId)
+        {
+            await CustomFieldValues.CarryOverItemsAsync(dbContext, [itemId], locationId.Value, cancellationToken);
+        }
+
+        await CustomFieldValues.ReplaceAsync(dbContext, customFields, null, itemId, cancellationToken);
+
+        await transaction.CommitAsync(cancellationToken);
+
         var updatedItem = await dbContext.Items
             .AsNoTracking()
+            .Include(i => i.CustomFieldValues)
             .FirstAsync(i => i.ItemId == itemId, cancellationToken);
 
         return TypedResults.Ok(new ItemResponse(updatedItem));
@@ -23,6 +23,7 @@ internal partial class LabelEndpoints
             return TypedResults.ValidationProblem(validation.ToDictionary());
 
         var userId = context.GetUserId();
+        var template = request.Template ?? LabelTemplate.Default;
         var job = new LabelPrintJob
         {
             Id = Guid.NewGuid(),
@@ -34,6 +35,14 @@ internal partial class LabelEndpoints
             LastGeneratedIndex = request.StartIndex,
             TotalLabelsGenerated = 0,
             CodeColorPattern = request.CodeColorPattern,
+            LabelLayout = template.Layout,
+            ShowBoxName = template.ShowBoxName,
+            ShowLocationName = template.ShowLocationName,
+            TemplateDescription = template.Description,
+            ShowLogo = template.ShowLogo,
+            ShowDate = template.ShowDate,
+            Symbology = template.Symbology,
+            EncodeScanUrl = template.EncodeScanUrl,
             CreatedAt = timeProvider.GetUtcNow(),
             CreatedBy = userId
         };
@@ -55,6 +64,9 @@ internal partial class LabelEndpoints
             RuleFor(x => x.AlgorithmPrefix)
                 .MaximumLength(50)
                 .When(x => x.AlgorithmPrefix is not null);
+            RuleFor(x => x.Template!)
+                .SetValidator(new LabelTemplateValidator())
+                .When(x => x.Template is not null);
         }
     }
 }
@@ -0,0 +1,33 @@
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.Models.DTO.Labels;
+
+namespace StorageLabelsApi.Endpoints.Labels;
+
+internal partial class LabelEndpoints
+{
+    private static async Task<Results<Ok<IEnumerable<LabelPrintJobPageResponse>>, NotFound<string>>> GetLabelJobPages(
+        HttpContext context,
+        [FromRoute] Guid jobId,
+        [FromServices] StorageLabelsDbContext dbContext,
+        CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+        var exists = await dbContext.LabelPrintJobs
+            .AsNoTracking()
+            .AnyAsync(j => j.Id == jobId && j.CreatedBy == userId, cancellationToken);
+
+        if (!exists)
+            return TypedResults.NotFound($"Label job {jobId} was not found.");
+
+        var pages = await dbContext.LabelPrintJobPages
+            .AsNoTracking()
+            .Where(p => p.JobId == jobId)
+            .OrderByDescending(p => p.FirstLabelNumber)
+            .ToListAsync(cancellationToken);
+
+        return TypedResults.Ok<IEnumerable<LabelPrintJobPageResponse>>(pages.Select(p => new LabelPrintJobPageResponse(p)));
+    }
+}
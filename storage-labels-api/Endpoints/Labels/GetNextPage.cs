@@ -16,6 +16,7 @@ internal partial class LabelEndpoints
         HttpContext context,
         [FromRoute] Guid jobId,
         [FromServices] StorageLabelsDbContext dbContext,
+        [FromServices] TimeProvider timeProvider,
         [FromServices] ILogger<LabelEndpoints> logger,
         CancellationToken cancellationToken)
     {
@@ -28,8 +29,22 @@ internal partial class LabelEndpoints
             return TypedResults.NotFound($"Label job {jobId} was not found.");
 
         var labelsPerPage = GetLabelsPerPage(job.LabelFormat);
-        var codes = GenerateCodes(job, labelsPerPage);
+        var page = new LabelPrintJobPage
+        {
+            Id = Guid.NewGuid(),
+            JobId = job.Id,
+            StartIndex = job.LastGeneratedIndex,
+            FirstLabelNumber = job.TotalLabelsGenerated + 1,
+            LabelCount = labelsPerPage,
+            LabelFormat = job.LabelFormat,
+            IncrementAlgorithm = job.IncrementAlgorithm,
+            AlgorithmPrefix = job.AlgorithmPrefix,
+            AlgorithmSuffixLength = job.AlgorithmSuffixLength,
+            GeneratedAt = timeProvider.GetUtcNow()
+        };
+        var codes = GenerateCodes(page);
 
+        dbContext.LabelPrintJobPages.Add(page);
         job.LastGeneratedIndex += labelsPerPage;
         job.TotalLabelsGenerated += labelsPerPage;
         await dbContext.SaveChangesAsync(cancellationToken);
@@ -40,35 +55,43 @@ internal partial class LabelEndpoints
             job.Id,
             job.LabelFormat,
             job.CodeColorPattern,
+            new LabelTemplate(job),
             codes));
     }
 
     private static int GetLabelsPerPage(LabelFormat format) => format switch
     {
         LabelFormat.Avery94107 => 12,
+        LabelFormat.Avery5160 => 30,
+        LabelFormat.Avery22805 => 24,
+        LabelFormat.Dymo30332 => 10,
+        LabelFormat.Dymo30334 => 10,
         _ => 12
     };
 
-    private static IEnumerable<LabelCodeItem> GenerateCodes(LabelPrintJob job, int count)
+    /// <summary>
+    /// Builds the codes of a page from its settings snapshot.
+    /// </summary>
+    private static List<LabelCodeItem> GenerateCodes(LabelPrintJobPage page)
     {
-        var codes = new List<LabelCodeItem>(count);
-        for (var i = 0; i < count; i++)
+        var codes = new List<LabelCodeItem>(page.LabelCount);
+        for (var i = 0; i < page.LabelCount; i++)
         {
-            var index = job.LastGeneratedIndex + i;
-            var suffix = job.IncrementAlgorithm switch
+            var index = page.StartIndex + i;
+            var suffix = page.IncrementAlgorithm switch
             {
                 LabelIncrementAlgorithm.NumericOnly =>
-                    index.ToString().PadLeft(job.AlgorithmSuffixLength, '0'),
+                    index.ToString().PadLeft(page.AlgorithmSuffixLength, '0'),
                 LabelIncrementAlgorithm.Base36Suffix =>
-                    ToBase36(index, job.AlgorithmSuffixLength),
+                    ToBase36(index, page.AlgorithmSuffixLength),
                 _ => index.ToString()
             };
 
-            var code = string.IsNullOrEmpty(job.AlgorithmPrefix)
+            var code = string.IsNullOrEmpty(page.AlgorithmPrefix)
                 ? suffix
-                : $"{job.AlgorithmPrefix}{suffix}";
+                : $"{page.AlgorithmPrefix}{suffix}";
 
-            codes.Add(new LabelCodeItem(code, job.TotalLabelsGenerated + i + 1));
+            codes.Add(new LabelCodeItem(code, page.FirstLabelNumber + i));
         }
         return codes;
     }
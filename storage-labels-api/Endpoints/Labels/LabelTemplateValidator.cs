@@ -0,0 +1,19 @@
+using FluentValidation;
+using StorageLabelsApi.Models.DTO.Labels;
+
+namespace StorageLabelsApi.Endpoints.Labels;
+
+internal partial class LabelEndpoints
+{
+    private sealed class LabelTemplateValidator : AbstractValidator<LabelTemplate>
+    {
+        public LabelTemplateValidator()
+        {
+            RuleFor(x => x.Layout).IsInEnum();
+            RuleFor(x => x.Symbology).IsInEnum();
+            RuleFor(x => x.Description)
+                .MaximumLength(100)
+                .When(x => x.Description is not null);
+        }
+    }
+}
@@ -22,6 +22,12 @@ internal partial class LabelEndpoints : IEndpointModule
         group.MapPost("/{jobId:guid}/next-page", GetNextPage)
             .WithName("Get Next Label Page");
 
+        group.MapGet("/{jobId:guid}/pages", GetLabelJobPages)
+            .WithName("Get Label Job Pages");
+
+        group.MapPost("/{jobId:guid}/reprint", ReprintLabels)
+            .WithName("Reprint Labels");
+
         group.MapDelete("/{jobId:guid}", DeleteLabelJob)
             .WithName("Delete Label Job");
 
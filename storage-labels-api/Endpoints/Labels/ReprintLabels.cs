@@ -0,0 +1,84 @@
+using FluentValidation;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.Logging;
+using StorageLabelsApi.Models.DTO.Labels;
+
+namespace StorageLabelsApi.Endpoints.Labels;
+
+internal partial class LabelEndpoints
+{
+    private const int MaxReprintLabels = 500;
+
+    /// <summary>
+    /// Re-renders previously generated labels by label number without advancing the job.
+    /// </summary>
+    private static async Task<Results<Ok<LabelPageResponse>, NotFound<string>, ValidationProblem>> ReprintLabels(
+        HttpContext context,
+        [FromRoute] Guid jobId,
+        [FromBody] ReprintLabelsRequest request,
+        [FromServices] StorageLabelsDbContext dbContext,
+        [FromServices] ILogger<LabelEndpoints> logger,
+        CancellationToken cancellationToken)
+    {
+        var validation = await new ReprintLabelsValidator().ValidateAsync(request, cancellationToken);
+        if (!validation.IsValid)
+            return TypedResults.ValidationProblem(validation.ToDictionary());
+
+        var userId = context.GetUserId();
+        var job = await dbContext.LabelPrintJobs
+            .AsNoTracking()
+            .Where(j => j.Id == jobId && j.CreatedBy == userId)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (job is null)
+            return TypedResults.NotFound($"Label job {jobId} was not found.");
+
+        var pages = await dbContext.LabelPrintJobPages
+            .AsNoTracking()
+            .Where(p => p.JobId == jobId
+                && p.FirstLabelNumber <= request.LastLabelNumber
+                && p.FirstLabelNumber + p.LabelCount - 1 >= request.FirstLabelNumber)
+            .OrderBy(p => p.FirstLabelNumber)
+            .ToListAsync(cancellationToken);
+
+        var codes = pages
+            .SelectMany(GenerateCodes)
+            .Where(c => c.LabelNumber >= request.FirstLabelNumber && c.LabelNumber <= request.LastLabelNumber)
+            .ToList();
+
+        if (codes.Count == 0)
+            return TypedResults.NotFound($"No generated labels found between {request.FirstLabelNumber} and {request.LastLabelNumber}.");
+
+        // The job's format can change between pages; labels are reprinted on the sheet they were generated for
+        if (pages.Select(p => p.LabelFormat).Distinct().Count() > 1)
+            return TypedResults.ValidationProblem(new Dictionary<string, string[]>
+            {
+                [nameof(ReprintLabelsRequest.LastLabelNumber)] = ["These labels were printed on different label formats; reprint each format separately."]
+            });
+
+        logger.LabelsReprinted(userId, job.Id, codes.Count);
+
+        return TypedResults.Ok(new LabelPageResponse(
+            job.Id,
+            pages[0].LabelFormat,
+            job.CodeColorPattern,
+            new LabelTemplate(job),
+            codes));
+    }
+
+    private sealed class ReprintLabelsValidator : AbstractValidator<ReprintLabelsRequest>
+    {
+        public ReprintLabelsValidator()
+        {
+            RuleFor(x => x.FirstLabelNumber).GreaterThanOrEqualTo(1);
+            RuleFor(x => x.LastLabelNumber).GreaterThanOrEqualTo(x => x.FirstLabelNumber);
+            RuleFor(x => x.LastLabelNumber - x.FirstLabelNumber)
+                .LessThan(MaxReprintLabels)
+                .OverridePropertyName(nameof(ReprintLabelsRequest.LastLabelNumber))
+                .WithMessage($"Cannot reprint more than {MaxReprintLabels} labels at once.");
+        }
+    }
+}
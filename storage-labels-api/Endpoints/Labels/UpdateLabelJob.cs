@@ -32,6 +32,8 @@ internal partial class LabelEndpoints
         if (!exists)
             return TypedResults.NotFound($"Label job {jobId} was not found.");
 
+        using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
+
         await dbContext.LabelPrintJobs
             .Where(j => j.Id == jobId && j.CreatedBy == userId)
             .ExecuteUpdateAsync(setters => setters
@@ -43,6 +45,25 @@ internal partial class LabelEndpoints
                 .SetProperty(j => j.CodeColorPattern, request.CodeColorPattern),
                 cancellationToken);
 
+        // Leaving the template out keeps the job's current one
+        if (request.Template is { } template)
+        {
+            await dbContext.LabelPrintJobs
+                .Where(j => j.Id == jobId && j.CreatedBy == userId)
+                .ExecuteUpdateAsync(setters => setters
+                    .SetProperty(j => j.LabelLayout, template.Layout)
+                    .SetProperty(j => j.ShowBoxName, template.ShowBoxName)
+                    .SetProperty(j => j.ShowLocationName, template.ShowLocationName)
+                    .SetProperty(j => j.TemplateDescription, template.Description)
+                    .SetProperty(j => j.ShowLogo, template.ShowLogo)
+                    .SetProperty(j => j.ShowDate, template.ShowDate)
+                    .SetProperty(j => j.Symbology, template.Symbology)
+                    .SetProperty(j => j.EncodeScanUrl, template.EncodeScanUrl),
+                    cancellationToken);
+        }
+
+        await transaction.CommitAsync(cancellationToken);
+
         var updatedJob = await dbContext.LabelPrintJobs
             .AsNoTracking()
             .FirstAsync(j => j.Id == jobId, cancellationToken);
@@ -60,6 +81,9 @@ internal partial class LabelEndpoints
             RuleFor(x => x.AlgorithmPrefix)
                 .MaximumLength(50)
                 .When(x => x.AlgorithmPrefix is not null);
+            RuleFor(x => x.Template!)
+                .SetValidator(new LabelTemplateValidator())
+                .When(x => x.Template is not null);
         }
     }
 }
@@ -0,0 +1,66 @@
+using FluentValidation;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Models.DTO.CustomField;
+
+namespace StorageLabelsApi.Endpoints.Locations;
+
+internal partial class LocationEndpoints
+{
+    private static async Task<Results<Created<CustomFieldResponse>, ValidationProblem, ProblemHttpResult>> CreateCustomField(HttpContext context, [FromRoute] long locationId, CustomFieldRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+
+        if (!await CanEditLocation(dbContext, userId, locationId, cancellationToken))
+            return TypedResults.Problem(statusCode: 403);
+
+        var validation = await new CreateCustomFieldValidator().ValidateAsync(request, cancellationToken);
+        if (!validation.IsValid)
+            return TypedResults.ValidationProblem(validation.ToDictionary());
+
+        var name = request.Name.Trim();
+        if (await IsCustomFieldNameTaken(dbContext, locationId, name, null, cancellationToken))
+            return TypedResults.Problem($"A field named {name} already exists in this location", statusCode: 409);
+
+        var dateTime = timeProvider.GetUtcNow();
+
+        var field = dbContext.CustomFields.Add(new(
+            CustomFieldId: 0,
+            LocationId: locationId,
+            Name: name,
+            Type: request.Type,
+            AppliesTo: request.AppliesTo,
+            Options: CleanOptions(request),
+            Created: dateTime,
+            Updated: dateTime)
+        );
+
+        try
+        {
+            await dbContext.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateException ex) when (ex.IsUniqueViolation())
+        {
+            return TypedResults.Problem($"A field named {name} already exists in this location", statusCode: 409);
+        }
+
+        return TypedResults.Created((string?)null, new CustomFieldResponse(field.Entity));
+    }
+
+    private sealed class CreateCustomFieldValidator : AbstractValidator<CustomFieldRequest>
+    {
+        public CreateCustomFieldValidator()
+        {
+            RuleFor(x => x.Name).NotEmpty();
+            RuleFor(x => x.Type).IsInEnum();
+            RuleFor(x => x.AppliesTo).IsInEnum();
+            RuleFor(x => x.Options)
+                .Must(options => options is not null && options.Any(o => !string.IsNullOrWhiteSpace(o)))
+                .When(x => x.Type == CustomFieldType.Enum)
+                .WithMessage("An enum field needs at least one option.");
+        }
+    }
+}
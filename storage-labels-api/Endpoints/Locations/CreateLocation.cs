@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Http.HttpResults;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
 using StorageLabelsApi.Datalayer;
 using StorageLabelsApi.DataLayer.Models;
 using StorageLabelsApi.Models.DTO.Location;
@@ -8,20 +9,36 @@ namespace StorageLabelsApi.Endpoints.Locations;
 
 internal partial class LocationEndpoints
 {
-    private static async Task<Created<LocationResponse>> CreateLocation(HttpContext context, LocationRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, CancellationToken cancellationToken)
+    private static async Task<Results<Created<LocationResponse>, ProblemHttpResult>> CreateLocation(HttpContext context, LocationRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, CancellationToken cancellationToken)
     {
         var userId = context.GetUserId();
         var dateTime = timeProvider.GetUtcNow();
 
+        var code = string.IsNullOrWhiteSpace(request.Code) ? GenerateLocationCode() : request.Code.Trim();
+        if (await IsLocationCodeTaken(dbContext, code, null, cancellationToken))
+        {
+            return TypedResults.Problem(LocationCodeTakenMessage(code), statusCode: 409);
+        }
+
         using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
 
         var location = dbContext.Locations.Add(new(
             LocationId: 0,
             Name: request.Name,
+            Code: code,
             Created: dateTime,
             Updated: dateTime
         ));
-        await dbContext.SaveChangesAsync(cancellationToken);
+
+        try
+        {
+            await dbContext.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateException ex) when (ex.IsUniqueViolation())
+        {
+            // Another location took the code between the check and the insert
+            return TypedResults.Problem(LocationCodeTakenMessage(code), statusCode: 409);
+        }
 
         var locationId = location.Entity.LocationId;
         var defaultAccessLevel = AccessLevels.Owner;
@@ -0,0 +1,37 @@
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Models.DTO.CustomField;
+
+namespace StorageLabelsApi.Endpoints.Locations;
+
+internal partial class LocationEndpoints
+{
+    /// <summary>
+    /// Field names are matched without case when values follow a box or item to another location,
+    /// so two fields in one location can't differ only by case
+    /// </summary>
+    private static Task<bool> IsCustomFieldNameTaken(StorageLabelsDbContext dbContext, long locationId, string name, long? exceptCustomFieldId, CancellationToken cancellationToken) =>
+        dbContext.CustomFields
+            .AsNoTracking()
+            .Where(f => f.LocationId == locationId && f.Name.ToLower() == name.ToLower())
+            .Where(f => exceptCustomFieldId == null || f.CustomFieldId != exceptCustomFieldId)
+            .AnyAsync(cancellationToken);
+
+    /// <summary>
+    /// Trimmed, de-duplicated options for an Enum field; other types have none
+    /// </summary>
+    private static List<string> CleanOptions(CustomFieldRequest request) =>
+        request.Type == CustomFieldType.Enum
+            ? (request.Options ?? [])
+                .Select(o => o.Trim())
+                .Where(o => o.Length > 0)
+                .Distinct(StringComparer.OrdinalIgnoreCase)
+                .ToList()
+            : [];
+
+    private static Task<bool> CanEditLocation(StorageLabelsDbContext dbContext, string userId, long locationId, CancellationToken cancellationToken) =>
+        dbContext.UserLocations
+            .AsNoTracking()
+            .AnyAsync(ul => ul.LocationId == locationId && ul.UserId == userId && ul.AccessLevel >= AccessLevels.Edit, cancellationToken);
+}
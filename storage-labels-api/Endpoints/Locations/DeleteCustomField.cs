@@ -0,0 +1,29 @@
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+
+namespace StorageLabelsApi.Endpoints.Locations;
+
+internal partial class LocationEndpoints
+{
+    /// <summary>
+    /// Deletes a field along with its values on every item and box
+    /// </summary>
+    private static async Task<Results<Ok, NotFound<string>, ProblemHttpResult>> DeleteCustomField(HttpContext context, [FromRoute] long locationId, [FromRoute] long customFieldId, [FromServices] StorageLabelsDbContext dbContext, CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+
+        if (!await CanEditLocation(dbContext, userId, locationId, cancellationToken))
+            return TypedResults.Problem(statusCode: 403);
+
+        var deleted = await dbContext.CustomFields
+            .Where(f => f.CustomFieldId == customFieldId && f.LocationId == locationId)
+            .ExecuteDeleteAsync(cancellationToken);
+
+        if (deleted == 0)
+            return TypedResults.NotFound($"Custom field with id {customFieldId} was not found.");
+
+        return TypedResults.Ok();
+    }
+}
@@ -0,0 +1,31 @@
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Models.DTO.CustomField;
+
+namespace StorageLabelsApi.Endpoints.Locations;
+
+internal partial class LocationEndpoints
+{
+    private static async Task<Results<Ok<List<CustomFieldResponse>>, NotFound<string>>> GetCustomFields(HttpContext context, [FromRoute] long locationId, [FromServices] StorageLabelsDbContext dbContext, CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+
+        var hasAccess = await dbContext.UserLocations
+            .AsNoTracking()
+            .AnyAsync(ul => ul.LocationId == locationId && ul.UserId == userId && ul.AccessLevel >= AccessLevels.View, cancellationToken);
+
+        if (!hasAccess)
+            return TypedResults.NotFound($"Location with id {locationId} was not found.");
+
+        var fields = await dbContext.CustomFields
+            .AsNoTracking()
+            .Where(f => f.LocationId == locationId)
+            .OrderBy(f => f.CustomFieldId)
+            .ToListAsync(cancellationToken);
+
+        return TypedResults.Ok(fields.Select(f => new CustomFieldResponse(f)).ToList());
+    }
+}
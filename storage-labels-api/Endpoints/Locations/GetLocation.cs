@@ -18,7 +18,7 @@ internal partial class LocationEndpoints
             .Where(ul => ul.LocationId == locationId)
             .Where(ul => ul.UserId == userId)
             .Where(ul => ul.AccessLevel > AccessLevels.None)
-            .Select(ul => new LocationResponse(ul.Location.LocationId, ul.Location.Name, ul.AccessLevel, ul.Location.Created, ul.Location.Updated))
+            .Select(ul => new LocationResponse(ul.Location.LocationId, ul.Location.Name, ul.Location.Code, ul.AccessLevel, ul.Location.Created, ul.Location.Updated))
             .FirstOrDefaultAsync(cancellationToken);
 
         if (location is null)
@@ -17,7 +17,7 @@ internal partial class LocationEndpoints
             .AsNoTracking()
             .Where(ul => ul.UserId == userId)
             .Where(ul => ul.AccessLevel > AccessLevels.None)
-            .Select(ul => new LocationResponse(ul.Location.LocationId, ul.Location.Name, ul.AccessLevel, ul.Location.Created, ul.Location.Updated))
+            .Select(ul => new LocationResponse(ul.Location.LocationId, ul.Location.Name, ul.Location.Code, ul.AccessLevel, ul.Location.Created, ul.Location.Updated))
             .ToListAsync(cancellationToken);
 
         return TypedResults.Ok(locations);
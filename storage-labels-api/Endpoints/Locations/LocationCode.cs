@@ -0,0 +1,33 @@
+using System.Security.Cryptography;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+
+namespace StorageLabelsApi.Endpoints.Locations;
+
+internal partial class LocationEndpoints
+{
+    private const string LocationCodePrefix = "LOC-";
+
+    // No 0/O or 1/I so hand-typed codes from a worn label still match
+    private const string LocationCodeCharacters = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+    private static string GenerateLocationCode() =>
+        LocationCodePrefix + RandomNumberGenerator.GetString(LocationCodeCharacters, 6);
+
+    private static string LocationCodeTakenMessage(string code) =>
+        $"The code {code} is already used by another location or a box";
+
+    /// <summary>
+    /// Location codes are scanned without any context, so they must be unique across all locations.
+    /// A scan finds boxes first, so a location sharing a box's code could never be reached either.
+    /// </summary>
+    private static async Task<bool> IsLocationCodeTaken(StorageLabelsDbContext dbContext, string code, long? exceptLocationId, CancellationToken cancellationToken) =>
+        await dbContext.Locations
+            .AsNoTracking()
+            .Where(l => l.Code == code)
+            .Where(l => exceptLocationId == null || l.LocationId != exceptLocationId)
+            .AnyAsync(cancellationToken) ||
+        await dbContext.Boxes
+            .AsNoTracking()
+            .AnyAsync(b => b.Code == code, cancellationToken);
+}
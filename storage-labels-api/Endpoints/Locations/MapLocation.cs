@@ -36,5 +36,17 @@ internal partial class LocationEndpoints : IEndpointModule
 
         group.MapDelete("{locationId:long}/users/{userId}", RemoveUserFromLocation)
             .WithName("Remove User From Location");
+
+        group.MapGet("{locationId:long}/fields", GetCustomFields)
+            .WithName("Get Location Custom Fields");
+
+        group.MapPost("{locationId:long}/fields", CreateCustomField)
+            .WithName("Create Location Custom Field");
+
+        group.MapPut("{locationId:long}/fields/{customFieldId:long}", UpdateCustomField)
+            .WithName("Update Location Custom Field");
+
+        group.MapDelete("{locationId:long}/fields/{customFieldId:long}", DeleteCustomField)
+            .WithName("Delete Location Custom Field");
     }
 }
@@ -0,0 +1,104 @@
+using FluentValidation;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Models.DTO.CustomField;
+
+namespace StorageLabelsApi.Endpoints.Locations;
+
+internal partial class LocationEndpoints
+{
+    /// <summary>
+    /// Renames a field or changes its options or what it applies to. Values that no longer fit,
+    /// such as a removed option, are dropped. The type can only change while the field has no values.
+    /// </summary>
+    private static async Task<Results<Ok<CustomFieldResponse>, NotFound<string>, ValidationProblem, ProblemHttpResult>> UpdateCustomField(HttpContext context, [FromRoute] long locationId, [FromRoute] long customFieldId, CustomFieldRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, CancellationToken cancellationToken)
+    {
+        var userId = context.GetUserId();
+
+        if (!await CanEditLocation(dbContext, userId, locationId, cancellationToken))
+            return TypedResults.Problem(statusCode: 403);
+
+        var field = await dbContext.CustomFields
+            .AsNoTracking()
+            .FirstOrDefaultAsync(f => f.CustomFieldId == customFieldId && f.LocationId == locationId, cancellationToken);
+
+        if (field is null)
+            return TypedResults.NotFound($"Custom field with id {customFieldId} was not found.");
+
+        var validation = await new UpdateCustomFieldValidator().ValidateAsync(request, cancellationToken);
+        if (!validation.IsValid)
+            return TypedResults.ValidationProblem(validation.ToDictionary());
+
+        var name = request.Name.Trim();
+        if (await IsCustomFieldNameTaken(dbContext, locationId, name, customFieldId, cancellationToken))
+            return TypedResults.Problem($"A field named {name} already exists in this location", statusCode: 409);
+
+        var values = dbContext.CustomFieldValues.Where(v => v.CustomFieldId == customFieldId);
+
+        if (request.Type != field.Type && await values.AnyAsync(cancellationToken))
+            return TypedResults.Problem($"{field.Name} already has values, so its type can't be changed", statusCode: 409);
+
+        var options = CleanOptions(request);
+        var dateTime = timeProvider.GetUtcNow();
+
+        using var transaction = await dbContext.Database.BeginTransactionAsync(cancellationToken);
+
+        try
+        {
+            await dbContext.CustomFields
+                .Where(f => f.CustomFieldId == customFieldId)
+                .ExecuteUpdateAsync(setters => setters
+                    .SetProperty(f => f.Name, name)
+                    .SetProperty(f => f.Type, request.Type)
+                    .SetProperty(f => f.AppliesTo, request.AppliesTo)
+                    .SetProperty(f => f.Options, options)
+                    .SetProperty(f => f.Updated, dateTime),
+                    cancellationToken);
+        }
+        catch (Exception ex) when (ex.IsUniqueViolation())
+        {
+            return TypedResults.Problem($"A field named {name} already exists in this location", statusCode: 409);
+        }
+
+        if (request.Type == CustomFieldType.Enum)
+        {
+            await values
+                .Where(v => !options.Contains(v.Value))
+                .ExecuteDeleteAsync(cancellationToken);
+        }
+
+        if (request.AppliesTo == CustomFieldAppliesTo.Items)
+        {
+            await values.Where(v => v.BoxId != null).ExecuteDeleteAsync(cancellationToken);
+        }
+        else if (request.AppliesTo == CustomFieldAppliesTo.Boxes)
+        {
+            await values.Where(v => v.ItemId != null).ExecuteDeleteAsync(cancellationToken);
+        }
+
+        await transaction.CommitAsync(cancellationToken);
+
+        var updatedField = await dbContext.CustomFields
+            .AsNoTracking()
+            .FirstAsync(f => f.CustomFieldId == customFieldId, cancellationToken);
+
+        return TypedResults.Ok(new CustomFieldResponse(updatedField));
+    }
+
+    private sealed class UpdateCustomFieldValidator : AbstractValidator<CustomFieldRequest>
+    {
+        public UpdateCustomFieldValidator()
+        {
+            RuleFor(x => x.Name).NotEmpty();
+            RuleFor(x => x.Type).IsInEnum();
+            RuleFor(x => x.AppliesTo).IsInEnum();
+            RuleFor(x => x.Options)
+                .Must(options => options is not null && options.Any(o => !string.IsNullOrWhiteSpace(o)))
+                .When(x => x.Type == CustomFieldType.Enum)
+                .WithMessage("An enum field needs at least one option.");
+        }
+    }
+}
@@ -9,7 +9,7 @@ namespace StorageLabelsApi.Endpoints.Locations;
 
 internal partial class LocationEndpoints
 {
-    private static async Task<Results<Ok<LocationResponse>, NotFound<string>>> UpdateLocation(HttpContext context, [FromRoute] long locationId, LocationRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, CancellationToken cancellationToken)
+    private static async Task<Results<Ok<LocationResponse>, NotFound<string>, ProblemHttpResult>> UpdateLocation(HttpContext context, [FromRoute] long locationId, LocationRequest request, [FromServices] StorageLabelsDbContext dbContext, [FromServices] TimeProvider timeProvider, CancellationToken cancellationToken)
     {
         var userId = context.GetUserId();
 
@@ -22,14 +22,29 @@ internal partial class LocationEndpoints
         if (accessLevel is null)
             return TypedResults.NotFound($"Location with id {locationId} was not found.");
 
+        // Leaving the code out keeps the one already printed on the label
+        var code = string.IsNullOrWhiteSpace(request.Code) ? null : request.Code.Trim();
+        if (code is not null && await IsLocationCodeTaken(dbContext, code, locationId, cancellationToken))
+        {
+            return TypedResults.Problem(LocationCodeTakenMessage(code), statusCode: 409);
+        }
+
         var dateTime = timeProvider.GetUtcNow();
 
-        await dbContext.Locations
-            .Where(l => l.LocationId == locationId)
-            .ExecuteUpdateAsync(setters => setters
-                .SetProperty(l => l.Name, request.Name)
-                .SetProperty(l => l.Updated, dateTime),
-                cancellationToken);
+        try
+        {
+            await dbContext.Locations
+                .Where(l => l.LocationId == locationId)
+                .ExecuteUpdateAsync(setters => setters
+                    .SetProperty(l => l.Name, request.Name)
+                    .SetProperty(l => l.Code, l => code ?? l.Code)
+                    .SetProperty(l => l.Updated, dateTime),
+                    cancellationToken);
+        }
+        catch (Exception ex) when (ex.IsUniqueViolation())
+        {
+            return TypedResults.Problem(LocationCodeTakenMessage(code!), statusCode: 409);
+        }
 
         var updatedLocation = await dbContext.Locations
             .AsNoTracking()
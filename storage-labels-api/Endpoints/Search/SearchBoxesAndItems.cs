@@ -9,17 +9,35 @@ namespace StorageLabelsApi.Endpoints.Search;
 
 internal partial class SearchEndpoints
 {
-    private static async Task<Results<Ok<List<SearchResultResponse>>, ProblemHttpResult>> SearchBoxesAndItems(
+    private static async Task<Results<Ok<List<SearchResultResponse>>, ValidationProblem, ProblemHttpResult>> SearchBoxesAndItems(
         HttpContext context,
         [FromServices] ISearchService searchService,
         [FromServices] ILogger<SearchEndpoints> logger,
         [FromQuery] string query,
         [FromQuery] long? locationId = null,
         [FromQuery] Guid? boxId = null,
+        [FromQuery] string? type = null,
+        [FromQuery] bool? hasImage = null,
         [FromQuery] int pageNumber = 1,
         [FromQuery] int pageSize = 20,
         CancellationToken cancellationToken = default)
     {
+        if (!string.IsNullOrEmpty(type))
+        {
+            type = type.ToLowerInvariant();
+            if (type is not ("box" or "item"))
+            {
+                return TypedResults.ValidationProblem(new Dictionary<string, string[]>
+                {
+                    [nameof(type)] = [$"Unknown type ({type}). Use box or item."]
+                });
+            }
+        }
+        else
+        {
+            type = null;
+        }
+
         if (pageNumber < 1) pageNumber = 1;
         if (pageSize < 1 || pageSize > 100) pageSize = 20;
 
@@ -30,7 +48,7 @@ internal partial class SearchEndpoints
         try
         {
             var response = await searchService.SearchBoxesAndItemsAsync(
-                query, userId, locationId, boxId, pageNumber, pageSize, cancellationToken);
+                query, userId, locationId, boxId, type, hasImage, pageNumber, pageSize, cancellationToken);
 
             stopwatch.Stop();
             logger.SearchCompleted(query, response.TotalResults, pageSize, stopwatch.ElapsedMilliseconds);
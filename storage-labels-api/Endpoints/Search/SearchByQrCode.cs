@@ -37,6 +37,28 @@ internal partial class SearchEndpoints
         if (box is not null)
             return TypedResults.Ok(box);
 
+        // Location labels share the scanners with box labels, so fall back to a location code
+        var location = await dbContext.UserLocations
+            .AsNoTracking()
+            .Where(ul => ul.Location.Code == code)
+            .Where(ul => ul.UserId == userId && ul.AccessLevel != AccessLevels.None)
+            .Select(ul => new SearchResultResponse(
+                "location",
+                1.0f,
+                null,
+                null,
+                null,
+                null,
+                null,
+                null,
+                ul.LocationId.ToString(),
+                ul.Location.Name
+            ))
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (location is not null)
+            return TypedResults.Ok(location);
+
         return TypedResults.NotFound();
     }
 }
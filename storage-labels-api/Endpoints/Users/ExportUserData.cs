@@ -78,13 +78,18 @@ internal partial class UserEndpoints
                 b.Created,
                 b.Updated,
                 b.LastAccessed,
-                ItemCount = b.Items.Count
+                ItemCount = b.Items.Count,
+                b.ParentBoxId,
+                CustomFields = b.CustomFieldValues.Select(v => new CustomFieldCell(v.CustomField.Name, v.Value)).ToList()
             })
             .OrderBy(b => b.Code)
             .ToListAsync(cancellationToken);
 
+        var customColumns = CustomFieldColumns(boxes.Select(b => b.CustomFields));
+
         var csv = new StringBuilder();
-        csv.AppendLine("BoxId,Code,Name,Description,ImageUrl,LocationId,LocationName,Created,Updated,LastAccessed,ItemCount");
+        csv.AppendLine("BoxId,Code,Name,Description,ImageUrl,LocationId,LocationName,Created,Updated,LastAccessed,ItemCount,ParentBoxId" +
+                       CustomFieldHeaders(customColumns));
 
         foreach (var box in boxes)
         {
@@ -98,7 +103,9 @@ internal partial class UserEndpoints
                            $"{box.Created:yyyy-MM-dd HH:mm:ss}," +
                            $"{box.Updated:yyyy-MM-dd HH:mm:ss}," +
                            $"{box.LastAccessed:yyyy-MM-dd HH:mm:ss}," +
-                           $"{box.ItemCount}");
+                           $"{box.ItemCount}," +
+                           $"{box.ParentBoxId}" +
+                           CustomFieldCells(customColumns, box.CustomFields));
         }
 
         return Encoding.UTF8.GetBytes(csv.ToString());
@@ -124,14 +131,18 @@ internal partial class UserEndpoints
                 LocationId = i.Box.Location.LocationId,
                 LocationName = i.Box.Location.Name,
                 i.Created,
-                i.Updated
+                i.Updated,
+                CustomFields = i.CustomFieldValues.Select(v => new CustomFieldCell(v.CustomField.Name, v.Value)).ToList()
             })
             .OrderBy(i => i.BoxCode)
                 .ThenBy(i => i.Name)
             .ToListAsync(cancellationToken);
 
+        var customColumns = CustomFieldColumns(items.Select(i => i.CustomFields));
+
         var csv = new StringBuilder();
-        csv.AppendLine("ItemId,Name,Description,ImageUrl,BoxId,BoxCode,BoxName,LocationId,LocationName,Created,Updated");
+        csv.AppendLine("ItemId,Name,Description,ImageUrl,BoxId,BoxCode,BoxName,LocationId,LocationName,Created,Updated" +
+                       CustomFieldHeaders(customColumns));
 
         foreach (var item in items)
         {
@@ -145,12 +156,32 @@ internal partial class UserEndpoints
                            $"{item.LocationId}," +
                            $"\"{EscapeCsv(item.LocationName)}\"," +
                            $"{item.Created:yyyy-MM-dd HH:mm:ss}," +
-                           $"{item.Updated:yyyy-MM-dd HH:mm:ss}");
+                           $"{item.Updated:yyyy-MM-dd HH:mm:ss}" +
+                           CustomFieldCells(customColumns, item.CustomFields));
         }
 
         return Encoding.UTF8.GetBytes(csv.ToString());
     }
 
+    private sealed record CustomFieldCell(string Name, string Value);
+
+    /// <summary>
+    /// Custom fields are defined per location, so an export covering several locations gets one
+    /// column per field name, and rows from locations without that field leave it empty
+    /// </summary>
+    private static List<string> CustomFieldColumns(IEnumerable<List<CustomFieldCell>> rows) =>
+        rows.SelectMany(cells => cells.Select(c => c.Name))
+            .Distinct(StringComparer.OrdinalIgnoreCase)
+            .Order(StringComparer.OrdinalIgnoreCase)
+            .ToList();
+
+    private static string CustomFieldHeaders(List<string> columns) =>
+        string.Concat(columns.Select(name => $",\"{EscapeCsv(name)}\""));
+
+    private static string CustomFieldCells(List<string> columns, List<CustomFieldCell> cells) =>
+        string.Concat(columns.Select(name =>
+            $",\"{EscapeCsv(cells.FirstOrDefault(c => string.Equals(c.Name, name, StringComparison.OrdinalIgnoreCase))?.Value)}\""));
+
     private static string EscapeCsv(string? value)
     {
         if (string.IsNullOrEmpty(value))
@@ -0,0 +1,13 @@
+using Npgsql;
+
+namespace StorageLabelsApi.Extensions;
+
+public static class DbExceptionExtensions
+{
+    /// <summary>
+    /// Whether a write hit a unique index, e.g. when two requests pass the same "already taken" check at once.
+    /// SaveChanges wraps the PostgresException in a DbUpdateException; ExecuteUpdate throws it as is.
+    /// </summary>
+    public static bool IsUniqueViolation(this Exception exception) =>
+        (exception as PostgresException ?? exception.InnerException as PostgresException)?.SqlState == PostgresErrorCodes.UniqueViolation;
+}
@@ -12,4 +12,13 @@ public static partial class LogMessages
         this ILogger logger,
         string userId,
         Guid boxId);
+
+    [LoggerMessage(
+        EventId = 2001,
+        Level = LogLevel.Warning,
+        Message = "User ({UserId}) cannot move items to box ({BoxId})")]
+    public static partial void NoAccessToBox(
+        this ILogger logger,
+        string userId,
+        Guid boxId);
 }
@@ -40,4 +40,14 @@ public static partial class LogMessages
         this ILogger logger,
         string userId,
         Guid jobId);
+
+    [LoggerMessage(
+        EventId = 11004,
+        Level = LogLevel.Information,
+        Message = "User ({UserId}) reprinted labels for job ({JobId}), count ({Count})")]
+    public static partial void LabelsReprinted(
+        this ILogger logger,
+        string userId,
+        Guid jobId,
+        int count);
 }
@@ -0,0 +1,53 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace StorageLabelsApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddLabelPrintJobPages : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "labelprintjobpages",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    JobId = table.Column<Guid>(type: "uuid", nullable: false),
+                    StartIndex = table.Column<long>(type: "bigint", nullable: false),
+                    FirstLabelNumber = table.Column<int>(type: "integer", nullable: false),
+                    LabelCount = table.Column<int>(type: "integer", nullable: false),
+                    LabelFormat = table.Column<int>(type: "integer", nullable: false),
+                    IncrementAlgorithm = table.Column<int>(type: "integer", nullable: false),
+                    AlgorithmPrefix = table.Column<string>(type: "character varying(50)", maxLength: 50, nullable: true),
+                    AlgorithmSuffixLength = table.Column<int>(type: "integer", nullable: false),
+                    GeneratedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_labelprintjobpages", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_labelprintjobpages_labelprintjobs_JobId",
+                        column: x => x.JobId,
+                        principalTable: "labelprintjobs",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_labelprintjobpages_JobId_FirstLabelNumber",
+                table: "labelprintjobpages",
+                columns: new[] { "JobId", "FirstLabelNumber" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "labelprintjobpages");
+        }
+    }
+}
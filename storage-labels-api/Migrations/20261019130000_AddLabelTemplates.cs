@@ -0,0 +1,84 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace StorageLabelsApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddLabelTemplates : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "LabelLayout",
+                table: "labelprintjobs",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowBoxName",
+                table: "labelprintjobs",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowLocationName",
+                table: "labelprintjobs",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "TemplateDescription",
+                table: "labelprintjobs",
+                type: "character varying(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowLogo",
+                table: "labelprintjobs",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowDate",
+                table: "labelprintjobs",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "LabelLayout",
+                table: "labelprintjobs");
+
+            migrationBuilder.DropColumn(
+                name: "ShowBoxName",
+                table: "labelprintjobs");
+
+            migrationBuilder.DropColumn(
+                name: "ShowLocationName",
+                table: "labelprintjobs");
+
+            migrationBuilder.DropColumn(
+                name: "TemplateDescription",
+                table: "labelprintjobs");
+
+            migrationBuilder.DropColumn(
+                name: "ShowLogo",
+                table: "labelprintjobs");
+
+            migrationBuilder.DropColumn(
+                name: "ShowDate",
+                table: "labelprintjobs");
+        }
+    }
+}
@@ -0,0 +1,45 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace StorageLabelsApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddLocationCode : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Code",
+                table: "locations",
+                type: "text",
+                nullable: false,
+                defaultValue: "");
+
+            // Existing locations get a code from their id so every label can be printed straight away
+            migrationBuilder.Sql("UPDATE locations SET \"Code\" = 'LOC-' || \"LocationId\";");
+
+            // A scan finds boxes first, so a location whose code a box already uses gets a suffix from its id instead
+            migrationBuilder.Sql("UPDATE locations SET \"Code\" = 'LOC-' || \"LocationId\" || '-' || upper(substr(md5(\"LocationId\"::text), 1, 4)) WHERE EXISTS (SELECT 1 FROM boxes WHERE boxes.\"Code\" = locations.\"Code\");");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_locations_Code",
+                table: "locations",
+                column: "Code",
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_locations_Code",
+                table: "locations");
+
+            migrationBuilder.DropColumn(
+                name: "Code",
+                table: "locations");
+        }
+    }
+}
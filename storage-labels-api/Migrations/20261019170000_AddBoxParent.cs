@@ -0,0 +1,49 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace StorageLabelsApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBoxParent : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "ParentBoxId",
+                table: "boxes",
+                type: "uuid",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_boxes_ParentBoxId",
+                table: "boxes",
+                column: "ParentBoxId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_boxes_boxes_ParentBoxId",
+                table: "boxes",
+                column: "ParentBoxId",
+                principalTable: "boxes",
+                principalColumn: "BoxId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_boxes_boxes_ParentBoxId",
+                table: "boxes");
+
+            migrationBuilder.DropIndex(
+                name: "IX_boxes_ParentBoxId",
+                table: "boxes");
+
+            migrationBuilder.DropColumn(
+                name: "ParentBoxId",
+                table: "boxes");
+        }
+    }
+}
@@ -0,0 +1,115 @@
+﻿using System;
+using System.Collections.Generic;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace StorageLabelsApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCustomFields : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "customfields",
+                columns: table => new
+                {
+                    CustomFieldId = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    LocationId = table.Column<long>(type: "bigint", nullable: false),
+                    Name = table.Column<string>(type: "text", nullable: false),
+                    Type = table.Column<int>(type: "integer", nullable: false),
+                    AppliesTo = table.Column<int>(type: "integer", nullable: false),
+                    Options = table.Column<List<string>>(type: "text[]", nullable: false),
+                    Created = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false),
+                    Updated = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_customfields", x => x.CustomFieldId);
+                    table.ForeignKey(
+                        name: "FK_customfields_locations_LocationId",
+                        column: x => x.LocationId,
+                        principalTable: "locations",
+                        principalColumn: "LocationId",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "customfieldvalues",
+                columns: table => new
+                {
+                    CustomFieldValueId = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    CustomFieldId = table.Column<long>(type: "bigint", nullable: false),
+                    BoxId = table.Column<Guid>(type: "uuid", nullable: true),
+                    ItemId = table.Column<Guid>(type: "uuid", nullable: true),
+                    Value = table.Column<string>(type: "text", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_customfieldvalues", x => x.CustomFieldValueId);
+                    table.ForeignKey(
+                        name: "FK_customfieldvalues_boxes_BoxId",
+                        column: x => x.BoxId,
+                        principalTable: "boxes",
+                        principalColumn: "BoxId",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_customfieldvalues_customfields_CustomFieldId",
+                        column: x => x.CustomFieldId,
+                        principalTable: "customfields",
+                        principalColumn: "CustomFieldId",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_customfieldvalues_items_ItemId",
+                        column: x => x.ItemId,
+                        principalTable: "items",
+                        principalColumn: "ItemId",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_customfields_LocationId",
+                table: "customfields",
+                column: "LocationId");
+
+            // Field names are matched without case when values move between locations
+            migrationBuilder.Sql("CREATE UNIQUE INDEX IF NOT EXISTS idx_customfields_locationid_name ON customfields (\"LocationId\", lower(\"Name\"));");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_customfieldvalues_BoxId",
+                table: "customfieldvalues",
+                column: "BoxId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_customfieldvalues_CustomFieldId",
+                table: "customfieldvalues",
+                column: "CustomFieldId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_customfieldvalues_ItemId",
+                table: "customfieldvalues",
+                column: "ItemId");
+
+            // Searched with ILIKE alongside names and descriptions
+            migrationBuilder.Sql("CREATE INDEX IF NOT EXISTS idx_customfieldvalues_value_trgm ON customfieldvalues USING gin(\"Value\" gin_trgm_ops);");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.Sql("DROP INDEX IF EXISTS idx_customfieldvalues_value_trgm;");
+            migrationBuilder.Sql("DROP INDEX IF EXISTS idx_customfields_locationid_name;");
+
+            migrationBuilder.DropTable(
+                name: "customfieldvalues");
+
+            migrationBuilder.DropTable(
+                name: "customfields");
+        }
+    }
+}
@@ -1,5 +1,6 @@
 ﻿// <auto-generated />
 using System;
+using System.Collections.Generic;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.Infrastructure;
 using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
@@ -161,6 +162,9 @@ namespace StorageLabelsApi.Migrations
                         .IsRequired()
                         .HasColumnType("text");
 
+                    b.Property<Guid?>("ParentBoxId")
+                        .HasColumnType("uuid");
+
                     b.Property<DateTimeOffset>("Updated")
                         .HasColumnType("timestamp with time zone");
 
@@ -170,6 +174,8 @@ namespace StorageLabelsApi.Migrations
 
                     b.HasIndex("ImageMetadataId");
 
+                    b.HasIndex("ParentBoxId");
+
                     b.HasIndex("LocationId", "Code")
                         .IsUnique();
 
@@ -193,6 +199,76 @@ namespace StorageLabelsApi.Migrations
                     b.ToTable("commonlocations", (string)null);
                 });
 
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.CustomField", b =>
+                {
+                    b.Property<long>("CustomFieldId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("CustomFieldId"));
+
+                    b.Property<int>("AppliesTo")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTimeOffset>("Created")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<long>("LocationId")
+                        .HasColumnType("bigint");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.PrimitiveCollection<List<string>>("Options")
+                        .IsRequired()
+                        .HasColumnType("text[]");
+
+                    b.Property<int>("Type")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTimeOffset>("Updated")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.HasKey("CustomFieldId");
+
+                    b.HasIndex("LocationId");
+
+                    b.ToTable("customfields", (string)null);
+                });
+
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.CustomFieldValue", b =>
+                {
+                    b.Property<long>("CustomFieldValueId")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("CustomFieldValueId"));
+
+                    b.Property<Guid?>("BoxId")
+                        .HasColumnType("uuid");
+
+                    b.Property<long>("CustomFieldId")
+                        .HasColumnType("bigint");
+
+                    b.Property<Guid?>("ItemId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Value")
+                        .IsRequired()
+                        .HasColumnType("text");
+
+                    b.HasKey("CustomFieldValueId");
+
+                    b.HasIndex("BoxId");
+
+                    b.HasIndex("CustomFieldId");
+
+                    b.HasIndex("ItemId");
+
+                    b.ToTable("customfieldvalues", (string)null);
+                });
+
             modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.EncryptionKey", b =>
                 {
                     b.Property<int>("Kid")
@@ -409,12 +485,18 @@ namespace StorageLabelsApi.Migrations
                         .HasMaxLength(450)
                         .HasColumnType("character varying(450)");
 
+                    b.Property<bool>("EncodeScanUrl")
+                        .HasColumnType("boolean");
+
                     b.Property<int>("IncrementAlgorithm")
                         .HasColumnType("integer");
 
                     b.Property<int>("LabelFormat")
                         .HasColumnType("integer");
 
+                    b.Property<int>("LabelLayout")
+                        .HasColumnType("integer");
+
                     b.Property<long>("LastGeneratedIndex")
                         .HasColumnType("bigint");
 
@@ -423,6 +505,25 @@ namespace StorageLabelsApi.Migrations
                         .HasMaxLength(200)
                         .HasColumnType("character varying(200)");
 
+                    b.Property<bool>("ShowBoxName")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("ShowDate")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("ShowLocationName")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("ShowLogo")
+                        .HasColumnType("boolean");
+
+                    b.Property<int>("Symbology")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("TemplateDescription")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
                     b.Property<int>("TotalLabelsGenerated")
                         .HasColumnType("integer");
 
@@ -431,6 +532,47 @@ namespace StorageLabelsApi.Migrations
                     b.ToTable("labelprintjobs", (string)null);
                 });
 
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.LabelPrintJobPage", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("AlgorithmPrefix")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)");
+
+                    b.Property<int>("AlgorithmSuffixLength")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("FirstLabelNumber")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTimeOffset>("GeneratedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int>("IncrementAlgorithm")
+                        .HasColumnType("integer");
+
+                    b.Property<Guid>("JobId")
+                        .HasColumnType("uuid");
+
+                    b.Property<int>("LabelCount")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("LabelFormat")
+                        .HasColumnType("integer");
+
+                    b.Property<long>("StartIndex")
+                        .HasColumnType("bigint");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("JobId", "FirstLabelNumber");
+
+                    b.ToTable("labelprintjobpages", (string)null);
+                });
+
             modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.Location", b =>
                 {
                     b.Property<long>("LocationId")
@@ -439,6 +581,10 @@ namespace StorageLabelsApi.Migrations
 
                     NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("LocationId"));
 
+                    b.Property<string>("Code")
+                        .IsRequired()
+                        .HasColumnType("text");
+
                     b.Property<DateTimeOffset>("Created")
                         .HasColumnType("timestamp with time zone");
 
@@ -451,6 +597,9 @@ namespace StorageLabelsApi.Migrations
 
                     b.HasKey("LocationId");
 
+                    b.HasIndex("Code")
+                        .IsUnique();
+
                     b.ToTable("locations", (string)null);
                 });
 
@@ -732,11 +881,47 @@ namespace StorageLabelsApi.Migrations
                         .OnDelete(DeleteBehavior.Cascade)
                         .IsRequired();
 
+                    b.HasOne("StorageLabelsApi.DataLayer.Models.Box", null)
+                        .WithMany()
+                        .HasForeignKey("ParentBoxId");
+
                     b.Navigation("ImageMetadata");
 
                     b.Navigation("Location");
                 });
 
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.CustomField", b =>
+                {
+                    b.HasOne("StorageLabelsApi.DataLayer.Models.Location", "Location")
+                        .WithMany("CustomFields")
+                        .HasForeignKey("LocationId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Location");
+                });
+
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.CustomFieldValue", b =>
+                {
+                    b.HasOne("StorageLabelsApi.DataLayer.Models.Box", null)
+                        .WithMany("CustomFieldValues")
+                        .HasForeignKey("BoxId")
+                        .OnDelete(DeleteBehavior.Cascade);
+
+                    b.HasOne("StorageLabelsApi.DataLayer.Models.CustomField", "CustomField")
+                        .WithMany()
+                        .HasForeignKey("CustomFieldId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.HasOne("StorageLabelsApi.DataLayer.Models.Item", null)
+                        .WithMany("CustomFieldValues")
+                        .HasForeignKey("ItemId")
+                        .OnDelete(DeleteBehavior.Cascade);
+
+                    b.Navigation("CustomField");
+                });
+
             modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.EncryptionKeyRotation", b =>
                 {
                     b.HasOne("StorageLabelsApi.DataLayer.Models.EncryptionKey", "FromKey")
@@ -782,6 +967,17 @@ namespace StorageLabelsApi.Migrations
                     b.Navigation("ImageMetadata");
                 });
 
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.LabelPrintJobPage", b =>
+                {
+                    b.HasOne("StorageLabelsApi.DataLayer.Models.LabelPrintJob", "Job")
+                        .WithMany("Pages")
+                        .HasForeignKey("JobId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Job");
+                });
+
             modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.UserLocation", b =>
                 {
                     b.HasOne("StorageLabelsApi.DataLayer.Models.Location", "Location")
@@ -814,6 +1010,8 @@ namespace StorageLabelsApi.Migrations
 
             modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.Box", b =>
                 {
+                    b.Navigation("CustomFieldValues");
+
                     b.Navigation("Items");
                 });
 
@@ -829,10 +1027,22 @@ namespace StorageLabelsApi.Migrations
                     b.Navigation("ReferencedByItems");
                 });
 
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.Item", b =>
+                {
+                    b.Navigation("CustomFieldValues");
+                });
+
+            modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.LabelPrintJob", b =>
+                {
+                    b.Navigation("Pages");
+                });
+
             modelBuilder.Entity("StorageLabelsApi.DataLayer.Models.Location", b =>
                 {
                     b.Navigation("Boxes");
 
+                    b.Navigation("CustomFields");
+
                     b.Navigation("UserLocations");
                 });
 
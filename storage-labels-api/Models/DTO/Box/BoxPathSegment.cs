@@ -0,0 +1,10 @@
+namespace StorageLabelsApi.Models.DTO.Box;
+
+/// <summary>
+/// One of the boxes a box sits inside, listed outermost first for breadcrumbs
+/// </summary>
+public record BoxPathSegment(
+    Guid BoxId,
+    string Name,
+    string Code
+);
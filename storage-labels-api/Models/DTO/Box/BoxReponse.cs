@@ -1,4 +1,5 @@
 using System.Text.Json.Serialization;
+using StorageLabelsApi.Models.DTO.CustomField;
 using BoxModel = StorageLabelsApi.DataLayer.Models.Box;
 
 namespace StorageLabelsApi.Models.DTO.Box;
@@ -12,9 +13,13 @@ public record BoxResponse(
     string? ImageUrl,
     Guid? ImageMetadataId,
     long LocationId,
+    Guid? ParentBoxId,
     DateTimeOffset Created,
     DateTimeOffset Updated,
-    DateTimeOffset LastAccessed)
+    DateTimeOffset LastAccessed,
+    BoxStatsResponse? Stats = null,
+    IReadOnlyList<BoxPathSegment>? Path = null,
+    IReadOnlyList<CustomFieldEntry>? CustomFields = null)
 {
     public BoxResponse(BoxModel box) : this(
         box.BoxId,
@@ -24,8 +29,10 @@ public record BoxResponse(
         box.ImageUrl,
         box.ImageMetadataId,
         box.LocationId,
+        box.ParentBoxId,
         box.Created,
         box.Updated,
-        box.LastAccessed)
+        box.LastAccessed,
+        CustomFields: box.CustomFieldValues.Select(v => new CustomFieldEntry(v.CustomFieldId, v.Value)).ToList())
     { }
 };
@@ -1,12 +1,16 @@
 using System.ComponentModel.DataAnnotations;
+using StorageLabelsApi.Models.DTO.CustomField;
 
 namespace StorageLabelsApi.Models.DTO.Box;
 
+/// <param name="CustomFields">Values to set on the location's box fields; a blank value clears a field and fields left out keep their values</param>
 public record BoxRequest(
     [Required] string Code, 
     [Required] string Name, 
     [Required] long LocationId,
     string? Description,
     string? ImageUrl,
-    Guid? ImageMetadataId
+    Guid? ImageMetadataId,
+    Guid? ParentBoxId = null,
+    List<CustomFieldEntry>? CustomFields = null
 );
@@ -0,0 +1,13 @@
+using System.Text.Json.Serialization;
+
+namespace StorageLabelsApi.Models.DTO.Box;
+
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum BoxSortField
+{
+    Name,
+    Code,
+    Updated,
+    LastAccessed,
+    ItemCount
+}
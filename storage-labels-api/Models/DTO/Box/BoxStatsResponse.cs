@@ -0,0 +1,14 @@
+namespace StorageLabelsApi.Models.DTO.Box;
+
+/// <summary>
+/// Contents summary for a box. Only included where a list needs it, so single box
+/// responses leave it null. ItemCount is the box's own items; BoxCount and TotalItemCount
+/// also reach into boxes nested inside it at any depth.
+/// </summary>
+public record BoxStatsResponse(
+    int ItemCount,
+    int ImageCount,
+    DateTimeOffset? LastItemUpdated,
+    int BoxCount = 0,
+    int TotalItemCount = 0
+);
@@ -1,5 +1,7 @@
 namespace StorageLabelsApi.Models.DTO.Box;
 
+/// <param name="DestinationParentBoxId">Box in the destination location to put the box inside; null leaves it loose in the location</param>
 public record MoveBoxRequest(
-    long DestinationLocationId
+    long DestinationLocationId,
+    Guid? DestinationParentBoxId = null
 );
@@ -0,0 +1,9 @@
+namespace StorageLabelsApi.Models.DTO.CustomField;
+
+/// <summary>
+/// The value of one custom field on an item or box. In requests a blank value clears the field.
+/// </summary>
+public record CustomFieldEntry(
+    long CustomFieldId,
+    string? Value
+);
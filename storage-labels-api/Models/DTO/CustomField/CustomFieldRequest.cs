@@ -0,0 +1,12 @@
+using System.ComponentModel.DataAnnotations;
+using StorageLabelsApi.DataLayer.Models;
+
+namespace StorageLabelsApi.Models.DTO.CustomField;
+
+/// <param name="Options">Allowed values of an Enum field; ignored for the other types</param>
+public record CustomFieldRequest(
+    [Required] string Name,
+    CustomFieldType Type,
+    CustomFieldAppliesTo AppliesTo = CustomFieldAppliesTo.Items,
+    List<string>? Options = null
+);
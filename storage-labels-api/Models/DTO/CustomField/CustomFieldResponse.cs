@@ -0,0 +1,28 @@
+using System.Text.Json.Serialization;
+using StorageLabelsApi.DataLayer.Models;
+using CustomFieldModel = StorageLabelsApi.DataLayer.Models.CustomField;
+
+namespace StorageLabelsApi.Models.DTO.CustomField;
+
+[method: JsonConstructor]
+public record CustomFieldResponse(
+    long CustomFieldId,
+    long LocationId,
+    string Name,
+    CustomFieldType Type,
+    CustomFieldAppliesTo AppliesTo,
+    IReadOnlyList<string> Options,
+    DateTimeOffset Created,
+    DateTimeOffset Updated)
+{
+    public CustomFieldResponse(CustomFieldModel field) : this(
+        field.CustomFieldId,
+        field.LocationId,
+        field.Name,
+        field.Type,
+        field.AppliesTo,
+        field.Options,
+        field.Created,
+        field.Updated)
+    { }
+}
@@ -0,0 +1,13 @@
+namespace StorageLabelsApi.Models.DTO.Item;
+
+public record CreateItemsRequest(
+    Guid BoxId,
+    List<CreateItemsEntry> Items
+);
+
+public record CreateItemsEntry(
+    string Name,
+    string? Description,
+    string? ImageUrl,
+    Guid? ImageMetadataId
+);
@@ -0,0 +1,15 @@
+namespace StorageLabelsApi.Models.DTO.Item;
+
+public record CreateItemsResponse(
+    IEnumerable<CreateItemsResult> Results
+);
+
+/// <summary>
+/// Outcome of one entry of a batch create, in request order. Exactly one of
+/// <see cref="Item"/> and <see cref="Errors"/> is set.
+/// </summary>
+public record CreateItemsResult(
+    int Index,
+    ItemResponse? Item,
+    IDictionary<string, string[]>? Errors
+);
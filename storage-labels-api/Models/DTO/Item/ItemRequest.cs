@@ -1,9 +1,13 @@
+using StorageLabelsApi.Models.DTO.CustomField;
+
 namespace StorageLabelsApi.Models.DTO.Item;
 
+/// <param name="CustomFields">Values to set on the location's item fields; a blank value clears a field and fields left out keep their values</param>
 public record ItemRequest(
     Guid BoxId,
     string Name,
     string? Description,
     string? ImageUrl,
-    Guid? ImageMetadataId
+    Guid? ImageMetadataId,
+    List<CustomFieldEntry>? CustomFields = null
 );
@@ -1,4 +1,5 @@
 using System.Text.Json.Serialization;
+using StorageLabelsApi.Models.DTO.CustomField;
 using ItemModel = StorageLabelsApi.DataLayer.Models.Item;
 
 namespace StorageLabelsApi.Models.DTO.Item;
@@ -12,7 +13,8 @@ public record ItemResponse(
     string? ImageUrl,
     Guid? ImageMetadataId,
     DateTimeOffset Created,
-    DateTimeOffset Updated)
+    DateTimeOffset Updated,
+    IReadOnlyList<CustomFieldEntry>? CustomFields = null)
 {
     public ItemResponse(ItemModel item) : this(
         item.ItemId,
@@ -22,6 +24,7 @@ public record ItemResponse(
         item.ImageUrl,
         item.ImageMetadataId,
         item.Created,
-        item.Updated)
+        item.Updated,
+        item.CustomFieldValues.Select(v => new CustomFieldEntry(v.CustomFieldId, v.Value)).ToList())
     { }
 };
@@ -0,0 +1,6 @@
+namespace StorageLabelsApi.Models.DTO.Item;
+
+public record MoveItemsRequest(
+    Guid DestinationBoxId,
+    List<Guid> ItemIds
+);
@@ -9,4 +9,5 @@ public record CreateLabelPrintJobRequest(
     string? AlgorithmPrefix,
     int AlgorithmSuffixLength,
     long StartIndex,
-    string CodeColorPattern);
+    string CodeColorPattern,
+    LabelTemplate? Template = null);
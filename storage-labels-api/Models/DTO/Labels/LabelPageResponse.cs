@@ -6,4 +6,5 @@ public record LabelPageResponse(
     Guid JobId,
     LabelFormat LabelFormat,
     string CodeColorPattern,
+    LabelTemplate Template,
     IEnumerable<LabelCodeItem> Labels);
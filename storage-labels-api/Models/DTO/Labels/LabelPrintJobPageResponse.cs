@@ -0,0 +1,21 @@
+using StorageLabelsApi.DataLayer.Models;
+
+namespace StorageLabelsApi.Models.DTO.Labels;
+
+public record LabelPrintJobPageResponse(
+    Guid Id,
+    int FirstLabelNumber,
+    int LastLabelNumber,
+    int LabelCount,
+    LabelFormat LabelFormat,
+    DateTimeOffset GeneratedAt)
+{
+    public LabelPrintJobPageResponse(LabelPrintJobPage page) : this(
+        page.Id,
+        page.FirstLabelNumber,
+        page.FirstLabelNumber + page.LabelCount - 1,
+        page.LabelCount,
+        page.LabelFormat,
+        page.GeneratedAt)
+    { }
+}
@@ -12,6 +12,7 @@ public record LabelPrintJobResponse(
     long LastGeneratedIndex,
     int TotalLabelsGenerated,
     string CodeColorPattern,
+    LabelTemplate Template,
     DateTimeOffset CreatedAt)
 {
     public LabelPrintJobResponse(LabelPrintJob job) : this(
@@ -24,6 +25,7 @@ public record LabelPrintJobResponse(
         job.LastGeneratedIndex,
         job.TotalLabelsGenerated,
         job.CodeColorPattern,
+        new LabelTemplate(job),
         job.CreatedAt)
     { }
 }
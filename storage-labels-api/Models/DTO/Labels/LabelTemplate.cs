@@ -0,0 +1,27 @@
+using StorageLabelsApi.DataLayer.Models;
+
+namespace StorageLabelsApi.Models.DTO.Labels;
+
+public record LabelTemplate(
+    LabelLayout Layout,
+    bool ShowBoxName,
+    bool ShowLocationName,
+    string? Description,
+    bool ShowLogo,
+    bool ShowDate,
+    LabelSymbology Symbology = LabelSymbology.QrCode,
+    bool EncodeScanUrl = false)
+{
+    public static readonly LabelTemplate Default = new(LabelLayout.Auto, false, false, null, false, false);
+
+    public LabelTemplate(LabelPrintJob job) : this(
+        job.LabelLayout,
+        job.ShowBoxName,
+        job.ShowLocationName,
+        job.TemplateDescription,
+        job.ShowLogo,
+        job.ShowDate,
+        job.Symbology,
+        job.EncodeScanUrl)
+    { }
+}
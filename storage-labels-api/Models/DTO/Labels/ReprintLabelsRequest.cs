@@ -0,0 +1,5 @@
+namespace StorageLabelsApi.Models.DTO.Labels;
+
+public record ReprintLabelsRequest(
+    int FirstLabelNumber,
+    int LastLabelNumber);
@@ -8,4 +8,5 @@ public record UpdateLabelPrintJobRequest(
     LabelIncrementAlgorithm IncrementAlgorithm,
     string? AlgorithmPrefix,
     int AlgorithmSuffixLength,
-    string CodeColorPattern);
+    string CodeColorPattern,
+    LabelTemplate? Template = null);
@@ -2,7 +2,9 @@ using System.ComponentModel.DataAnnotations;
 
 namespace StorageLabelsApi.Models.DTO.Location;
 
+/// <param name="Code">Scannable code for the location label; one is generated when left empty</param>
 public record LocationRequest(
-    [Required] string Name
+    [Required] string Name,
+    string? Code = null
 );
 
@@ -8,6 +8,7 @@ namespace StorageLabelsApi.Models.DTO.Location;
 public record LocationResponse(
     long LocationId,
     string Name,
+    string Code,
     AccessLevels AccessLevel,
     DateTimeOffset Created,
     DateTimeOffset Updated
@@ -16,6 +17,7 @@ public record LocationResponse(
     public LocationResponse(LocationModel location, AccessLevels accessLevel) : this(
         location.LocationId,
         location.Name,
+        location.Code,
         accessLevel,
         location.Created,
         location.Updated)
@@ -0,0 +1,16 @@
+namespace StorageLabelsApi.Models.DTO.Search;
+
+/// <summary>
+/// A field of a search result that matched the query. Text is the field value, or a snippet
+/// of it for long descriptions, and Matches are offsets into that text. Custom field values
+/// use "field:" followed by the field name as their Field.
+/// </summary>
+public record SearchHighlight(
+    string Field,
+    string Text,
+    IReadOnlyList<SearchMatch> Matches);
+
+/// <summary>
+/// One matched span within a highlight's text
+/// </summary>
+public record SearchMatch(int Start, int Length);
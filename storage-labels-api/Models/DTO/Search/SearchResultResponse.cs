@@ -17,7 +17,9 @@ public record SearchResultResponse(
     string? ItemName,
     string? ItemCode,
     string LocationId,
-    string LocationName)
+    string LocationName,
+    IReadOnlyList<SearchHighlight>? Highlights = null,
+    IReadOnlyList<string>? ContainerPath = null)
 {
     public SearchResultResponse(SearchResult result) : this(
         result.Type,
@@ -29,6 +31,8 @@ public record SearchResultResponse(
         result.ItemName,
         result.ItemCode,
         result.LocationId,
-        result.LocationName)
+        result.LocationName,
+        result.Highlights,
+        result.ContainerPath)
     { }
 };
@@ -0,0 +1,11 @@
+using StorageLabelsApi.Models.DTO.Box;
+
+namespace StorageLabelsApi.Models.DTO.User;
+
+/// <summary>
+/// The box list order last chosen for a location.
+/// </summary>
+public record BoxListSort(
+    BoxSortField Sort,
+    bool Descending
+);
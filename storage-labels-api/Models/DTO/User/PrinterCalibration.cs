@@ -0,0 +1,13 @@
+namespace StorageLabelsApi.Models.DTO.User;
+
+/// <summary>
+/// Per-printer correction applied to printed label sheets.
+/// Offsets are in millimetres, scales are multipliers (1.0 = no change).
+/// </summary>
+public record PrinterCalibration(
+    string Name,
+    double OffsetX,
+    double OffsetY,
+    double ScaleX,
+    double ScaleY
+);
@@ -0,0 +1,14 @@
+namespace StorageLabelsApi.Models.DTO.User;
+
+/// <summary>
+/// A search pinned from the search bar. LocationId or BoxId limit it to one location or box,
+/// and ScopeName is their name at the time it was saved, for display.
+/// </summary>
+public record SavedSearch(
+    string Query,
+    string? LocationId,
+    string? BoxId,
+    string? ScopeName,
+    string? Type,
+    bool? HasImage
+);
@@ -5,4 +5,11 @@ public record UserPreferencesResponse
     public string Theme { get; init; } = "light";
     public bool ShowImages { get; init; } = true;
     public string CodeColorPattern { get; init; } = "";
+    public IReadOnlyList<PrinterCalibration> PrinterCalibrations { get; init; } = [];
+    public string? ActivePrinter { get; init; }
+    /// <summary>Box list sort keyed by location id.</summary>
+    public IReadOnlyDictionary<string, BoxListSort> BoxListSorts { get; init; } = new Dictionary<string, BoxListSort>();
+    /// <summary>Most recent first.</summary>
+    public IReadOnlyList<string> RecentSearches { get; init; } = [];
+    public IReadOnlyList<SavedSearch> SavedSearches { get; init; } = [];
 }
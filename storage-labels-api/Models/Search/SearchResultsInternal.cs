@@ -15,7 +15,9 @@ public record SearchResult(
     string? ItemName,
     string? ItemCode,
     string LocationId,
-    string LocationName);
+    string LocationName,
+    IReadOnlyList<SearchHighlight>? Highlights = null,
+    IReadOnlyList<string>? ContainerPath = null);
 
 /// <summary>
 /// Internal response type for search service - contains results and metadata
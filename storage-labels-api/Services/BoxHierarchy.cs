@@ -0,0 +1,93 @@
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+
+namespace StorageLabelsApi.Services;
+
+/// <summary>
+/// The nesting of boxes within one or more locations, loaded once so ancestors and descendants
+/// can be walked in memory. Nesting never crosses a location, so a location's boxes are small
+/// enough to load whole.
+/// </summary>
+internal sealed class BoxHierarchy
+{
+    public sealed record Node(Guid BoxId, Guid? ParentBoxId, string Name, string Code, long LocationId);
+
+    private readonly Dictionary<Guid, Node> _nodes;
+    private readonly ILookup<Guid, Node> _children;
+
+    private BoxHierarchy(IEnumerable<Node> boxes)
+    {
+        _nodes = boxes.ToDictionary(n => n.BoxId);
+        _children = _nodes.Values
+            .Where(n => n.ParentBoxId.HasValue)
+            .ToLookup(n => n.ParentBoxId!.Value);
+    }
+
+    public static async Task<BoxHierarchy> LoadAsync(StorageLabelsDbContext dbContext, IReadOnlyCollection<long> locationIds, CancellationToken cancellationToken)
+    {
+        var boxes = await dbContext.Boxes
+            .AsNoTracking()
+            .Where(b => locationIds.Contains(b.LocationId))
+            .Select(b => new Node(b.BoxId, b.ParentBoxId, b.Name, b.Code, b.LocationId))
+            .ToListAsync(cancellationToken);
+
+        return new BoxHierarchy(boxes);
+    }
+
+    public static Task<BoxHierarchy> LoadAsync(StorageLabelsDbContext dbContext, long locationId, CancellationToken cancellationToken) =>
+        LoadAsync(dbContext, [locationId], cancellationToken);
+
+    public Node? Find(Guid boxId) => _nodes.GetValueOrDefault(boxId);
+
+    /// <summary>
+    /// The boxes containing a box, outermost first. Stops at a cycle rather than looping.
+    /// </summary>
+    public IReadOnlyList<Node> Ancestors(Guid boxId)
+    {
+        var ancestors = new List<Node>();
+        var seen = new HashSet<Guid> { boxId };
+        var parentId = Find(boxId)?.ParentBoxId;
+
+        while (parentId.HasValue && seen.Add(parentId.Value) && _nodes.TryGetValue(parentId.Value, out var parent))
+        {
+            ancestors.Add(parent);
+            parentId = parent.ParentBoxId;
+        }
+
+        ancestors.Reverse();
+        return ancestors;
+    }
+
+    /// <summary>
+    /// Names of the boxes containing a box, outermost first, for showing where a result is
+    /// </summary>
+    public IReadOnlyList<string> PathNames(Guid boxId) =>
+        Ancestors(boxId).Select(a => a.Name).ToList();
+
+    /// <summary>
+    /// Every box nested inside a box at any depth, not including the box itself
+    /// </summary>
+    public IReadOnlyList<Node> Descendants(Guid boxId)
+    {
+        var descendants = new List<Node>();
+        var seen = new HashSet<Guid> { boxId };
+        var pending = new Queue<Guid>([boxId]);
+
+        while (pending.TryDequeue(out var current))
+        {
+            foreach (var child in _children[current].Where(c => seen.Add(c.BoxId)))
+            {
+                descendants.Add(child);
+                pending.Enqueue(child.BoxId);
+            }
+        }
+
+        return descendants;
+    }
+
+    /// <summary>
+    /// True when <paramref name="boxId"/> is <paramref name="containerId"/> or nested anywhere inside it
+    /// </summary>
+    public bool IsWithin(Guid boxId, Guid containerId) =>
+        boxId == containerId || Ancestors(boxId).Any(a => a.BoxId == containerId);
+}
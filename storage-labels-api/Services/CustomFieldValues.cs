@@ -0,0 +1,238 @@
+using System.Globalization;
+using Microsoft.EntityFrameworkCore;
+using StorageLabelsApi.Datalayer;
+using StorageLabelsApi.DataLayer.Models;
+using StorageLabelsApi.Models.DTO.CustomField;
+
+namespace StorageLabelsApi.Services;
+
+/// <summary>
+/// Checks, saves and moves the custom field values of items and boxes. Values are kept as text in
+/// a normalised form so search and export don't have to know the field types.
+/// </summary>
+internal static class CustomFieldValues
+{
+    /// <summary>
+    /// Values ready to save, keyed by field; a null value clears the field
+    /// </summary>
+    public sealed record Changes(IReadOnlyDictionary<long, string?> Values, IReadOnlyList<string> Errors)
+    {
+        public bool IsValid => Errors.Count == 0;
+    }
+
+    /// <summary>
+    /// Checks the entries against the location's fields and normalises their values.
+    /// </summary>
+    /// <param name="target">Items or Boxes, depending on what the values are for</param>
+    public static async Task<Changes> PrepareAsync(StorageLabelsDbContext dbContext, long locationId, CustomFieldAppliesTo target, IReadOnlyCollection<CustomFieldEntry>? entries, CancellationToken cancellationToken)
+    {
+        if (entries is null || entries.Count == 0)
+        {
+            return new Changes(new Dictionary<long, string?>(), []);
+        }
+
+        var fieldIds = entries.Select(e => e.CustomFieldId).Distinct().ToList();
+        var fields = await dbContext.CustomFields
+            .AsNoTracking()
+            .Where(f => fieldIds.Contains(f.CustomFieldId) && f.LocationId == locationId)
+            .ToDictionaryAsync(f => f.CustomFieldId, cancellationToken);
+
+        var values = new Dictionary<long, string?>();
+        var errors = new List<string>();
+
+        foreach (var entry in entries)
+        {
+            if (!fields.TryGetValue(entry.CustomFieldId, out var field))
+            {
+                errors.Add($"Custom field ({entry.CustomFieldId}) was not found in location ({locationId}).");
+                continue;
+            }
+
+            if (!AppliesTo(field, target))
+            {
+                errors.Add($"{field.Name} can't be set on {target.ToString().ToLowerInvariant()}.");
+                continue;
+            }
+
+            var problem = Normalise(field, entry.Value, out var value);
+            if (problem is not null)
+            {
+                errors.Add(problem);
+                continue;
+            }
+
+            values[field.CustomFieldId] = value;
+        }
+
+        return new Changes(values, errors);
+    }
+
+    /// <summary>
+    /// Adds the values for a new item or box; the caller saves them with the entity
+    /// </summary>
+    public static void Add(StorageLabelsDbContext dbContext, Changes changes, Guid? boxId, Guid? itemId)
+    {
+        foreach (var (customFieldId, value) in changes.Values)
+        {
+            if (value is not null)
+            {
+                dbContext.CustomFieldValues.Add(new(
+                    CustomFieldValueId: 0,
+                    CustomFieldId: customFieldId,
+                    BoxId: boxId,
+                    ItemId: itemId,
+                    Value: value));
+            }
+        }
+    }
+
+    /// <summary>
+    /// Replaces the values of the changed fields on an existing item or box. Fields that aren't
+    /// part of the changes keep their values.
+    /// </summary>
+    public static async Task ReplaceAsync(StorageLabelsDbContext dbContext, Changes changes, Guid? boxId, Guid? itemId, CancellationToken cancellationToken)
+    {
+        if (changes.Values.Count == 0)
+        {
+            return;
+        }
+
+        var fieldIds = changes.Values.Keys.ToList();
+        await dbContext.CustomFieldValues
+            .Where(v => fieldIds.Contains(v.CustomFieldId) && v.BoxId == boxId && v.ItemId == itemId)
+            .ExecuteDeleteAsync(cancellationToken);
+
+        Add(dbContext, changes, boxId, itemId);
+        await dbContext.SaveChangesAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// Fields belong to a location, so after items move to another location their values are
+    /// moved onto the destination's field with the same name and type. Values with nowhere to go are dropped.
+    /// </summary>
+    public static Task CarryOverItemsAsync(StorageLabelsDbContext dbContext, IReadOnlyCollection<Guid> itemIds, long locationId, CancellationToken cancellationToken) =>
+        CarryOverAsync(
+            dbContext,
+            dbContext.CustomFieldValues.Where(v => v.ItemId != null && itemIds.Contains(v.ItemId.Value)),
+            locationId,
+            cancellationToken);
+
+    /// <summary>
+    /// Carries over the values of boxes moved to another location, and of the items in them
+    /// </summary>
+    public static Task CarryOverBoxesAsync(StorageLabelsDbContext dbContext, IReadOnlyCollection<Guid> boxIds, long locationId, CancellationToken cancellationToken) =>
+        CarryOverAsync(
+            dbContext,
+            dbContext.CustomFieldValues.Where(v =>
+                (v.BoxId != null && boxIds.Contains(v.BoxId.Value)) ||
+                dbContext.Items.Any(i => i.ItemId == v.ItemId && boxIds.Contains(i.BoxId))),
+            locationId,
+            cancellationToken);
+
+    private static async Task CarryOverAsync(StorageLabelsDbContext dbContext, IQueryable<CustomFieldValue> values, long locationId, CancellationToken cancellationToken)
+    {
+        var stale = await values
+            .AsNoTracking()
+            .Where(v => v.CustomField.LocationId != locationId)
+            .Select(v => new { v.CustomFieldValueId, v.BoxId, v.CustomField.Name, v.CustomField.Type, v.Value })
+            .ToListAsync(cancellationToken);
+
+        if (stale.Count == 0)
+        {
+            return;
+        }
+
+        var destinationFields = await dbContext.CustomFields
+            .AsNoTracking()
+            .Where(f => f.LocationId == locationId)
+            .ToListAsync(cancellationToken);
+        // The unique index lowercases names in the database, which doesn't always agree with .NET's
+        // case folding, so a name can still repeat here
+        var byName = destinationFields
+            .DistinctBy(f => f.Name, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(f => f.Name, StringComparer.OrdinalIgnoreCase);
+
+        var moves = new Dictionary<long, List<long>>();
+        var dropped = new List<long>();
+
+        foreach (var value in stale)
+        {
+            var target = value.BoxId.HasValue ? CustomFieldAppliesTo.Boxes : CustomFieldAppliesTo.Items;
+            if (byName.TryGetValue(value.Name, out var field) &&
+                field.Type == value.Type &&
+                AppliesTo(field, target) &&
+                (field.Type != CustomFieldType.Enum || field.Options.Contains(value.Value)))
+            {
+                if (!moves.TryGetValue(field.CustomFieldId, out var ids))
+                {
+                    moves[field.CustomFieldId] = ids = [];
+                }
+                ids.Add(value.CustomFieldValueId);
+            }
+            else
+            {
+                dropped.Add(value.CustomFieldValueId);
+            }
+        }
+
+        foreach (var (customFieldId, valueIds) in moves)
+        {
+            await dbContext.CustomFieldValues
+                .Where(v => valueIds.Contains(v.CustomFieldValueId))
+                .ExecuteUpdateAsync(setters => setters.SetProperty(v => v.CustomFieldId, customFieldId), cancellationToken);
+        }
+
+        if (dropped.Count > 0)
+        {
+            await dbContext.CustomFieldValues
+                .Where(v => dropped.Contains(v.CustomFieldValueId))
+                .ExecuteDeleteAsync(cancellationToken);
+        }
+    }
+
+    private static bool AppliesTo(CustomField field, CustomFieldAppliesTo target) =>
+        field.AppliesTo == CustomFieldAppliesTo.ItemsAndBoxes || field.AppliesTo == target;
+
+    /// <summary>
+    /// Puts a value into its stored form. Returns the problem, if any; a blank value becomes null.
+    /// </summary>
+    private static string? Normalise(CustomField field, string? input, out string? value)
+    {
+        value = null;
+        var text = input?.Trim();
+        if (string.IsNullOrEmpty(text))
+            return null;
+
+        switch (field.Type)
+        {
+            case CustomFieldType.Number:
+                if (!decimal.TryParse(text, NumberStyles.Number, CultureInfo.InvariantCulture, out var number))
+                    return $"{field.Name} must be a number.";
+                value = number.ToString(CultureInfo.InvariantCulture);
+                return null;
+
+            case CustomFieldType.Date:
+                if (!DateOnly.TryParse(text, CultureInfo.InvariantCulture, out var date))
+                    return $"{field.Name} must be a date.";
+                value = date.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture);
+                return null;
+
+            case CustomFieldType.Boolean:
+                if (!bool.TryParse(text, out var flag))
+                    return $"{field.Name} must be true or false.";
+                value = flag ? "true" : "false";
+                return null;
+
+            case CustomFieldType.Enum:
+                var option = field.Options.FirstOrDefault(o => string.Equals(o, text, StringComparison.OrdinalIgnoreCase));
+                if (option is null)
+                    return $"{field.Name} must be one of: {string.Join(", ", field.Options)}.";
+                value = option;
+                return null;
+
+            default:
+                value = text;
+                return null;
+        }
+    }
+}
@@ -10,11 +10,16 @@ public interface ISearchService
     /// <summary>
     /// Search for boxes and items with pagination
     /// </summary>
+    /// <param name="boxId">Restrict results to a box, including the boxes nested inside it</param>
+    /// <param name="type">Restrict results to "box" or "item"; null returns both</param>
+    /// <param name="hasImage">Restrict results to those with (true) or without (false) a photo</param>
     Task<SearchResultsInternal> SearchBoxesAndItemsAsync(
         string query,
         string userId,
         long? locationId,
         Guid? boxId,
+        string? type,
+        bool? hasImage,
         int pageNumber,
         int pageSize,
         CancellationToken cancellationToken = default);
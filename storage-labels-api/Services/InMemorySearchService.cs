@@ -18,6 +18,8 @@ public class InMemorySearchService(
         string userId,
         long? locationId,
         Guid? boxId,
+        string? type,
+        bool? hasImage,
         int pageNumber,
         int pageSize,
         CancellationToken cancellationToken = default)
@@ -42,12 +44,31 @@ public class InMemorySearchService(
         // Combined results list
         var allResults = new List<SearchResult>();
 
-        // Search boxes if not filtering by BoxId
-        if (!boxId.HasValue)
+        // A box scope also covers the boxes nested inside it, and their items
+        var nestedBoxIds = new List<Guid>();
+        if (boxId.HasValue)
+        {
+            var scopeLocationId = await dbContext.Boxes
+                .AsNoTracking()
+                .Where(b => b.BoxId == boxId.Value)
+                .Select(b => (long?)b.LocationId)
+                .FirstOrDefaultAsync(cancellationToken);
+
+            if (scopeLocationId.HasValue)
+            {
+                var scopeHierarchy = await BoxHierarchy.LoadAsync(dbContext, scopeLocationId.Value, cancellationToken);
+                nestedBoxIds = scopeHierarchy.Descendants(boxId.Value).Select(n => n.BoxId).ToList();
+            }
+        }
+
+        // Search boxes unless restricted to items; inside a box only its nested boxes can match
+        if ((!boxId.HasValue || nestedBoxIds.Count > 0) && type != "item")
         {
             var boxQuery = dbContext.Boxes
                 .AsNoTracking()
                 .Include(b => b.Location)
+                .Include(b => b.CustomFieldValues)
+                    .ThenInclude(v => v.CustomField)
                 .Where(b => accessibleLocationIds.Contains(b.LocationId));
 
             if (locationId.HasValue)
@@ -55,13 +76,24 @@ public class InMemorySearchService(
                 boxQuery = boxQuery.Where(b => b.LocationId == locationId.Value);
             }
 
+            if (boxId.HasValue)
+            {
+                boxQuery = boxQuery.Where(b => nestedBoxIds.Contains(b.BoxId));
+            }
+
+            if (hasImage.HasValue)
+            {
+                boxQuery = boxQuery.Where(b => (b.ImageUrl != null) == hasImage.Value);
+            }
+
             var boxes = await boxQuery.ToListAsync(cancellationToken);
 
             var boxResults = boxes
                 .Where(b =>
                     (b.Name?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false) ||
                     (b.Code?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false) ||
-                    (b.Description?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false))
+                    (b.Description?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false) ||
+                    b.CustomFieldValues.Any(v => v.Value.Contains(searchTerm, StringComparison.OrdinalIgnoreCase)))
                 .Select(b => new SearchResult(
                     "box",
                     CalculateSimpleRank(searchTerm, b.Name, b.Code, b.Description),
@@ -72,49 +104,65 @@ public class InMemorySearchService(
                     null,
                     null,
                     b.LocationId.ToString(),
-                    b.Location?.Name ?? "Unknown"))
+                    b.Location?.Name ?? "Unknown",
+                    SearchHighlighter.Highlight(query, b.Name, b.Code, b.Description,
+                        b.CustomFieldValues.Select(v => (v.CustomField.Name, v.Value)))))
                 .ToList();
 
             allResults.AddRange(boxResults);
         }
 
-        // Search items
-        var itemQuery = dbContext.Items
-            .AsNoTracking()
-            .Include(i => i.Box)
-                .ThenInclude(b => b.Location)
-            .Where(i => accessibleLocationIds.Contains(i.Box.LocationId));
-
-        if (locationId.HasValue)
+        // Search items unless restricted to boxes
+        if (type != "box")
         {
-            itemQuery = itemQuery.Where(i => i.Box.LocationId == locationId.Value);
-        }
+            var itemQuery = dbContext.Items
+                .AsNoTracking()
+                .Include(i => i.Box)
+                    .ThenInclude(b => b.Location)
+                .Include(i => i.CustomFieldValues)
+                    .ThenInclude(v => v.CustomField)
+                .Where(i => accessibleLocationIds.Contains(i.Box.LocationId));
 
-        if (boxId.HasValue)
-        {
-            itemQuery = itemQuery.Where(i => i.BoxId == boxId.Value);
-        }
+            if (locationId.HasValue)
+            {
+                itemQuery = itemQuery.Where(i => i.Box.LocationId == locationId.Value);
+            }
 
-        var items = await itemQuery.ToListAsync(cancellationToken);
-
-        var itemResults = items
-            .Where(i =>
-                (i.Name?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false) ||
-                (i.Description?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false))
-            .Select(i => new SearchResult(
-                "item",
-                CalculateSimpleRank(searchTerm, i.Name, null, i.Description),
-                i.BoxId.ToString(),
-                i.Box.Name,
-                i.Box.Code,
-                i.ItemId.ToString(),
-                i.Name,
-                null,
-                i.Box.LocationId.ToString(),
-                i.Box.Location?.Name ?? "Unknown"))
-            .ToList();
+            if (boxId.HasValue)
+            {
+                var scopeBoxIds = nestedBoxIds.Append(boxId.Value).ToList();
+                itemQuery = itemQuery.Where(i => scopeBoxIds.Contains(i.BoxId));
+            }
 
-        allResults.AddRange(itemResults);
+            if (hasImage.HasValue)
+            {
+                itemQuery = itemQuery.Where(i => (i.ImageUrl != null) == hasImage.Value);
+            }
+
+            var items = await itemQuery.ToListAsync(cancellationToken);
+
+            var itemResults = items
+                .Where(i =>
+                    (i.Name?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false) ||
+                    (i.Description?.Contains(searchTerm, StringComparison.OrdinalIgnoreCase) ?? false) ||
+                    i.CustomFieldValues.Any(v => v.Value.Contains(searchTerm, StringComparison.OrdinalIgnoreCase)))
+                .Select(i => new SearchResult(
+                    "item",
+                    CalculateSimpleRank(searchTerm, i.Name, null, i.Description),
+                    i.BoxId.ToString(),
+                    i.Box.Name,
+                    i.Box.Code,
+                    i.ItemId.ToString(),
+                    i.Name,
+                    null,
+                    i.Box.LocationId.ToString(),
+                    i.Box.Location?.Name ?? "Unknown",
+                    SearchHighlighter.Highlight(query, i.Name, null, i.Description,
+                        i.CustomFieldValues.Select(v => (v.CustomField.Name, v.Value)))))
+                .ToList();
+
+            allResults.AddRange(itemResults);
+        }
 
         // Sort by rank (descending)
         allResults = allResults
@@ -125,11 +173,17 @@ public class InMemorySearchService(
 
         var totalResults = allResults.Count;
 
-        // Apply pagination and convert to async enumerable
+        // Apply pagination, then add container paths for just this page
         var skip = (pageNumber - 1) * pageSize;
-        var pagedResults = allResults
+        var pageResults = allResults
             .Skip(skip)
             .Take(pageSize)
+            .ToList();
+
+        var pageLocationIds = pageResults.Select(r => long.Parse(r.LocationId)).Distinct().ToList();
+        var hierarchy = await BoxHierarchy.LoadAsync(dbContext, pageLocationIds, cancellationToken);
+        var pagedResults = pageResults
+            .Select(r => r with { ContainerPath = hierarchy.PathNames(Guid.Parse(r.BoxId!)) })
             .ToAsyncEnumerable();
 
         logger.LogDebug("In-memory search: returning results for page {PageNumber} (total: {TotalResults})",
@@ -19,6 +19,8 @@ public class PostgreSqlSearchService(
         string userId,
         long? locationId,
         Guid? boxId,
+        string? type,
+        bool? hasImage,
         int pageNumber,
         int pageSize,
         CancellationToken cancellationToken = default)
@@ -35,6 +37,23 @@ public class PostgreSqlSearchService(
             .Where(ul => ul.UserId == userId && ul.AccessLevel != AccessLevels.None)
             .Select(ul => ul.LocationId);
 
+        // A box scope also covers the boxes nested inside it, and their items
+        var nestedBoxIds = new List<Guid>();
+        if (boxId.HasValue)
+        {
+            var scopeLocationId = await dbContext.Boxes
+                .AsNoTracking()
+                .Where(b => b.BoxId == boxId.Value)
+                .Select(b => (long?)b.LocationId)
+                .FirstOrDefaultAsync(cancellationToken);
+
+            if (scopeLocationId.HasValue)
+            {
+                var scopeHierarchy = await BoxHierarchy.LoadAsync(dbContext, scopeLocationId.Value, cancellationToken);
+                nestedBoxIds = scopeHierarchy.Descendants(boxId.Value).Select(n => n.BoxId).ToList();
+            }
+        }
+
         // Build box query using ILIKE for substring matching (uses trigram indexes)
         var boxQuery = dbContext.Boxes
             .AsNoTracking()
@@ -46,7 +65,8 @@ public class PostgreSqlSearchService(
             boxQuery = boxQuery.Where(b =>
                 EF.Functions.ILike(b.Name, pattern) ||
                 EF.Functions.ILike(b.Code, pattern) ||
-                EF.Functions.ILike(b.Description ?? "", pattern));
+                EF.Functions.ILike(b.Description ?? "", pattern) ||
+                b.CustomFieldValues.Any(v => EF.Functions.ILike(v.Value, pattern)));
         }
 
         if (locationId.HasValue)
@@ -55,6 +75,17 @@ public class PostgreSqlSearchService(
             boxQuery = boxQuery.Where(b => b.LocationId == locId);
         }
 
+        if (boxId.HasValue)
+        {
+            boxQuery = boxQuery.Where(b => nestedBoxIds.Contains(b.BoxId));
+        }
+
+        if (hasImage.HasValue)
+        {
+            var withImage = hasImage.Value;
+            boxQuery = boxQuery.Where(b => (b.ImageUrl != null) == withImage);
+        }
+
         // Build item query using ILIKE for substring matching (uses trigram indexes)
         var itemQuery = dbContext.Items
             .AsNoTracking()
@@ -65,7 +96,8 @@ public class PostgreSqlSearchService(
         {
             itemQuery = itemQuery.Where(i =>
                 EF.Functions.ILike(i.Name, pattern) ||
-                EF.Functions.ILike(i.Description ?? "", pattern));
+                EF.Functions.ILike(i.Description ?? "", pattern) ||
+                i.CustomFieldValues.Any(v => EF.Functions.ILike(v.Value, pattern)));
         }
 
         if (locationId.HasValue)
@@ -76,19 +108,37 @@ public class PostgreSqlSearchService(
 
         if (boxId.HasValue)
         {
-            var bId = boxId.Value;
-            itemQuery = itemQuery.Where(i => i.BoxId == bId);
+            var scopeBoxIds = nestedBoxIds.Append(boxId.Value).ToList();
+            itemQuery = itemQuery.Where(i => scopeBoxIds.Contains(i.BoxId));
+        }
+
+        if (hasImage.HasValue)
+        {
+            var withImage = hasImage.Value;
+            itemQuery = itemQuery.Where(i => (i.ImageUrl != null) == withImage);
+        }
+
+        // Inside a box only its nested boxes can match; the type filter can drop either side
+        var includeBoxes = (!boxId.HasValue || nestedBoxIds.Count > 0) && type != "item";
+        var includeItems = type != "box";
+
+        if (!includeBoxes && !includeItems)
+        {
+            return new SearchResultsInternal(AsyncEnumerable.Empty<SearchResult>(), 0);
         }
 
         // Count total results sequentially
         int boxCount = 0;
-        int itemCount;
+        int itemCount = 0;
         
-        if (!boxId.HasValue)
+        if (includeBoxes)
         {
             boxCount = await boxQuery.CountAsync(cancellationToken);
         }
-        itemCount = await itemQuery.CountAsync(cancellationToken);
+        if (includeItems)
+        {
+            itemCount = await itemQuery.CountAsync(cancellationToken);
+        }
         
         var totalResults = boxCount + itemCount;
 
@@ -103,6 +153,7 @@ public class PostgreSqlSearchService(
                 ItemId = (string?)null,
                 ItemName = (string?)null,
                 ItemCode = (string?)null,
+                Description = b.Description,
                 LocationId = b.LocationId.ToString(),
                 LocationName = b.Location.Name,
                 // Combine trigram similarity scores (0.0 to 1.0) weighted by field importance
@@ -122,6 +173,7 @@ public class PostgreSqlSearchService(
                 ItemId = (string?)i.ItemId.ToString(),
                 ItemName = (string?)i.Name,
                 ItemCode = (string?)null,
+                Description = i.Description,
                 LocationId = i.Box.LocationId.ToString(),
                 LocationName = i.Box.Location.Name,
                 // Combine trigram similarity scores weighted by field importance
@@ -132,15 +184,32 @@ public class PostgreSqlSearchService(
 
         // Combine queries and apply pagination at database level
         var skip = (pageNumber - 1) * pageSize;
-        var combinedQuery = boxId.HasValue 
-            ? itemResultsQuery 
-            : boxResultsQuery.Concat(itemResultsQuery);
+        var combinedQuery = includeBoxes && includeItems
+            ? boxResultsQuery.Concat(itemResultsQuery)
+            : includeBoxes ? boxResultsQuery : itemResultsQuery;
 
         // Materialize results before DbContext disposal
-        var materializedResults = await combinedQuery
+        var pageRows = await combinedQuery
             .OrderByDescending(r => r.Rank)
             .Skip(skip)
             .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        // Highlights and container paths are worked out in memory for just this page
+        var pageLocationIds = pageRows.Select(r => long.Parse(r.LocationId)).Distinct().ToList();
+        var hierarchy = await BoxHierarchy.LoadAsync(dbContext, pageLocationIds, cancellationToken);
+
+        var pageBoxIds = pageRows.Where(r => r.Type == "box").Select(r => Guid.Parse(r.BoxId)).ToList();
+        var pageItemIds = pageRows.Where(r => r.ItemId != null).Select(r => Guid.Parse(r.ItemId!)).ToList();
+        var customValues = (await dbContext.CustomFieldValues
+            .AsNoTracking()
+            .Where(v => (v.BoxId != null && pageBoxIds.Contains(v.BoxId.Value)) ||
+                (v.ItemId != null && pageItemIds.Contains(v.ItemId.Value)))
+            .Select(v => new { OwnerId = v.ItemId ?? v.BoxId, v.CustomField.Name, v.Value })
+            .ToListAsync(cancellationToken))
+            .ToLookup(v => v.OwnerId!.Value.ToString(), v => (v.Name, v.Value));
+
+        var materializedResults = pageRows
             .Select(r => new SearchResult(
                 r.Type,
                 r.Rank,
@@ -151,8 +220,12 @@ public class PostgreSqlSearchService(
                 r.ItemName,
                 r.ItemCode,
                 r.LocationId,
-                r.LocationName))
-            .ToListAsync(cancellationToken);
+                r.LocationName,
+                r.Type == "box"
+                    ? SearchHighlighter.Highlight(query, r.BoxName, r.BoxCode, r.Description, customValues[r.BoxId])
+                    : SearchHighlighter.Highlight(query, r.ItemName, null, r.Description, customValues[r.ItemId!]),
+                hierarchy.PathNames(Guid.Parse(r.BoxId))))
+            .ToList();
 
         logger.LogDebug("PostgreSQL trigram search: returning results for page {PageNumber} (total: {TotalResults})",
             pageNumber, totalResults);
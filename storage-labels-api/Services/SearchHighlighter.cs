@@ -0,0 +1,104 @@
+using StorageLabelsApi.Models.DTO.Search;
+
+namespace StorageLabelsApi.Services;
+
+/// <summary>
+/// Finds where each word of a query appears in a result's fields, so clients can show why it matched.
+/// Runs after the page is materialized, on at most one page of results.
+/// </summary>
+internal static class SearchHighlighter
+{
+    public const string NameField = "name";
+    public const string CodeField = "code";
+    public const string DescriptionField = "description";
+    public const string CustomFieldPrefix = "field:";
+
+    private const int SnippetLength = 120;
+    private const int SnippetLeadIn = 40;
+    private const string Ellipsis = "...";
+
+    public static IReadOnlyList<SearchHighlight> Highlight(string query, string? name, string? code, string? description, IEnumerable<(string Name, string Value)>? customFields = null)
+    {
+        var words = query.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+        var highlights = new List<SearchHighlight>();
+
+        AddHighlight(highlights, NameField, name, words, snippet: false);
+        AddHighlight(highlights, CodeField, code, words, snippet: false);
+        AddHighlight(highlights, DescriptionField, description, words, snippet: true);
+
+        foreach (var (fieldName, value) in customFields ?? [])
+        {
+            AddHighlight(highlights, CustomFieldPrefix + fieldName, value, words, snippet: true);
+        }
+
+        return highlights;
+    }
+
+    private static void AddHighlight(List<SearchHighlight> highlights, string field, string? text, string[] words, bool snippet)
+    {
+        if (string.IsNullOrEmpty(text))
+            return;
+
+        var matches = FindMatches(text, words);
+        if (matches.Count == 0)
+            return;
+
+        highlights.Add(snippet && text.Length > SnippetLength
+            ? Snippet(field, text, matches)
+            : new SearchHighlight(field, text, matches));
+    }
+
+    /// <summary>
+    /// Every case-insensitive occurrence of every word, sorted, with overlapping spans merged
+    /// </summary>
+    private static List<SearchMatch> FindMatches(string text, string[] words)
+    {
+        var spans = new List<(int Start, int End)>();
+        foreach (var word in words)
+        {
+            var index = text.IndexOf(word, StringComparison.OrdinalIgnoreCase);
+            while (index >= 0)
+            {
+                spans.Add((index, index + word.Length));
+                index = text.IndexOf(word, index + word.Length, StringComparison.OrdinalIgnoreCase);
+            }
+        }
+
+        var merged = new List<SearchMatch>();
+        var end = -1;
+        foreach (var span in spans.OrderBy(s => s.Start))
+        {
+            if (merged.Count > 0 && span.Start <= end)
+            {
+                var last = merged[^1];
+                end = Math.Max(end, span.End);
+                merged[^1] = last with { Length = end - last.Start };
+            }
+            else
+            {
+                merged.Add(new SearchMatch(span.Start, span.End - span.Start));
+                end = span.End;
+            }
+        }
+
+        return merged;
+    }
+
+    /// <summary>
+    /// A window of the text starting a little before the first match, with offsets moved to suit
+    /// </summary>
+    private static SearchHighlight Snippet(string field, string text, List<SearchMatch> matches)
+    {
+        var start = Math.Max(0, Math.Min(matches[0].Start - SnippetLeadIn, text.Length - SnippetLength));
+        var end = start + SnippetLength;
+        var prefix = start > 0 ? Ellipsis : "";
+        var suffix = end < text.Length ? Ellipsis : "";
+
+        var shifted = matches
+            .Where(m => m.Start >= start && m.Start + m.Length <= end)
+            .Select(m => m with { Start = m.Start - start + prefix.Length })
+            .ToList();
+
+        return new SearchHighlight(field, prefix + text[start..end] + suffix, shifted);
+    }
+}
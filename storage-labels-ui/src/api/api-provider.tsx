@@ -11,6 +11,9 @@ import { CommonLocationEndpoints, getCommonLocationEndpoints } from './endpoints
 import { SearchEndpoints, getSearchEndpoints } from './endpoints/search';
 import { EncryptionKeyEndpoints, getEncryptionKeyEndpoints } from './endpoints/encryption-key';
 import { LabelApiEndpoints, getLabelEndpoints } from './endpoints/labels';
+import { getOfflineBoxEndpoints, getOfflineItemEndpoints, getOfflineLocationEndpoints } from './offline/offline-endpoints';
+import { createOfflineSync, OfflineSync, SyncStatus } from './offline/offline-sync';
+import { PendingChange } from './offline/outbox';
 
 const createAxiosInstance = (): AxiosInstance => {
     return axios.create({
@@ -54,9 +57,21 @@ interface IApiContext {
 
 const ApiContext = React.createContext<{ Api: IApiContext } | null>(null);
 
+interface IOfflineSyncContext {
+    status: SyncStatus;
+    syncNow: () => Promise<void>;
+    keepLocalChange: (change: PendingChange) => Promise<void>;
+    discardLocalChange: (change: PendingChange) => Promise<void>;
+    clearOfflineData: () => Promise<void>;
+}
+
+const OfflineSyncContext = React.createContext<IOfflineSyncContext | null>(null);
+
 export const ApiProvider: React.FC<PropsWithChildren> = ({ children }) => {
     const { getAccessToken, authMode, refreshAccessToken, handleSessionExpired } = useAuth();
     const [Api, setApi] = React.useState<IApiContext>();
+    const [offlineSync, setOfflineSync] = React.useState<OfflineSync>();
+    const [syncStatus, setSyncStatus] = React.useState<SyncStatus>({ online: navigator.onLine, syncing: false, pending: 0, conflicts: [] });
     const refreshPromiseRef = React.useRef<Promise<string> | null>(null);
     const authModeRef = React.useRef(authMode);
     const getAccessTokenRef = React.useRef(getAccessToken);
@@ -141,11 +156,15 @@ export const ApiProvider: React.FC<PropsWithChildren> = ({ children }) => {
             }
         );
 
+        // Box and item writes queue in IndexedDB while offline and replay when the API is reachable again
+        const online = { Box: getBoxEndpoints(client), Item: getItemEndpoints(client) };
+        const sync = createOfflineSync(online, setSyncStatus);
+
         const api: IApiContext = {
-            Location: getLocationEndpoints(client),
+            Location: getOfflineLocationEndpoints(getLocationEndpoints(client)),
             User: getUserEndpoints(client),
-            Box: getBoxEndpoints(client),
-            Item: getItemEndpoints(client),
+            Box: getOfflineBoxEndpoints(online.Box, sync.onOutboxChange),
+            Item: getOfflineItemEndpoints(online.Item, sync.onOutboxChange),
             Image: getImageEndpoints(client),
             CommonLocation: getCommonLocationEndpoints(client),
             Search: getSearchEndpoints(client),
@@ -155,17 +174,31 @@ export const ApiProvider: React.FC<PropsWithChildren> = ({ children }) => {
         }
 
         setApi(api);
+        setOfflineSync(sync);
 
         return () => {
             client.interceptors.request.eject(requestInterceptor);
             client.interceptors.response.eject(responseInterceptor);
+            sync.dispose();
         };
     }, []);
 
+    const offlineSyncContext = React.useMemo<IOfflineSyncContext | null>(() => offlineSync ? {
+        status: syncStatus,
+        syncNow: offlineSync.syncNow,
+        keepLocalChange: offlineSync.keepLocalChange,
+        discardLocalChange: offlineSync.discardLocalChange,
+        clearOfflineData: offlineSync.clear,
+    } : null, [offlineSync, syncStatus]);
+
     return (
         <React.Fragment>
             {
-                Api && <ApiContext.Provider value={{ Api }}>{children}</ApiContext.Provider>
+                Api && offlineSyncContext && (
+                    <ApiContext.Provider value={{ Api }}>
+                        <OfflineSyncContext.Provider value={offlineSyncContext}>{children}</OfflineSyncContext.Provider>
+                    </ApiContext.Provider>
+                )
             }
         </React.Fragment>
     );
@@ -175,4 +208,10 @@ export const useApi = () => {
     const context = React.useContext(ApiContext)
     if (context === null) throw new Error('useApi must be used within a ApiProvider');
     return context;
+}
+
+export const useOfflineSync = () => {
+    const context = React.useContext(OfflineSyncContext)
+    if (context === null) throw new Error('useOfflineSync must be used within a ApiProvider');
+    return context;
 }
\ No newline at end of file
@@ -2,10 +2,43 @@ import { AxiosInstance } from 'axios';
 
 export type BoxEndpoints = ReturnType<typeof getBoxEndpoints>;
 
+export interface BoxPageQuery extends BoxListSort {
+    filter?: string;
+    /** Only the boxes directly inside this box. */
+    parentBoxId?: string;
+    /** Only the boxes not inside any box. Ignored when parentBoxId is set. */
+    topLevel?: boolean;
+    pageNumber: number;
+    pageSize: number;
+}
+
+export interface BoxPage {
+    data: Box[];
+    totalCount: number;
+}
+
 export const getBoxEndpoints = (client: AxiosInstance) => ({
     getBoxes: (locationId: number) =>
         client.get<Box[]>(`box/location/${locationId}`),
 
+    getBoxPage: async (locationId: number, query: BoxPageQuery): Promise<BoxPage> => {
+        const response = await client.get<Box[]>(`box/location/${locationId}`, {
+            params: {
+                sort: query.sort,
+                descending: query.descending,
+                filter: query.filter || undefined,
+                parentBoxId: query.parentBoxId,
+                topLevel: query.topLevel || undefined,
+                pageNumber: query.pageNumber,
+                pageSize: query.pageSize,
+            }
+        });
+        return {
+            data: response.data,
+            totalCount: parseInt(response.headers['x-total-count'] || '0', 10),
+        };
+    },
+
     getBox: (boxId: string) =>
         client.get<Box>(`box/${boxId}`),
 
@@ -15,8 +48,8 @@ export const getBoxEndpoints = (client: AxiosInstance) => ({
     updateBox: (boxId: string, box: Box) =>
         client.put<Box>(`box/${boxId}`, box),
 
-    moveBox: (boxId: string, destinationLocationId: number) =>
-        client.put<Box>(`box/${boxId}/move`, { destinationLocationId }),
+    moveBox: (boxId: string, destinationLocationId: number, destinationParentBoxId?: string | null) =>
+        client.put<Box>(`box/${boxId}/move`, { destinationLocationId, destinationParentBoxId }),
 
     deleteBox: (boxId: string, force?: boolean) =>
         client.delete<never>(`box/${boxId}${force ? '?force=true' : ''}`),
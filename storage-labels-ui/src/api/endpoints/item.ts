@@ -6,6 +6,9 @@ export const getItemEndpoints = (client: AxiosInstance) => ({
     createItem: (item: ItemRequest) =>
         client.post<ItemResponse>('item', item),
 
+    createItems: (request: CreateItemsRequest) =>
+        client.post<CreateItemsResponse>('item/batch', request),
+
     getItemsByBoxId: (boxId: string) =>
         client.get<ItemResponse[]>(`item/box/${boxId}`),
 
@@ -15,6 +18,9 @@ export const getItemEndpoints = (client: AxiosInstance) => ({
     updateItem: (itemId: string, item: ItemRequest) =>
         client.put<ItemResponse>(`item/${itemId}`, item),
 
+    moveItems: (itemIds: string[], destinationBoxId: string) =>
+        client.put<ItemResponse[]>('item/move', { itemIds, destinationBoxId }),
+
     deleteItem: (itemId: string) =>
         client.delete(`item/${itemId}`),
 });
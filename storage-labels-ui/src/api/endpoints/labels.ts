@@ -15,6 +15,12 @@ export const getLabelEndpoints = (client: AxiosInstance) => ({
     getNextPage: (jobId: string) =>
         client.post<LabelPageResponse>(`labels/${jobId}/next-page`),
 
+    getLabelJobPages: (jobId: string) =>
+        client.get<LabelPrintJobPageResponse[]>(`labels/${jobId}/pages`),
+
+    reprintLabels: (jobId: string, request: ReprintLabelsRequest) =>
+        client.post<LabelPageResponse>(`labels/${jobId}/reprint`, request),
+
     deleteLabelJob: (jobId: string) =>
         client.delete<never>(`labels/${jobId}`),
 
@@ -30,4 +30,17 @@ export const getLocationEndpoints = (client: AxiosInstance) => ({
 
     removeUserFromLocation: (locationId: number, userId: string) =>
         client.delete(`location/${locationId}/users/${encodeURIComponent(userId)}`),
+
+    // Custom fields on the location's items and boxes
+    getCustomFields: (locationId: number) =>
+        client.get<CustomField[]>(`location/${locationId}/fields`),
+
+    createCustomField: (locationId: number, request: CustomFieldRequest) =>
+        client.post<CustomField>(`location/${locationId}/fields`, request),
+
+    updateCustomField: (locationId: number, customFieldId: number, request: CustomFieldRequest) =>
+        client.put<CustomField>(`location/${locationId}/fields/${customFieldId}`, request),
+
+    deleteCustomField: (locationId: number, customFieldId: number) =>
+        client.delete(`location/${locationId}/fields/${customFieldId}`),
 });
\ No newline at end of file
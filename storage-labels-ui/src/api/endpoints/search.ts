@@ -4,10 +4,10 @@ export interface SearchEndpoints {
     searchByQrCode: (code: string) => Promise<{data: SearchResultResponse}>;
     searchBoxesAndItems: (
         query: string, 
-        locationId?: string, 
-        boxId?: string, 
+        filters?: SearchFilters, 
         pageNumber?: number, 
-        pageSize?: number
+        pageSize?: number,
+        signal?: AbortSignal
     ) => Promise<{data: SearchResultResponse[]; totalCount: number; totalPages: number}>;
 }
 
@@ -17,19 +17,19 @@ export const getSearchEndpoints = (client: AxiosInstance): SearchEndpoints => ({
 
     searchBoxesAndItems: async (
         query: string, 
-        locationId?: string, 
-        boxId?: string, 
+        filters: SearchFilters = {}, 
         pageNumber: number = 1, 
-        pageSize: number = 10
+        pageSize: number = 10,
+        signal?: AbortSignal
     ) => {
         const response = await client.get<SearchResultResponse[]>('/search', {
             params: {
                 query,
-                locationId,
-                boxId,
+                ...filters,
                 pageNumber,
                 pageSize
-            }
+            },
+            signal
         });
         
         // Extract total count from header and calculate total pages
@@ -1 +1,3 @@
-export { ApiProvider, useApi } from './api-provider';
\ No newline at end of file
+export { ApiProvider, useApi, useOfflineSync } from './api-provider';
+export type { SyncStatus } from './offline/offline-sync';
+export type { PendingChange } from './offline/outbox';
\ No newline at end of file
@@ -13,6 +13,39 @@ interface UserPreferences {
     theme: string;
     showImages: boolean;
     codeColorPattern: string;
+    printerCalibrations?: PrinterCalibration[];
+    activePrinter?: string;
+    /** Keyed by location id. */
+    boxListSorts?: Record<string, BoxListSort>;
+    /** Most recent first. */
+    recentSearches?: string[];
+    savedSearches?: SavedSearch[];
+}
+
+/** A pinned search. scopeName is the location or box name when it was saved, for display. */
+interface SavedSearch {
+    query: string;
+    locationId?: string | null;
+    boxId?: string | null;
+    scopeName?: string | null;
+    type?: 'box' | 'item' | null;
+    hasImage?: boolean | null;
+}
+
+type BoxSortField = 'Name' | 'Code' | 'Updated' | 'LastAccessed' | 'ItemCount';
+
+interface BoxListSort {
+    sort: BoxSortField;
+    descending: boolean;
+}
+
+// Offsets are in millimetres, scales are multipliers (1 = no change)
+interface PrinterCalibration {
+    name: string;
+    offsetX: number;
+    offsetY: number;
+    scaleX: number;
+    scaleY: number;
 }
 
 interface UserWithRoles {
@@ -36,11 +69,15 @@ interface CodeColorSegment {
 
 interface LocationRequest {
     name: string;
+    /** Left out to keep the current code, or to have one generated for a new location. */
+    code?: string;
 }
 
 interface StorageLocation {
     locationId: number;
     name: string;
+    /** Scannable code printed on the location's own label. */
+    code: string;
     created: string;
     updated: string;
     accessLevel: AccessLevels; 
@@ -54,9 +91,34 @@ interface Box {
         imageUrl: string;
         imageMetadataId?: string;
         locationId: number;
+        /** The box this one sits inside, if any. */
+        parentBoxId?: string | null;
         created: string;
         updated: string;
         lastAccessed: string;
+        /** Only set on boxes listed for a location. */
+        stats?: BoxStats | null;
+        /** The boxes containing this one, outermost first. Only set on a single box. */
+        path?: BoxPathSegment[] | null;
+        /** Values of the location's box fields. Not set on boxes listed for a location. */
+        customFields?: CustomFieldEntry[] | null;
+}
+
+interface BoxPathSegment {
+    boxId: string;
+    name: string;
+    code: string;
+}
+
+interface BoxStats {
+    itemCount: number;
+    /** The box photo plus every item photo. */
+    imageCount: number;
+    lastItemUpdated?: string | null;
+    /** Boxes nested inside, at any depth. */
+    boxCount?: number;
+    /** Items in the box and every box nested inside it. */
+    totalItemCount?: number;
 }
 
 interface BoxRequest {
@@ -66,6 +128,37 @@ interface BoxRequest {
     description: string;
     imageUrl: string;
     imageMetadataId?: string;
+    parentBoxId?: string | null;
+    /** Fields to set; a blank value clears one and fields left out keep their values. */
+    customFields?: CustomFieldEntry[];
+}
+
+type CustomFieldType = 'Text' | 'Number' | 'Date' | 'Enum' | 'Boolean';
+type CustomFieldAppliesTo = 'Items' | 'Boxes' | 'ItemsAndBoxes';
+
+/** A field defined for a location. Options are the allowed values of an Enum field. */
+interface CustomField {
+    customFieldId: number;
+    locationId: number;
+    name: string;
+    type: CustomFieldType;
+    appliesTo: CustomFieldAppliesTo;
+    options: string[];
+    created: string;
+    updated: string;
+}
+
+interface CustomFieldRequest {
+    name: string;
+    type: CustomFieldType;
+    appliesTo: CustomFieldAppliesTo;
+    options?: string[];
+}
+
+/** Values are stored as text: invariant numbers, yyyy-MM-dd dates and 'true' or 'false'. */
+interface CustomFieldEntry {
+    customFieldId: number;
+    value?: string | null;
 }
 
 interface CommonLocation {
@@ -100,6 +193,8 @@ interface ItemRequest {
     description?: string;
     imageUrl?: string;
     imageMetadataId?: string;
+    /** Fields to set; a blank value clears one and fields left out keep their values. */
+    customFields?: CustomFieldEntry[];
 }
 
 interface ItemResponse {
@@ -111,6 +206,29 @@ interface ItemResponse {
     imageMetadataId?: string;
     created: string;
     updated: string;
+    customFields?: CustomFieldEntry[] | null;
+}
+
+interface CreateItemsEntry {
+    name: string;
+    description?: string;
+    imageUrl?: string;
+    imageMetadataId?: string;
+}
+
+interface CreateItemsRequest {
+    boxId: string;
+    items: CreateItemsEntry[];
+}
+
+interface CreateItemsResult {
+    index: number;
+    item?: ItemResponse | null;
+    errors?: Record<string, string[]> | null;
+}
+
+interface CreateItemsResponse {
+    results: CreateItemsResult[];
 }
 
 interface ImageMetadataResponse {
@@ -124,7 +242,8 @@ interface ImageMetadataResponse {
     itemReferenceCount: number;
 }
 interface SearchResultResponse {
-    type: 'box' | 'item';
+    /** 'location' only comes back from a QR code lookup, never from a text search. */
+    type: 'box' | 'item' | 'location';
     rank: number; // Relevance score from full-text search
     boxId?: string;
     boxName?: string;
@@ -134,6 +253,33 @@ interface SearchResultResponse {
     itemCode?: string;
     locationId: string;
     locationName: string;
+    /** Fields that matched the query, with the matched spans. */
+    highlights?: SearchHighlight[] | null;
+    /** Names of the boxes containing the result, outermost first. */
+    containerPath?: string[] | null;
+}
+
+/** Custom field values are highlighted as 'field:' followed by the field name. */
+type SearchHighlightField = 'name' | 'code' | 'description' | `field:${string}`;
+
+interface SearchMatch {
+    start: number;
+    length: number;
+}
+
+/** Text is the field value, or a snippet of a long description; match offsets are into text. */
+interface SearchHighlight {
+    field: SearchHighlightField;
+    text: string;
+    matches: SearchMatch[];
+}
+
+/** Narrows a box and item search; unset fields do not filter. */
+interface SearchFilters {
+    locationId?: string;
+    boxId?: string;
+    type?: 'box' | 'item';
+    hasImage?: boolean;
 }
 
 interface SearchResponse {
@@ -209,8 +355,10 @@ interface StartRotationRequest {
 }
 
 // Label Print Job Models
-type LabelFormat = 'Avery94107';
+type LabelFormat = 'Avery94107' | 'Avery5160' | 'Avery22805' | 'Dymo30332' | 'Dymo30334';
 type LabelIncrementAlgorithm = 'NumericOnly' | 'Base36Suffix';
+type LabelLayout = 'Auto' | 'QrTop' | 'QrLeft';
+type LabelSymbology = 'QrCode' | 'Code128' | 'DataMatrix';
 
 interface LabelPrintJobResponse {
     id: string;
@@ -222,9 +370,21 @@ interface LabelPrintJobResponse {
     lastGeneratedIndex: number;
     totalLabelsGenerated: number;
     codeColorPattern: string;
+    template: LabelTemplate;
     createdAt: string;
 }
 
+interface LabelTemplate {
+    layout: LabelLayout;
+    showBoxName: boolean;
+    showLocationName: boolean;
+    description?: string | null;
+    showLogo: boolean;
+    showDate: boolean;
+    symbology: LabelSymbology;
+    encodeScanUrl?: boolean;
+}
+
 interface CreateLabelPrintJobRequest {
     name: string;
     labelFormat: LabelFormat;
@@ -233,6 +393,7 @@ interface CreateLabelPrintJobRequest {
     algorithmSuffixLength: number;
     startIndex: number;
     codeColorPattern: string;
+    template?: LabelTemplate;
 }
 
 interface UpdateLabelPrintJobRequest {
@@ -242,6 +403,7 @@ interface UpdateLabelPrintJobRequest {
     algorithmPrefix?: string;
     algorithmSuffixLength: number;
     codeColorPattern: string;
+    template?: LabelTemplate;
 }
 
 interface LabelCodeItem {
@@ -253,5 +415,20 @@ interface LabelPageResponse {
     jobId: string;
     labelFormat: LabelFormat;
     codeColorPattern: string;
+    template: LabelTemplate;
     labels: LabelCodeItem[];
 }
+
+interface LabelPrintJobPageResponse {
+    id: string;
+    firstLabelNumber: number;
+    lastLabelNumber: number;
+    labelCount: number;
+    labelFormat: LabelFormat;
+    generatedAt: string;
+}
+
+interface ReprintLabelsRequest {
+    firstLabelNumber: number;
+    lastLabelNumber: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * Thin promise wrapper over the IndexedDB database that mirrors locations, boxes and items
+ * and holds the outbox of changes made while offline.
+ */
+
+const DB_NAME = 'storage-labels-offline';
+const DB_VERSION = 1;
+
+export type StoreName = 'locations' | 'boxes' | 'items' | 'outbox' | 'aliases';
+
+const ALL_STORES: StoreName[] = ['locations', 'boxes', 'items', 'outbox', 'aliases'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore('locations', { keyPath: 'locationId' });
+                db.createObjectStore('boxes', { keyPath: 'boxId' }).createIndex('locationId', 'locationId');
+                db.createObjectStore('items', { keyPath: 'itemId' }).createIndex('boxId', 'boxId');
+                db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+                // Maps ids of records created offline to the ids the server assigned
+                db.createObjectStore('aliases', { keyPath: 'tempId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry if opening failed, e.g. after the user frees up storage
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/** Runs `work` in one transaction and resolves with its request's result once the transaction commits. */
+const run = async <T>(
+    stores: StoreName | StoreName[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => IDBRequest<T> | void,
+): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(stores, mode);
+        const request = work(tx);
+        tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const getRecord = <T>(store: StoreName, key: IDBValidKey) =>
+    run<T | undefined>(store, 'readonly', tx => tx.objectStore(store).get(key));
+
+export const getRecords = <T>(store: StoreName, index?: { name: string; value: IDBValidKey }) =>
+    run<T[]>(store, 'readonly', tx => {
+        const objectStore = tx.objectStore(store);
+        return index ? objectStore.index(index.name).getAll(index.value) : objectStore.getAll();
+    });
+
+export const putRecords = <T>(store: StoreName, records: T[]) =>
+    run<void>(store, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        records.forEach(record => objectStore.put(record));
+    });
+
+export const addRecord = <T>(store: StoreName, record: T) =>
+    run<IDBValidKey>(store, 'readwrite', tx => tx.objectStore(store).add(record));
+
+export const deleteRecords = (store: StoreName, keys: IDBValidKey[]) =>
+    run<void>(store, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        keys.forEach(key => objectStore.delete(key));
+    });
+
+/**
+ * Replaces every record in `store` (or in one index value of it) with `records`. Records whose
+ * key is in `keep` are left alone so unsynced local edits survive a refresh from the server.
+ */
+export const replaceRecords = <T>(
+    store: StoreName,
+    keyPath: keyof T & string,
+    records: T[],
+    keep: Set<IDBValidKey>,
+    index?: { name: string; value: IDBValidKey },
+) =>
+    run<void>(store, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        const source = index ? objectStore.index(index.name) : objectStore;
+        const incoming = new Set(records.map(record => record[keyPath] as IDBValidKey));
+        const request = source.getAllKeys(index?.value);
+        request.onsuccess = () => {
+            request.result
+                .filter(key => !incoming.has(key) && !keep.has(key))
+                .forEach(key => objectStore.delete(key));
+            records
+                .filter(record => !keep.has(record[keyPath] as IDBValidKey))
+                .forEach(record => objectStore.put(record));
+        };
+    });
+
+export const clearDatabase = () =>
+    run<void>(ALL_STORES, 'readwrite', tx => {
+        ALL_STORES.forEach(store => tx.objectStore(store).clear());
+    });
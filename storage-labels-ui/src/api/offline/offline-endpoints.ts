@@ -0,0 +1,385 @@
+import { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { BoxEndpoints, BoxPage, BoxPageQuery } from '../endpoints/box';
+import { ItemEndpoints } from '../endpoints/item';
+import { LocationEndpoints } from '../endpoints/location';
+import { deleteRecords, getRecord, getRecords, putRecords, replaceRecords } from './offline-db';
+import {
+    addChange,
+    amendCreate,
+    createTempId,
+    discardLocalRecord,
+    getPendingIds,
+    isNetworkError,
+    isTempId,
+    mergeCustomFields,
+    PendingChange,
+    resolveId,
+    toBoxRequest,
+    toItemRequest,
+} from './outbox';
+
+/** Wraps mirrored or optimistic data so callers can treat it like an API response. */
+const offlineResponse = <T>(data: T): AxiosResponse<T> => ({
+    data,
+    status: 200,
+    statusText: 'OK (offline)',
+    headers: {},
+    config: { headers: {} } as InternalAxiosRequestConfig,
+});
+
+/** Mirror writes are best effort; a full or unavailable IndexedDB must not break online use. */
+const mirror = (work: () => Promise<unknown>) => {
+    work().catch(error => console.warn('Failed to update offline mirror:', error));
+};
+
+const putUnlessPending = async <T>(store: 'boxes' | 'items' | 'locations', record: T, key: string | number) => {
+    const pending = await getPendingIds();
+    if (!pending.has(key)) {
+        await putRecords(store, [record]);
+    }
+};
+
+/** Reads from the API and refreshes the mirror, falling back to the mirror when the network is down. */
+const readThrough = async <T>(request: () => Promise<AxiosResponse<T>>, fallback: () => Promise<T | undefined>) => {
+    try {
+        return await request();
+    } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await fallback().catch(() => undefined);
+        if (cached === undefined) throw error;
+        return offlineResponse(cached);
+    }
+};
+
+/** Writes to the API, or queues the write when offline. Records that only exist locally always queue. */
+const writeThrough = async <T>(request: () => Promise<AxiosResponse<T>>, queue: () => Promise<AxiosResponse<T>>, localOnly = false) => {
+    if (localOnly || !navigator.onLine) return queue();
+    try {
+        return await request();
+    } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return queue();
+    }
+};
+
+const sortValue = (box: Box, sort: BoxSortField): string | number => {
+    switch (sort) {
+        case 'Code': return box.code;
+        case 'Updated': return box.updated;
+        case 'LastAccessed': return box.lastAccessed;
+        case 'ItemCount': return box.stats?.itemCount ?? 0;
+        default: return box.name;
+    }
+};
+
+/** Applies the box list's filter, sort and paging to mirrored boxes, roughly as the API would. */
+const pageBoxes = (boxes: Box[], query: BoxPageQuery): BoxPage => {
+    const filter = query.filter?.trim().toLowerCase();
+    const nested = query.parentBoxId
+        ? boxes.filter(box => box.parentBoxId === query.parentBoxId)
+        : query.topLevel ? boxes.filter(box => !box.parentBoxId) : boxes;
+    const matching = filter
+        ? nested.filter(box => [box.name, box.code, box.description].some(value => value?.toLowerCase().includes(filter)))
+        : nested;
+    const direction = query.descending ? -1 : 1;
+    const sorted = [...matching].sort((a, b) => {
+        const left = sortValue(a, query.sort);
+        const right = sortValue(b, query.sort);
+        const order = typeof left === 'number' && typeof right === 'number'
+            ? left - right
+            : String(left).localeCompare(String(right));
+        return order * direction || a.boxId.localeCompare(b.boxId);
+    });
+    const start = (query.pageNumber - 1) * query.pageSize;
+    return { data: sorted.slice(start, start + query.pageSize), totalCount: sorted.length };
+};
+
+const queueChange = async (change: Omit<PendingChange, 'queuedAt'>, onOutboxChange: () => void) => {
+    await addChange({ ...change, queuedAt: new Date().toISOString() });
+    onOutboxChange();
+};
+
+export const getOfflineLocationEndpoints = (online: LocationEndpoints): LocationEndpoints => ({
+    ...online,
+
+    getLocaions: () =>
+        readThrough(
+            async () => {
+                const response = await online.getLocaions();
+                mirror(() => replaceRecords('locations', 'locationId', response.data, new Set()));
+                return response;
+            },
+            () => getRecords<StorageLocation>('locations'),
+        ),
+
+    getLocation: (locationId: number) =>
+        readThrough(
+            async () => {
+                const response = await online.getLocation(locationId);
+                mirror(() => putRecords('locations', [response.data]));
+                return response;
+            },
+            () => getRecord<StorageLocation>('locations', locationId),
+        ),
+});
+
+export const getOfflineBoxEndpoints = (online: BoxEndpoints, onOutboxChange: () => void): BoxEndpoints => {
+    return {
+        ...online,
+
+        getBoxes: (locationId: number) =>
+            readThrough(
+                async () => {
+                    const response = await online.getBoxes(locationId);
+                    mirror(async () => replaceRecords('boxes', 'boxId', response.data, await getPendingIds(), { name: 'locationId', value: locationId }));
+                    return response;
+                },
+                () => getRecords<Box>('boxes', { name: 'locationId', value: locationId }),
+            ),
+
+        getBoxPage: async (locationId: number, query: BoxPageQuery) => {
+            try {
+                const page = await online.getBoxPage(locationId, query);
+                mirror(async () => {
+                    const pending = await getPendingIds();
+                    await putRecords('boxes', page.data.filter(box => !pending.has(box.boxId)));
+                });
+                return page;
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+                const cached = await getRecords<Box>('boxes', { name: 'locationId', value: locationId }).catch(() => undefined);
+                if (cached === undefined) throw error;
+                return pageBoxes(cached, query);
+            }
+        },
+
+        getBox: async (boxId: string) => {
+            const id = await resolveId(boxId);
+            if (isTempId(id)) {
+                const box = await getRecord<Box>('boxes', id);
+                if (box) return offlineResponse(box);
+            }
+            return readThrough(
+                async () => {
+                    const response = await online.getBox(id);
+                    mirror(() => putUnlessPending('boxes', response.data, id));
+                    return response;
+                },
+                () => getRecord<Box>('boxes', id),
+            );
+        },
+
+        createBox: (request: BoxRequest) =>
+            writeThrough(
+                async () => {
+                    const response = await online.createBox(request);
+                    mirror(() => putRecords('boxes', [response.data]));
+                    return response;
+                },
+                async () => {
+                    const now = new Date().toISOString();
+                    const box: Box = { ...request, boxId: createTempId(), created: now, updated: now, lastAccessed: now };
+                    await putRecords('boxes', [box]);
+                    await queueChange({ entity: 'box', action: 'create', entityId: box.boxId, payload: request, label: box.name }, onOutboxChange);
+                    return offlineResponse(box);
+                },
+            ),
+
+        updateBox: async (boxId: string, box: Box) => {
+            const id = await resolveId(boxId);
+            return writeThrough(
+                async () => {
+                    const response = await online.updateBox(id, { ...box, boxId: id });
+                    mirror(() => putRecords('boxes', [response.data]));
+                    return response;
+                },
+                async () => {
+                    const existing = await getRecord<Box>('boxes', id);
+                    // Keep the server's timestamp so replay can tell whether the server changed since
+                    const baseUpdated = existing?.updated ?? box.updated;
+                    const updated: Box = { ...box, boxId: id, customFields: mergeCustomFields(existing?.customFields, box.customFields), updated: baseUpdated };
+                    await putRecords('boxes', [updated]);
+                    if (isTempId(id)) {
+                        await amendCreate(id, toBoxRequest(updated), updated.name);
+                        onOutboxChange();
+                    } else {
+                        await queueChange({ entity: 'box', action: 'update', entityId: id, payload: updated, baseUpdated, label: updated.name }, onOutboxChange);
+                    }
+                    return offlineResponse(updated);
+                },
+                isTempId(id),
+            );
+        },
+
+        deleteBox: async (boxId: string, force?: boolean) => {
+            const id = await resolveId(boxId);
+            const removeFromMirror = async () => {
+                const items = await getRecords<ItemResponse>('items', { name: 'boxId', value: id });
+                await deleteRecords('items', items.map(item => item.itemId));
+                // Boxes inside move up a level, as they do on the server
+                const deleted = await getRecord<Box>('boxes', id);
+                if (deleted) {
+                    const siblings = await getRecords<Box>('boxes', { name: 'locationId', value: deleted.locationId });
+                    await putRecords('boxes', siblings
+                        .filter(box => box.parentBoxId === id)
+                        .map(box => ({ ...box, parentBoxId: deleted.parentBoxId ?? null })));
+                }
+                await deleteRecords('boxes', [id]);
+            };
+            return writeThrough(
+                async () => {
+                    const response = await online.deleteBox(id, force);
+                    mirror(removeFromMirror);
+                    return response;
+                },
+                async () => {
+                    const existing = await getRecord<Box>('boxes', id);
+                    await removeFromMirror();
+                    if (isTempId(id)) {
+                        await discardLocalRecord(id);
+                        onOutboxChange();
+                    } else {
+                        await queueChange({ entity: 'box', action: 'delete', entityId: id, force, baseUpdated: existing?.updated, label: existing?.name ?? 'Box' }, onOutboxChange);
+                    }
+                    return offlineResponse<never>(undefined as never);
+                },
+                isTempId(id),
+            );
+        },
+    };
+};
+
+export const getOfflineItemEndpoints = (online: ItemEndpoints, onOutboxChange: () => void): ItemEndpoints => {
+    const queueCreate = async (request: ItemRequest) => {
+        const now = new Date().toISOString();
+        const created: ItemResponse = { ...request, itemId: createTempId(), created: now, updated: now };
+        await putRecords('items', [created]);
+        await queueChange({ entity: 'item', action: 'create', entityId: created.itemId, payload: request, label: created.name }, onOutboxChange);
+        return created;
+    };
+
+    return {
+        ...online,
+
+        getItemsByBoxId: async (boxId: string) => {
+            const id = await resolveId(boxId);
+            if (isTempId(id)) {
+                return offlineResponse(await getRecords<ItemResponse>('items', { name: 'boxId', value: id }));
+            }
+            return readThrough(
+                async () => {
+                    const response = await online.getItemsByBoxId(id);
+                    mirror(async () => replaceRecords('items', 'itemId', response.data, await getPendingIds(), { name: 'boxId', value: id }));
+                    return response;
+                },
+                () => getRecords<ItemResponse>('items', { name: 'boxId', value: id }),
+            );
+        },
+
+        getItemById: async (itemId: string) => {
+            const id = await resolveId(itemId);
+            if (isTempId(id)) {
+                const item = await getRecord<ItemResponse>('items', id);
+                if (item) return offlineResponse(item);
+            }
+            return readThrough(
+                async () => {
+                    const response = await online.getItemById(id);
+                    mirror(() => putUnlessPending('items', response.data, id));
+                    return response;
+                },
+                () => getRecord<ItemResponse>('items', id),
+            );
+        },
+
+        createItem: async (item: ItemRequest) => {
+            const request = { ...item, boxId: await resolveId(item.boxId) };
+            return writeThrough(
+                async () => {
+                    const response = await online.createItem(request);
+                    mirror(() => putRecords('items', [response.data]));
+                    return response;
+                },
+                async () => offlineResponse(await queueCreate(request)),
+                isTempId(request.boxId),
+            );
+        },
+
+        createItems: async (batch: CreateItemsRequest) => {
+            const request = { ...batch, boxId: await resolveId(batch.boxId) };
+            return writeThrough(
+                async () => {
+                    const response = await online.createItems(request);
+                    mirror(() => putRecords('items', response.data.results.flatMap(result => result.item ? [result.item] : [])));
+                    return response;
+                },
+                async () => {
+                    // Queued one by one so each row replays, and can conflict, on its own
+                    const results: CreateItemsResult[] = [];
+                    for (const [index, entry] of request.items.entries()) {
+                        results.push({ index, item: await queueCreate({ ...entry, boxId: request.boxId }) });
+                    }
+                    return offlineResponse<CreateItemsResponse>({ results });
+                },
+                isTempId(request.boxId),
+            );
+        },
+
+        updateItem: async (itemId: string, item: ItemRequest) => {
+            const id = await resolveId(itemId);
+            const request = { ...item, boxId: await resolveId(item.boxId) };
+            return writeThrough(
+                async () => {
+                    const response = await online.updateItem(id, request);
+                    mirror(() => putRecords('items', [response.data]));
+                    return response;
+                },
+                async () => {
+                    const existing = await getRecord<ItemResponse>('items', id);
+                    const now = new Date().toISOString();
+                    const baseUpdated = existing?.updated;
+                    const updated: ItemResponse = {
+                        ...existing,
+                        ...request,
+                        itemId: id,
+                        customFields: mergeCustomFields(existing?.customFields, request.customFields),
+                        created: existing?.created ?? now,
+                        updated: baseUpdated ?? now,
+                    };
+                    await putRecords('items', [updated]);
+                    if (isTempId(id)) {
+                        await amendCreate(id, toItemRequest(updated), updated.name);
+                        onOutboxChange();
+                    } else {
+                        await queueChange({ entity: 'item', action: 'update', entityId: id, payload: request, baseUpdated, label: updated.name }, onOutboxChange);
+                    }
+                    return offlineResponse(updated);
+                },
+                isTempId(id) || isTempId(request.boxId),
+            );
+        },
+
+        deleteItem: async (itemId: string) => {
+            const id = await resolveId(itemId);
+            return writeThrough(
+                async () => {
+                    const response = await online.deleteItem(id);
+                    mirror(() => deleteRecords('items', [id]));
+                    return response;
+                },
+                async () => {
+                    const existing = await getRecord<ItemResponse>('items', id);
+                    await deleteRecords('items', [id]);
+                    if (isTempId(id)) {
+                        await discardLocalRecord(id);
+                        onOutboxChange();
+                    } else {
+                        await queueChange({ entity: 'item', action: 'delete', entityId: id, baseUpdated: existing?.updated, label: existing?.name ?? 'Item' }, onOutboxChange);
+                    }
+                    return offlineResponse(undefined);
+                },
+                isTempId(id),
+            );
+        },
+    };
+};
@@ -0,0 +1,305 @@
+import axios from 'axios';
+import { BoxEndpoints } from '../endpoints/box';
+import { ItemEndpoints } from '../endpoints/item';
+import { clearDatabase, deleteRecords, getRecords, putRecords } from './offline-db';
+import {
+    ChangeConflict,
+    discardLocalRecord,
+    getChanges,
+    isNetworkError,
+    isTempId,
+    PendingChange,
+    removeChanges,
+    saveAlias,
+    saveChanges,
+    toBoxRequest,
+} from './outbox';
+
+export interface SyncStatus {
+    online: boolean;
+    syncing: boolean;
+    /** Changes waiting to be replayed, excluding conflicts. */
+    pending: number;
+    conflicts: PendingChange[];
+    lastSyncedAt?: string;
+}
+
+interface SyncEndpoints {
+    Box: BoxEndpoints;
+    Item: ItemEndpoints;
+}
+
+type ReplayResult = 'complete' | 'offline';
+
+const CHANNEL_NAME = 'storage-labels-sync';
+const LOCK_NAME = 'storage-labels-sync';
+const RETRY_INTERVAL = 30 * 1000;
+
+const storeFor = (change: PendingChange) => change.entity === 'box' ? 'boxes' : 'items';
+
+/** The box a queued change puts its record in: an item's box, or the box a box is nested inside. */
+const containerOf = (change: PendingChange) => change.entity === 'item'
+    ? (change.payload as ItemRequest | undefined)?.boxId
+    : (change.payload as BoxRequest | undefined)?.parentBoxId ?? undefined;
+
+const withContainer = (change: PendingChange, boxId: string) => change.entity === 'item'
+    ? { ...(change.payload as ItemRequest), boxId }
+    : { ...(change.payload as BoxRequest), parentBoxId: boxId };
+
+const statusOf = (error: unknown) => axios.isAxiosError(error) ? error.response?.status : undefined;
+
+const describeError = (error: unknown) => {
+    const data: unknown = axios.isAxiosError(error) ? error.response?.data : undefined;
+    if (typeof data === 'string' && data) return data;
+    if (data && typeof data === 'object') {
+        if ('errors' in data && data.errors && typeof data.errors === 'object') {
+            return Object.values(data.errors as Record<string, string[]>).flat().join(' ');
+        }
+        if ('detail' in data && typeof data.detail === 'string') return data.detail;
+        if ('title' in data && typeof data.title === 'string') return data.title;
+    }
+    return error instanceof Error ? error.message : 'The server rejected this change.';
+};
+
+const conflict = (reason: string, server?: Box | ItemResponse | null): ChangeConflict => ({
+    reason,
+    server,
+    detectedAt: new Date().toISOString(),
+});
+
+/** The server's copy of the record a change targets, or null when it has been deleted. */
+const fetchServerCopy = async (api: SyncEndpoints, change: PendingChange): Promise<Box | ItemResponse | null> => {
+    try {
+        const { data } = change.entity === 'box'
+            ? await api.Box.getBox(change.entityId)
+            : await api.Item.getItemById(change.entityId);
+        return data;
+    } catch (error) {
+        if (statusOf(error) === 404) return null;
+        throw error;
+    }
+};
+
+/** Swaps a record created offline for the server's copy and points later changes at the new id. */
+const completeCreate = async (change: PendingChange, created: Box | ItemResponse) => {
+    const tempId = change.entityId;
+    const id = 'itemId' in created ? created.itemId : created.boxId;
+    if (isTempId(tempId)) {
+        await saveAlias(tempId, id);
+    }
+    await deleteRecords(storeFor(change), [tempId]);
+    await putRecords(storeFor(change), [created]);
+
+    if (change.entity === 'box') {
+        const items = await getRecords<ItemResponse>('items', { name: 'boxId', value: tempId });
+        await putRecords('items', items.map(item => ({ ...item, boxId: id })));
+        const nested = await getRecords<Box>('boxes', { name: 'locationId', value: (created as Box).locationId });
+        await putRecords('boxes', nested.filter(box => box.parentBoxId === tempId).map(box => ({ ...box, parentBoxId: id })));
+    }
+
+    const later = (await getChanges()).filter(next => next.id !== change.id);
+    await saveChanges(later
+        .filter(next => next.entityId === tempId || containerOf(next) === tempId)
+        .map(next => ({
+            ...next,
+            entityId: next.entityId === tempId ? id : next.entityId,
+            baseUpdated: next.entityId === tempId ? created.updated : next.baseUpdated,
+            payload: containerOf(next) === tempId ? withContainer(next, id) : next.payload,
+        })));
+};
+
+/** Later changes to the same record were made against the pre-replay version; move them forward. */
+const rebase = async (change: PendingChange, updated: string) => {
+    const later = (await getChanges()).filter(next => next.id !== change.id && next.entityId === change.entityId);
+    await saveChanges(later.map(next => ({ ...next, baseUpdated: updated })));
+};
+
+/** Replays one change. Returns a conflict when the server copy moved on or is gone. */
+const replayChange = async (api: SyncEndpoints, change: PendingChange): Promise<ChangeConflict | null> => {
+    if (change.action === 'create') {
+        const { data } = change.entity === 'box'
+            ? await api.Box.createBox(change.payload as BoxRequest)
+            : await api.Item.createItem(change.payload as ItemRequest);
+        await completeCreate(change, data);
+        return null;
+    }
+
+    const server = await fetchServerCopy(api, change);
+    if (server === null) {
+        // Nothing to do if someone else already deleted it
+        return change.action === 'delete' ? null : conflict('Deleted on the server while you were offline.', null);
+    }
+    if (change.baseUpdated && server.updated !== change.baseUpdated) {
+        return conflict('Changed on the server while you were offline.', server);
+    }
+
+    if (change.action === 'delete') {
+        if (change.entity === 'box') {
+            await api.Box.deleteBox(change.entityId, change.force);
+        } else {
+            await api.Item.deleteItem(change.entityId);
+        }
+        return null;
+    }
+
+    const { data } = change.entity === 'box'
+        ? await api.Box.updateBox(change.entityId, change.payload as Box)
+        : await api.Item.updateItem(change.entityId, change.payload as ItemRequest);
+    await putRecords(storeFor(change), [data]);
+    await rebase(change, data.updated);
+    return null;
+};
+
+/** Replays queued changes in order, stopping at the first sign the API is unreachable. */
+export const replayChanges = async (api: SyncEndpoints): Promise<ReplayResult> => {
+    const attempted = new Set<number>();
+    for (;;) {
+        const change = (await getChanges()).find(next =>
+            !next.conflict
+            && !attempted.has(next.id!)
+            // Items and boxes put in a box that has not synced yet wait for it
+            && !isTempId(containerOf(next) ?? ''));
+        if (!change) return 'complete';
+        attempted.add(change.id!);
+
+        try {
+            const result = await replayChange(api, change);
+            if (result) {
+                await saveChanges([{ ...change, conflict: result }]);
+            } else {
+                await removeChanges([change]);
+            }
+        } catch (error) {
+            // Signed out or no signal: leave the change queued for the next attempt
+            if (isNetworkError(error) || statusOf(error) === 401) return 'offline';
+            await saveChanges([{ ...change, conflict: conflict(describeError(error)) }]);
+        }
+    }
+};
+
+/** Re-queues a conflicting change so it overwrites the server copy, recreating the record if it was deleted. */
+const keepLocalChange = async (change: PendingChange) => {
+    const { conflict: detected, ...rest } = change;
+    if (detected?.server === null && change.action === 'update') {
+        const payload = change.entity === 'box' ? toBoxRequest(change.payload as Box) : change.payload;
+        await saveChanges([{ ...rest, action: 'create', payload, baseUpdated: undefined }]);
+        return;
+    }
+    await saveChanges([{ ...rest, baseUpdated: detected?.server?.updated ?? change.baseUpdated }]);
+};
+
+/** Drops a conflicting change and puts the server's copy back in the mirror. */
+const discardLocalChange = async (change: PendingChange) => {
+    await removeChanges([change]);
+    const server = change.conflict?.server;
+    if (change.action === 'create' && isTempId(change.entityId)) {
+        await discardLocalRecord(change.entityId);
+        await deleteRecords(storeFor(change), [change.entityId]);
+    } else if (server) {
+        await putRecords(storeFor(change), [server]);
+    } else if (server === null) {
+        await deleteRecords(storeFor(change), [change.entityId]);
+    }
+};
+
+export type OfflineSync = ReturnType<typeof createOfflineSync>;
+
+/**
+ * Tracks the outbox and replays it whenever the browser comes back online, on a retry timer,
+ * and on demand. Other tabs and providers are told about outbox changes over a BroadcastChannel,
+ * and a Web Lock keeps two of them from replaying the same change.
+ */
+export const createOfflineSync = (api: SyncEndpoints, onStatus: (status: SyncStatus) => void) => {
+    let status: SyncStatus = { online: navigator.onLine, syncing: false, pending: 0, conflicts: [] };
+    const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+    const setStatus = (next: Partial<SyncStatus>) => {
+        status = { ...status, ...next };
+        onStatus(status);
+    };
+
+    const refresh = async () => {
+        const changes = await getChanges().catch(() => [] as PendingChange[]);
+        setStatus({
+            pending: changes.filter(change => !change.conflict).length,
+            conflicts: changes.filter(change => change.conflict),
+        });
+    };
+
+    const announce = async () => {
+        channel?.postMessage('changed');
+        await refresh();
+    };
+
+    const syncNow = async () => {
+        if (status.syncing) return;
+        await refresh();
+        if (status.pending === 0) return;
+
+        setStatus({ syncing: true });
+        try {
+            const replay = () => replayChanges(api);
+            const result = 'locks' in navigator
+                ? await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => lock ? replay() : null)
+                : await replay();
+            if (result === 'complete') {
+                setStatus({ online: true, lastSyncedAt: new Date().toISOString() });
+            } else if (result === 'offline') {
+                setStatus({ online: false });
+            }
+        } finally {
+            setStatus({ syncing: false });
+            await announce();
+        }
+    };
+
+    // Nothing waits on a background sync; the retry timer tries again, so a failure is only logged
+    const syncInBackground = () =>
+        syncNow().catch(error => console.warn('Failed to sync offline changes:', error));
+
+    const handleOnline = () => {
+        setStatus({ online: true });
+        syncInBackground();
+    };
+    const handleOffline = () => setStatus({ online: false });
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (channel) channel.onmessage = () => refresh();
+    const timer = window.setInterval(() => {
+        if (status.pending > 0 && navigator.onLine) syncInBackground();
+    }, RETRY_INTERVAL);
+    refresh()
+        .then(() => {
+            if (navigator.onLine) return syncNow();
+        })
+        .catch(error => console.warn('Failed to load or sync offline changes:', error));
+
+    return {
+        /** Called by the offline endpoints whenever they queue, fold or drop a change. */
+        onOutboxChange: () => {
+            announce();
+        },
+        syncNow,
+        keepLocalChange: async (change: PendingChange) => {
+            await keepLocalChange(change);
+            await announce();
+            await syncNow();
+        },
+        discardLocalChange: async (change: PendingChange) => {
+            await discardLocalChange(change);
+            await announce();
+        },
+        /** Forgets the mirror and every unsynced change, e.g. when signing out. */
+        clear: async () => {
+            await clearDatabase();
+            await announce();
+        },
+        dispose: () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            window.clearInterval(timer);
+            channel?.close();
+        },
+    };
+};
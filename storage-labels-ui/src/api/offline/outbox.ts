@@ -0,0 +1,117 @@
+import axios from 'axios';
+import { addRecord, deleteRecords, getRecord, getRecords, putRecords } from './offline-db';
+
+export type ChangeEntity = 'box' | 'item';
+export type ChangeAction = 'create' | 'update' | 'delete';
+
+export interface ChangeConflict {
+    reason: string;
+    /** The server's copy when the change was replayed; null when it no longer exists there. */
+    server?: Box | ItemResponse | null;
+    detectedAt: string;
+}
+
+/** A box or item write made while offline, waiting to be replayed against the API. */
+export interface PendingChange {
+    id?: number;
+    entity: ChangeEntity;
+    action: ChangeAction;
+    entityId: string;
+    payload?: BoxRequest | Box | ItemRequest;
+    /** Passed through to deleteBox. */
+    force?: boolean;
+    /** The server's `updated` time the change was made against; a different one on replay is a conflict. */
+    baseUpdated?: string;
+    queuedAt: string;
+    conflict?: ChangeConflict;
+    /** Display name for the sync status list. */
+    label: string;
+}
+
+interface IdAlias {
+    tempId: string;
+    id: string;
+}
+
+const TEMP_ID_PREFIX = 'offline-';
+
+export const createTempId = () => `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+
+export const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+/** True when a request failed without reaching the API, as opposed to being rejected by it. */
+export const isNetworkError = (error: unknown) =>
+    axios.isAxiosError(error) && !error.response;
+
+export const getChanges = async () => {
+    const changes = await getRecords<PendingChange>('outbox');
+    return changes.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+export const addChange = (change: PendingChange) => addRecord('outbox', change);
+
+export const saveChanges = (changes: PendingChange[]) => putRecords('outbox', changes);
+
+export const removeChanges = (changes: PendingChange[]) =>
+    deleteRecords('outbox', changes.filter(change => change.id !== undefined).map(change => change.id as number));
+
+/** Ids of records with unsynced changes, which server refreshes must not overwrite. */
+export const getPendingIds = async () => new Set<IDBValidKey>((await getChanges()).map(change => change.entityId));
+
+export const saveAlias = (tempId: string, id: string) => putRecords<IdAlias>('aliases', [{ tempId, id }]);
+
+/** Resolves an id created offline to the server id once it has synced; other ids pass through. */
+export const resolveId = async (id: string) => {
+    if (!isTempId(id)) return id;
+    const alias = await getRecord<IdAlias>('aliases', id).catch(() => undefined);
+    return alias?.id ?? id;
+};
+
+export const toBoxRequest = (box: Box): BoxRequest => ({
+    code: box.code,
+    name: box.name,
+    locationId: box.locationId,
+    description: box.description,
+    imageUrl: box.imageUrl,
+    imageMetadataId: box.imageMetadataId,
+    parentBoxId: box.parentBoxId,
+    customFields: box.customFields ?? undefined,
+});
+
+export const toItemRequest = (item: ItemResponse): ItemRequest => ({
+    boxId: item.boxId,
+    name: item.name,
+    description: item.description,
+    imageUrl: item.imageUrl,
+    imageMetadataId: item.imageMetadataId,
+    customFields: item.customFields ?? undefined,
+});
+
+/**
+ * Applies the custom field changes of a request to a record's values. Cleared fields stay in
+ * the list with no value so replaying the record clears them on the server too.
+ */
+export const mergeCustomFields = (current: CustomFieldEntry[] | null | undefined, changes: CustomFieldEntry[] | null | undefined) => {
+    const merged = new Map((current ?? []).map(entry => [entry.customFieldId, entry]));
+    (changes ?? []).forEach(entry => merged.set(entry.customFieldId, { customFieldId: entry.customFieldId, value: entry.value?.trim() || null }));
+    return [...merged.values()];
+};
+
+/** Folds an edit to a record created offline into its queued create. */
+export const amendCreate = async (tempId: string, payload: BoxRequest | ItemRequest, label: string) => {
+    const changes = await getChanges();
+    const create = changes.find(change => change.entityId === tempId && change.action === 'create');
+    if (create) {
+        await saveChanges([{ ...create, payload, label }]);
+    }
+};
+
+/** Drops every queued change for a record that never reached the server, and for items created in it. */
+export const discardLocalRecord = async (tempId: string) => {
+    const changes = await getChanges();
+    const childIds = new Set(changes
+        .filter(change => change.entity === 'item' && change.action === 'create' && (change.payload as ItemRequest).boxId === tempId)
+        .map(change => change.entityId));
+    await removeChanges(changes.filter(change => change.entityId === tempId || childIds.has(change.entityId)));
+    await deleteRecords('items', [...childIds]);
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Navigate, Route, Routes } from 'react-router';
+import { Navigate, Route, Routes, useLocation } from 'react-router';
 import { Box, CircularProgress, Typography } from '@mui/material';
 
 import { useAuth } from '../auth/auth-provider';
@@ -12,6 +12,7 @@ import { ImagesRoutes } from './components/images/images-routes';
 import { CommonLocationsRoutes } from './components/common-locations/common-locations-routes';
 import { EncryptionKeysRoutes } from './components/encryption-keys/encryption-keys-routes';
 import { LabelRoutes } from './components/labels/label-routes';
+import { ScanPage } from './components/scan/scan-page';
 import { Preferences } from './components/user/preferences';
 import { ChangePassword } from './components/user/change-password';
 import { UserManagement } from './components/user/user-management';
@@ -33,6 +34,8 @@ export const AppRoutes: React.FunctionComponent = () => {
 }
 
 const AuthenticatedRoutes: React.FC<{ isLoading: boolean; isAuthenticated: boolean; authMode: 'Local' | 'None' | null }> = ({ isLoading, isAuthenticated, authMode }) => {
+    const location = useLocation();
+
     if (isLoading) {
         return (
             <Box
@@ -66,6 +69,7 @@ const AuthenticatedRoutes: React.FC<{ isLoading: boolean; isAuthenticated: boole
                                         <Route path="/common-locations/*" element={<CommonLocationsRoutes />} />
                                         <Route path="/encryption-keys/*" element={<EncryptionKeysRoutes />} />
                                         <Route path="/labels/*" element={<LabelRoutes />} />
+                                        <Route path="/scan/:code" element={<ScanPage />} />
                                         <Route path="/preferences" element={<Preferences />} />
                                         <Route path="/change-password" element={<ChangePassword />} />
                                         <Route path="/users" element={<UserManagement />} />
@@ -81,5 +85,6 @@ const AuthenticatedRoutes: React.FC<{ isLoading: boolean; isAuthenticated: boole
         );
     }
 
-    return <Navigate to="/login" replace />
+    // Remember the requested page so scanned deep links resume after signing in
+    return <Navigate to="/login" replace state={{ from: location }} />
 }
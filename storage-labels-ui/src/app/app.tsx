@@ -10,6 +10,7 @@ import { UserPermissionProvider } from './providers/user-permission-provider';
 import { UserProvider } from './providers/user-provider';
 import { NavigationBar } from './components/navigation-bar';
 import { SnackbarProvider } from './providers/snackbar-provider';
+import { LabelQueueProvider } from './providers/label-queue-provider';
 import { Footer } from './components/shared/footer';
 import { theme } from './theme';
 
@@ -38,10 +39,12 @@ export const App: React.FC = () => {
                                             <ApiProvider>
                                                 <UserPermissionProvider>
                                                     <UserProvider>
-                                                        <NavigationBar />
-                                                        <Container maxWidth="lg" style={{ paddingBottom: 8 }}>
-                                                            <AppRoutes />
-                                                        </Container>
+                                                        <LabelQueueProvider>
+                                                            <NavigationBar />
+                                                            <Container maxWidth="lg" style={{ paddingBottom: 8 }}>
+                                                                <AppRoutes />
+                                                            </Container>
+                                                        </LabelQueueProvider>
                                                     </UserProvider>
                                                 </UserPermissionProvider>
                                             </ApiProvider>
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { useParams, useNavigate, Link } from 'react-router';
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router';
 import {
     Box,
     Button,
@@ -13,13 +13,23 @@ import {
 import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
-import { ImageSelector, AuthenticatedImage } from '../shared';
+import {
+    ImageSelector,
+    AuthenticatedImage,
+    normalizeScannedCode,
+    SCAN_FORMATS,
+    CustomFieldInputs,
+    CustomFieldValues,
+    useCustomFields,
+    changedCustomFields,
+} from '../shared';
 import { Scanner } from '@yudiel/react-qr-scanner';
 
 type Params = Record<'locationId', string>;
 
 export const AddBox: React.FC = () => {
     const params = useParams<Params>();
+    const [searchParams] = useSearchParams();
     const navigate = useNavigate();
     const alert = useAlertMessage();
     const { Api } = useApi();
@@ -32,6 +42,23 @@ export const AddBox: React.FC = () => {
     const [saving, setSaving] = useState(false);
     const [showImageSelector, setShowImageSelector] = useState(false);
     const [showQrScanner, setShowQrScanner] = useState(false);
+    // Adding from a box's page puts the new box inside it
+    const parentBoxId = searchParams.get('parent') ?? undefined;
+    const [parentBox, setParentBox] = useState<Box | null>(null);
+    const customFields = useCustomFields(params.locationId ? Number(params.locationId) : undefined, 'Boxes');
+    const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+
+    useEffect(() => {
+        if (parentBoxId) {
+            Api.Box.getBox(parentBoxId)
+                .then(({ data }) => setParentBox(data))
+                .catch((error) => alert.addError(error));
+        }
+    }, [parentBoxId]);
+
+    const returnPath = parentBoxId
+        ? `/locations/${params.locationId}/box/${parentBoxId}`
+        : `/locations/${params.locationId}`;
 
     const hasError = (field: string, value: string) => {
         return isSubmitted && value.trim().length === 0;
@@ -41,7 +68,7 @@ export const AddBox: React.FC = () => {
         if (data && Array.isArray(data) && data.length > 0) {
             const result = data[0];
             if (result && typeof result === 'object' && 'rawValue' in result) {
-                setCode(String(result.rawValue));
+                setCode(normalizeScannedCode(String(result.rawValue)));
                 setShowQrScanner(false);
             }
         }
@@ -64,11 +91,13 @@ export const AddBox: React.FC = () => {
                 locationId: parseInt(params.locationId),
                 imageUrl,
                 imageMetadataId,
+                parentBoxId,
+                customFields: changedCustomFields({}, customFieldValues),
             };
 
             Api.Box.createBox(newBox)
                 .then(() => {
-                    navigate(`/locations/${params.locationId}`);
+                    navigate(returnPath);
                 })
                 .catch((error) => alert.addError(error))
                 .finally(() => setSaving(false));
@@ -97,6 +126,11 @@ export const AddBox: React.FC = () => {
                             textAlign: "center"
                         }}>
                         <Typography variant="h4">Add Box</Typography>
+                        {parentBox && (
+                            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                                Inside {parentBox.name}
+                            </Typography>
+                        )}
                     </Box>
                     <Box sx={{
                         margin: 2
@@ -138,6 +172,7 @@ export const AddBox: React.FC = () => {
                                         constraints={{
                                             facingMode: 'environment'
                                         }}
+                                        formats={SCAN_FORMATS}
                                         styles={{
                                             container: { width: '100%' }
                                         }}
@@ -178,6 +213,13 @@ export const AddBox: React.FC = () => {
                                 />
                             </FormControl>
 
+                            <CustomFieldInputs
+                                fields={customFields}
+                                values={customFieldValues}
+                                onChange={setCustomFieldValues}
+                                disabled={saving}
+                            />
+
                             <Box>
                                 <Typography variant="subtitle2" gutterBottom>
                                     Image
@@ -230,7 +272,7 @@ export const AddBox: React.FC = () => {
                         <Button color="primary" onClick={handleSave} disabled={saving}>
                             Add
                         </Button>
-                        <Button color="secondary" component={Link} to="..">
+                        <Button color="secondary" component={Link} to={returnPath}>
                             Cancel
                         </Button>
                     </Stack>
@@ -21,6 +21,7 @@ import {
     ListItem,
     ListItemAvatar,
     ListItemButton,
+    ListItemIcon,
     ListItemText,
     Menu,
     MenuItem,
@@ -39,21 +40,58 @@ import DriveFileMoveIcon from '@mui/icons-material/DriveFileMove';
 import LabelIcon from '@mui/icons-material/Label';
 import WarehouseIcon from '@mui/icons-material/Warehouse';
 import ImageIcon from '@mui/icons-material/Image';
+import QrCode2Icon from '@mui/icons-material/QrCode2';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import ChecklistIcon from '@mui/icons-material/Checklist';
+import InventoryIcon from '@mui/icons-material/Inventory';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { useLocation } from '../../providers/location-provider';
-import { AuthenticatedImage, SearchBar, Breadcrumbs, EmptyState, FormattedCode } from '../shared';
+import { useLabelQueue } from '../../providers/label-queue-provider';
+import {
+    AuthenticatedImage,
+    SearchBar,
+    Breadcrumbs,
+    EmptyState,
+    FormattedCode,
+    getScanResultPath,
+    CustomFieldList,
+    useCustomFields,
+} from '../shared';
+import { BulkItemEntry } from '../items/bulk-item-entry';
+import { MoveItemsDialog } from '../items/move-items-dialog';
 
 type Params = Record<'boxId', string>;
 
+const NESTED_BOX_LIMIT = 100;
+
+/** The ids of a box and every box nested inside it, which it can't be moved into. */
+const boxAndNestedIds = (boxId: string, boxes: Box[]) => {
+    const ids = new Set([boxId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const candidate of boxes) {
+            if (candidate.parentBoxId && ids.has(candidate.parentBoxId) && !ids.has(candidate.boxId)) {
+                ids.add(candidate.boxId);
+                grew = true;
+            }
+        }
+    }
+    return ids;
+};
+
 export const BoxComponent: React.FC = () => {
     const params = useParams<Params>();
     const navigate = useNavigate();
     const alert = useAlertMessage();
     const { Api } = useApi();
     const { location } = useLocation();
+    const customFields = useCustomFields(location?.locationId);
+    const { addBoxes } = useLabelQueue();
     const [box, setBox] = useState<Box | null>(null);
     const [items, setItems] = useState<ItemResponse[]>([]);
+    const [nestedBoxes, setNestedBoxes] = useState<Box[]>([]);
     const [selectedItem, setSelectedItem] = useState<ItemResponse | null>(null);
     const [itemMenuAnchor, setItemMenuAnchor] = useState<null | HTMLElement>(null);
     const [itemMenuContext, setItemMenuContext] = useState<ItemResponse | null>(null);
@@ -66,16 +104,34 @@ export const BoxComponent: React.FC = () => {
     const [forceDelete, setForceDelete] = useState(false);
     const [availableLocations, setAvailableLocations] = useState<StorageLocation[]>([]);
     const [selectedLocationId, setSelectedLocationId] = useState<number | null>(null);
+    const [destinationBoxes, setDestinationBoxes] = useState<Box[]>([]);
+    const [selectedParentBoxId, setSelectedParentBoxId] = useState('');
+    const [openQuickAdd, setOpenQuickAdd] = useState(false);
+    const [selecting, setSelecting] = useState(false);
+    const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set());
+    const [openMoveItemsDialog, setOpenMoveItemsDialog] = useState(false);
     const theme = useTheme();
 
+    const loadBox = (boxId: string) => {
+        Api.Box.getBox(boxId)
+            .then(({ data }) => {
+                setBox(data);
+                return Api.Box.getBoxPage(data.locationId, {
+                    sort: 'Name',
+                    descending: false,
+                    parentBoxId: data.boxId,
+                    pageNumber: 1,
+                    pageSize: NESTED_BOX_LIMIT,
+                });
+            })
+            .then(({ data }) => setNestedBoxes(data))
+            .catch((error) => alert.addMessage(error));
+    };
+
     useEffect(() => {
         const boxId = params.boxId;
         if (boxId) {
-            Api.Box.getBox(boxId)
-                .then(({ data }) => {
-                    setBox(data);
-                })
-                .catch((error) => alert.addMessage(error));
+            loadBox(boxId);
 
             Api.Item.getItemsByBoxId(boxId)
                 .then(({ data }) => {
@@ -86,10 +142,35 @@ export const BoxComponent: React.FC = () => {
     }, [params]);
 
     const handleItemClick = (item: ItemResponse) => {
+        if (selecting) {
+            toggleItemSelected(item.itemId);
+            return;
+        }
         setSelectedItem(item);
         setOpenModal(true);
     };
 
+    const toggleItemSelected = (itemId: string) => {
+        setSelectedItemIds(current => {
+            const next = new Set(current);
+            if (next.has(itemId)) next.delete(itemId);
+            else next.add(itemId);
+            return next;
+        });
+    };
+
+    const handleToggleSelecting = () => {
+        setSelecting(!selecting);
+        setSelectedItemIds(new Set());
+    };
+
+    const handleItemsMoved = (moved: ItemResponse[]) => {
+        const movedIds = new Set(moved.map(i => i.itemId));
+        setItems(current => current.filter(i => !movedIds.has(i.itemId)));
+        setSelectedItemIds(new Set());
+        setSelecting(false);
+    };
+
     const handleCloseModal = () => {
         setOpenModal(false);
         setSelectedItem(null);
@@ -136,8 +217,10 @@ export const BoxComponent: React.FC = () => {
         if (box && location) {
             Api.Box.deleteBox(box.boxId, forceDelete)
                 .then(() => {
-                    // Navigate back to the location
-                    navigate(`/locations/${location.locationId}`);
+                    // Navigate back to whatever the box was in
+                    navigate(box.parentBoxId
+                        ? `/locations/${location.locationId}/box/${box.parentBoxId}`
+                        : `/locations/${location.locationId}`);
                 })
                 .catch((error) => alert.addMessage(error.message));
         }
@@ -145,34 +228,56 @@ export const BoxComponent: React.FC = () => {
 
     const handleMoveBoxClick = () => {
         setBoxMenuAnchor(null);
-        // Load available locations
+        // Load available locations; the current one stays so the box can go into another box here
         Api.Location.getLocaions()
             .then(({ data }) => {
-                // Filter out the current location
-                const otherLocations = data.filter(l => l.locationId !== location?.locationId);
-                setAvailableLocations(otherLocations);
-                setSelectedLocationId(otherLocations.length > 0 ? otherLocations[0].locationId : null);
+                setAvailableLocations(data);
+                handleDestinationLocationChange(box?.locationId ?? data[0]?.locationId ?? null, box?.parentBoxId ?? '');
                 setOpenMoveBoxDialog(true);
             })
             .catch((error) => alert.addMessage(error));
     };
 
+    const handleDestinationLocationChange = (locationId: number | null, parentBoxId = '') => {
+        setSelectedLocationId(locationId);
+        setSelectedParentBoxId(parentBoxId);
+        setDestinationBoxes([]);
+        if (!locationId || !box) return;
+        Api.Box.getBoxes(locationId)
+            .then(({ data }) => {
+                const excluded = boxAndNestedIds(box.boxId, data);
+                setDestinationBoxes(data
+                    .filter(candidate => !excluded.has(candidate.boxId))
+                    .sort((a, b) => a.name.localeCompare(b.name)));
+            })
+            .catch((error) => alert.addMessage(error));
+    };
+
     const handleCloseMoveBoxDialog = () => {
         setOpenMoveBoxDialog(false);
         setSelectedLocationId(null);
+        setSelectedParentBoxId('');
     };
 
+    const isCurrentPlace = selectedLocationId === box?.locationId && selectedParentBoxId === (box?.parentBoxId ?? '');
+
     const handleConfirmMoveBox = () => {
         if (box && selectedLocationId) {
-            Api.Box.moveBox(box.boxId, selectedLocationId)
+            Api.Box.moveBox(box.boxId, selectedLocationId, selectedParentBoxId || null)
                 .then(() => {
-                    // Navigate to the box in its new location
-                    navigate(`/locations/${selectedLocationId}/box/${box.boxId}`);
+                    // Navigate to the box in its new location, or just refresh its path within this one
+                    if (selectedLocationId === box.locationId) {
+                        loadBox(box.boxId);
+                    } else {
+                        navigate(`/locations/${selectedLocationId}/box/${box.boxId}`);
+                    }
                     handleCloseMoveBoxDialog();
                 })
                 .catch((error) => {
                     if (error.response?.status === 400) {
                         alert.addMessage("You don't have permission to move boxes to the selected location. You need edit access.");
+                    } else if (error.response?.status === 409) {
+                        alert.addMessage('A box there already uses the code of this box or one inside it.');
                     } else {
                         alert.addMessage(error.message);
                     }
@@ -180,16 +285,26 @@ export const BoxComponent: React.FC = () => {
         }
     };
 
+    const handlePrintLabelClick = () => {
+        setBoxMenuAnchor(null);
+        if (box) {
+            // Queue alongside any boxes already picked so one sheet can cover them all
+            addBoxes([box], location?.name ?? '');
+            navigate('/labels/boxes');
+        }
+    };
+
     const handleQrCodeScan = (code: string) => {
         Api.Search.searchByQrCode(code)
             .then(({ data }) => {
-                // Navigate to the scanned box
-                if (data.boxId) {
-                    navigate(`/locations/${data.locationId}/box/${data.boxId}`);
+                // Navigate to the scanned box or location
+                const path = getScanResultPath(data);
+                if (path) {
+                    navigate(path);
                 }
             })
             .catch((_error) => {
-                alert.addMessage(`No box or item found with code: ${code}`);
+                alert.addMessage(`No box, item or location found with code: ${code}`);
             });
     };
 
@@ -222,13 +337,19 @@ export const BoxComponent: React.FC = () => {
                     <Breadcrumbs 
                         items={[
                             { label: location.name, path: `/locations/${box.locationId}` },
+                            ...(box.path ?? []).map(container => ({
+                                label: container.name,
+                                path: `/locations/${box.locationId}/box/${container.boxId}`
+                            })),
                             { label: box.name }
                         ]}
                     />
                 )}
                 <SearchBar
-                    placeholder="Search all boxes and items..."
+                    placeholder="Search boxes and items..."
                     onQrCodeScan={handleQrCodeScan}
+                    locationName={location?.name}
+                    boxName={box?.name}
                 />
             </Box>
             <Box sx={{
@@ -296,6 +417,41 @@ export const BoxComponent: React.FC = () => {
                                     Code: <FormattedCode code={box.code} variant="h6" />
                                 </Typography>
                                 <Typography variant="body1">{box.description || 'No description provided.'}</Typography>
+                                <Box sx={{ mt: 1 }}>
+                                    <CustomFieldList fields={customFields} entries={box.customFields} />
+                                </Box>
+                                {nestedBoxes.length > 0 && (
+                                    <List
+                                        dense
+                                        subheader={<Typography variant="subtitle1" sx={{ mt: 2 }}>Boxes inside</Typography>}
+                                    >
+                                        {nestedBoxes.map(nested => (
+                                            <ListItemButton
+                                                key={nested.boxId}
+                                                component={Link}
+                                                to={`/locations/${nested.locationId}/box/${nested.boxId}`}
+                                            >
+                                                <ListItemAvatar>
+                                                    <Avatar>
+                                                        <InventoryIcon />
+                                                    </Avatar>
+                                                </ListItemAvatar>
+                                                <ListItemText
+                                                    primary={nested.name}
+                                                    secondary={<FormattedCode code={nested.code} variant="body2" />}
+                                                />
+                                            </ListItemButton>
+                                        ))}
+                                    </List>
+                                )}
+                                <Button
+                                    size="small"
+                                    startIcon={<AddIcon />}
+                                    component={Link}
+                                    to={`/locations/${box.locationId}/box/add?parent=${box.boxId}`}
+                                >
+                                    Add Box Inside
+                                </Button>
                             </Grid>
                             {box.imageUrl && (
                                 <Grid size={{ xs: 12, md: 6 }}>
@@ -352,7 +508,59 @@ export const BoxComponent: React.FC = () => {
                         }}>
                             Items
                         </Typography>
+                        <Stack direction="row" spacing={1} sx={{ mt: 1, justifyContent: 'center' }}>
+                            <Button
+                                size="small"
+                                startIcon={<PlaylistAddIcon />}
+                                onClick={() => setOpenQuickAdd(true)}
+                            >
+                                Quick Add
+                            </Button>
+                            {items.length > 0 && (
+                                <Button
+                                    size="small"
+                                    startIcon={<ChecklistIcon />}
+                                    onClick={handleToggleSelecting}
+                                >
+                                    {selecting ? 'Done' : 'Select'}
+                                </Button>
+                            )}
+                        </Stack>
                     </Box>
+                    {selecting && (
+                        <Box
+                            sx={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                flexWrap: 'wrap',
+                                gap: 1,
+                                mx: 2,
+                                px: 2,
+                                py: 1,
+                                borderRadius: 1,
+                                bgcolor: 'action.selected'
+                            }}>
+                            <Checkbox
+                                edge="start"
+                                checked={selectedItemIds.size === items.length}
+                                indeterminate={selectedItemIds.size > 0 && selectedItemIds.size < items.length}
+                                onChange={(e) => setSelectedItemIds(e.target.checked ? new Set(items.map(i => i.itemId)) : new Set())}
+                                slotProps={{ input: { 'aria-label': 'select all items' } }}
+                            />
+                            <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                                {selectedItemIds.size} selected
+                            </Typography>
+                            <Button
+                                size="small"
+                                variant="contained"
+                                startIcon={<DriveFileMoveIcon />}
+                                disabled={selectedItemIds.size === 0}
+                                onClick={() => setOpenMoveItemsDialog(true)}
+                            >
+                                Move to box&hellip;
+                            </Button>
+                        </Box>
+                    )}
                     <Box sx={{
                         margin: 2
                     }}>
@@ -369,7 +577,7 @@ export const BoxComponent: React.FC = () => {
                                 {items.map((item) => (
                                     <ListItem
                                         key={item.itemId}
-                                        secondaryAction={
+                                        secondaryAction={selecting ? undefined :
                                             <IconButton 
                                                 edge="end" 
                                                 aria-label="item menu"
@@ -383,7 +591,21 @@ export const BoxComponent: React.FC = () => {
                                             </IconButton>
                                         }
                                     >
-                                        <ListItemButton onClick={() => handleItemClick(item)}>
+                                        <ListItemButton
+                                            onClick={() => handleItemClick(item)}
+                                            selected={selecting && selectedItemIds.has(item.itemId)}
+                                        >
+                                            {selecting && (
+                                                <ListItemIcon>
+                                                    <Checkbox
+                                                        edge="start"
+                                                        checked={selectedItemIds.has(item.itemId)}
+                                                        tabIndex={-1}
+                                                        disableRipple
+                                                        slotProps={{ input: { 'aria-label': `select ${item.name}` } }}
+                                                    />
+                                                </ListItemIcon>
+                                            )}
                                             <ListItemAvatar sx={{ display: { xs: 'none', sm: 'flex' } }}>
                                                 <Avatar>
                                                     <LabelIcon />
@@ -416,6 +638,20 @@ export const BoxComponent: React.FC = () => {
                 </Box>
                 </Paper>
             </Box>
+            {/* Rapid entry for packing several items at once */}
+            <BulkItemEntry
+                open={openQuickAdd}
+                boxId={box.boxId}
+                onClose={() => setOpenQuickAdd(false)}
+                onCreated={(created) => setItems(current => [...current, ...created])}
+            />
+            <MoveItemsDialog
+                open={openMoveItemsDialog}
+                items={items.filter(i => selectedItemIds.has(i.itemId))}
+                sourceBoxId={box.boxId}
+                onClose={() => setOpenMoveItemsDialog(false)}
+                onMoved={handleItemsMoved}
+            />
             {/* Item Detail Modal */}
             <Modal
                 open={openModal}
@@ -433,6 +669,7 @@ export const BoxComponent: React.FC = () => {
                                     {selectedItem.description}
                                 </Typography>
                             )}
+                            <CustomFieldList fields={customFields} entries={selectedItem.customFields} />
                             {selectedItem.imageUrl ? (
                                 <Box
                                     sx={{
@@ -547,7 +784,13 @@ export const BoxComponent: React.FC = () => {
                     onClick={handleMoveBoxClick}
                 >
                     <DriveFileMoveIcon sx={{ mr: 1 }} fontSize="small" />
-                    Move to Location
+                    Move Box
+                </MenuItem>
+                <MenuItem 
+                    onClick={handlePrintLabelClick}
+                >
+                    <QrCode2Icon sx={{ mr: 1 }} fontSize="small" />
+                    Print Label
                 </MenuItem>
                 <MenuItem 
                     onClick={handleDeleteBoxClick}
@@ -563,41 +806,47 @@ export const BoxComponent: React.FC = () => {
                 aria-labelledby="move-box-dialog-title"
             >
                 <DialogTitle id="move-box-dialog-title">
-                    Move Box to Another Location
+                    Move Box
                 </DialogTitle>
                 <DialogContent>
                     <DialogContentText sx={{ mb: 2 }}>
-                        Select the location where you want to move &ldquo;{box?.name}&rdquo;.
+                        Select where you want to move &ldquo;{box?.name}&rdquo;. Any boxes inside it move with it.
                     </DialogContentText>
-                    {availableLocations.length === 0 ? (
-                        <Typography variant="body2" sx={{
-                            color: "text.secondary"
-                        }}>
-                            No other locations available. Please create another location first.
-                        </Typography>
-                    ) : (
-                        <FormControl fullWidth>
-                            <FormLabel>Destination Location</FormLabel>
-                            <Select
-                                value={selectedLocationId || ''}
-                                onChange={(e) => setSelectedLocationId(Number(e.target.value))}
-                                variant="standard"
-                            >
-                                {availableLocations.map((loc) => (
-                                    <MenuItem key={loc.locationId} value={loc.locationId}>
-                                        {loc.name}
-                                    </MenuItem>
-                                ))}
-                            </Select>
-                        </FormControl>
-                    )}
+                    <FormControl fullWidth>
+                        <FormLabel>Destination Location</FormLabel>
+                        <Select
+                            value={selectedLocationId || ''}
+                            onChange={(e) => handleDestinationLocationChange(Number(e.target.value))}
+                            variant="standard"
+                        >
+                            {availableLocations.map((loc) => (
+                                <MenuItem key={loc.locationId} value={loc.locationId}>
+                                    {loc.name}
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <FormControl fullWidth sx={{ mt: 2 }}>
+                        <FormLabel>Inside Box</FormLabel>
+                        <Select
+                            value={selectedParentBoxId}
+                            onChange={(e) => setSelectedParentBoxId(e.target.value)}
+                            variant="standard"
+                            displayEmpty
+                        >
+                            <MenuItem value="">Not inside a box</MenuItem>
+                            {destinationBoxes.map((candidate) => (
+                                <MenuItem key={candidate.boxId} value={candidate.boxId}>
+                                    {candidate.name}
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
                 </DialogContent>
                 <DialogActions>
-                    {availableLocations.length > 0 && (
-                        <Button onClick={handleConfirmMoveBox} color="primary" autoFocus>
-                            Move
-                        </Button>
-                    )}
+                    <Button onClick={handleConfirmMoveBox} color="primary" disabled={!selectedLocationId || isCurrentPlace} autoFocus>
+                        Move
+                    </Button>
                     <Button onClick={handleCloseMoveBoxDialog} color="secondary">
                         Cancel
                     </Button>
@@ -646,6 +895,12 @@ export const BoxComponent: React.FC = () => {
                                 Are you sure you want to delete &ldquo;{box?.name}&rdquo;? This action cannot be undone.
                             </>
                         )}
+                        {nestedBoxes.length > 0 && (
+                            <>
+                                <br /><br />
+                                The {nestedBoxes.length} box{nestedBoxes.length !== 1 ? 'es' : ''} inside it will be kept and moved up a level.
+                            </>
+                        )}
                     </DialogContentText>
                 </DialogContent>
                 <DialogActions>
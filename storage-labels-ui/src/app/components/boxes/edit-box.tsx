@@ -13,7 +13,17 @@ import {
 import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
-import { ImageSelector, AuthenticatedImage } from '../shared';
+import {
+    ImageSelector,
+    AuthenticatedImage,
+    normalizeScannedCode,
+    SCAN_FORMATS,
+    CustomFieldInputs,
+    CustomFieldValues,
+    useCustomFields,
+    toCustomFieldValues,
+    changedCustomFields,
+} from '../shared';
 import { Scanner } from '@yudiel/react-qr-scanner';
 
 type Params = Record<'boxId', string>;
@@ -33,6 +43,9 @@ export const EditBox: React.FC = () => {
     const [saving, setSaving] = useState(false);
     const [showImageSelector, setShowImageSelector] = useState(false);
     const [showQrScanner, setShowQrScanner] = useState(false);
+    const customFields = useCustomFields(box?.locationId, 'Boxes');
+    const [initialCustomFieldValues, setInitialCustomFieldValues] = useState<CustomFieldValues>({});
+    const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
 
     useEffect(() => {
         const boxId = params.boxId;
@@ -45,6 +58,8 @@ export const EditBox: React.FC = () => {
                     setDescription(data.description || '');
                     setImageUrl(data.imageUrl || '');
                     setImageMetadataId(data.imageMetadataId);
+                    setInitialCustomFieldValues(toCustomFieldValues(data.customFields));
+                    setCustomFieldValues(toCustomFieldValues(data.customFields));
                 })
                 .catch((error) => alert.addError(error));
         }
@@ -54,7 +69,7 @@ export const EditBox: React.FC = () => {
         if (data && Array.isArray(data) && data.length > 0) {
             const result = data[0];
             if (result && typeof result === 'object' && 'rawValue' in result) {
-                setCode(String(result.rawValue));
+                setCode(normalizeScannedCode(String(result.rawValue)));
                 setShowQrScanner(false);
             }
         }
@@ -77,6 +92,7 @@ export const EditBox: React.FC = () => {
                 description,
                 imageUrl,
                 imageMetadataId,
+                customFields: changedCustomFields(initialCustomFieldValues, customFieldValues),
             };
 
             Api.Box.updateBox(box.boxId, updatedBox)
@@ -158,6 +174,7 @@ export const EditBox: React.FC = () => {
                                         constraints={{
                                             facingMode: 'environment'
                                         }}
+                                        formats={SCAN_FORMATS}
                                         styles={{
                                             container: { width: '100%' }
                                         }}
@@ -198,6 +215,13 @@ export const EditBox: React.FC = () => {
                                 />
                             </FormControl>
 
+                            <CustomFieldInputs
+                                fields={customFields}
+                                values={customFieldValues}
+                                onChange={setCustomFieldValues}
+                                disabled={saving}
+                            />
+
                             <Box>
                                 <Typography variant="subtitle2" gutterBottom>
                                     Image
@@ -11,7 +11,8 @@ import {
 } from '@mui/material';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
-import { ImageSelector, AuthenticatedImage } from '../shared';
+import { useLocation } from '../../providers/location-provider';
+import { ImageSelector, AuthenticatedImage, CustomFieldInputs, CustomFieldValues, useCustomFields, changedCustomFields } from '../shared';
 
 type Params = Record<'boxId', string>;
 
@@ -27,6 +28,9 @@ export const AddItem: React.FC = () => {
     const [isSubmitted, setIsSubmitted] = useState(false);
     const [saving, setSaving] = useState(false);
     const [showImageSelector, setShowImageSelector] = useState(false);
+    const { location } = useLocation();
+    const customFields = useCustomFields(location?.locationId, 'Items');
+    const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
 
     const hasError = (field: string, value: string) => {
         return isSubmitted && value.trim().length === 0;
@@ -44,6 +48,7 @@ export const AddItem: React.FC = () => {
                 description,
                 imageUrl,
                 imageMetadataId,
+                customFields: changedCustomFields({}, customFieldValues),
             };
 
             Api.Item.createItem(newItem)
@@ -107,6 +112,13 @@ export const AddItem: React.FC = () => {
                                 />
                             </FormControl>
 
+                            <CustomFieldInputs
+                                fields={customFields}
+                                values={customFieldValues}
+                                onChange={setCustomFieldValues}
+                                disabled={saving}
+                            />
+
                             <Box>
                                 <Typography variant="subtitle2" gutterBottom>
                                     Image
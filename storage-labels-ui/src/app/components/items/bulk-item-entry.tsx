@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    Avatar,
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    IconButton,
+    List,
+    ListItem,
+    ListItemAvatar,
+    TextField,
+    Typography,
+    useMediaQuery,
+    useTheme,
+} from '@mui/material';
+import CameraAltIcon from '@mui/icons-material/CameraAlt';
+import CloseIcon from '@mui/icons-material/Close';
+import { useConfirm } from 'material-ui-confirm';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { useSnackbar } from '../../providers/snackbar-provider';
+import { ImageCapture } from '../shared';
+
+interface BulkItemEntryProps {
+    open: boolean;
+    boxId: string;
+    onClose: () => void;
+    onCreated: (items: ItemResponse[]) => void;
+}
+
+interface EntryRow {
+    key: number;
+    name: string;
+    photo?: File;
+    previewUrl?: string;
+    error?: string;
+}
+
+/** One item per non-blank line, so a list pasted from notes or a spreadsheet column becomes rows. */
+const splitLines = (text: string) =>
+    text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+const describeErrors = (errors: Record<string, string[]>) =>
+    Object.values(errors).flat().join(' ');
+
+/**
+ * Rapid entry for packing a box: each Enter adds a row, pasted lists add a row per line, and
+ * every row can carry a photo. Rows are created in one batch; rows the API rejects stay in
+ * the list with their error so they can be fixed and saved again.
+ */
+export const BulkItemEntry: React.FC<BulkItemEntryProps> = ({ open, boxId, onClose, onCreated }) => {
+    const { Api } = useApi();
+    const alert = useAlertMessage();
+    const snackbar = useSnackbar();
+    const confirm = useConfirm();
+    const theme = useTheme();
+    const fullScreen = useMediaQuery(theme.breakpoints.down('sm'));
+    const [rows, setRows] = useState<EntryRow[]>([]);
+    const [input, setInput] = useState('');
+    const [captureFor, setCaptureFor] = useState<number | null>(null);
+    const [saving, setSaving] = useState(false);
+    const nextKey = useRef(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const rowRefs = useRef(new Map<number, HTMLInputElement>());
+
+    useEffect(() => {
+        if (!open) {
+            rows.forEach(row => row.previewUrl && URL.revokeObjectURL(row.previewUrl));
+            setRows([]);
+            setInput('');
+        }
+    }, [open]);
+
+    const addRows = (names: string[]) => {
+        setRows(current => [
+            ...current,
+            ...names.map(name => ({ key: nextKey.current++, name })),
+        ]);
+    };
+
+    const updateRow = (key: number, changes: Partial<EntryRow>) => {
+        setRows(current => current.map(row => row.key === key ? { ...row, ...changes } : row));
+    };
+
+    const removeRow = (key: number) => {
+        setRows(current => {
+            const row = current.find(r => r.key === key);
+            if (row?.previewUrl) URL.revokeObjectURL(row.previewUrl);
+            return current.filter(r => r.key !== key);
+        });
+        inputRef.current?.focus();
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.ctrlKey || e.metaKey) {
+                handleSave();
+            } else if (input.trim()) {
+                addRows([input.trim()]);
+                setInput('');
+            }
+        } else if (e.key === 'ArrowUp' && rows.length > 0) {
+            e.preventDefault();
+            rowRefs.current.get(rows[rows.length - 1].key)?.focus();
+        }
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+        const lines = splitLines(e.clipboardData.getData('text'));
+        if (lines.length > 1) {
+            e.preventDefault();
+            addRows(lines);
+        }
+    };
+
+    const handleRowKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+        const row = rows[index];
+        if (e.key === 'Enter' || (e.key === 'ArrowDown' && index === rows.length - 1)) {
+            e.preventDefault();
+            inputRef.current?.focus();
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            rowRefs.current.get(rows[index + 1].key)?.focus();
+        } else if (e.key === 'ArrowUp' && index > 0) {
+            e.preventDefault();
+            rowRefs.current.get(rows[index - 1].key)?.focus();
+        } else if (e.key === 'Backspace' && row.name === '') {
+            e.preventDefault();
+            removeRow(row.key);
+        }
+    };
+
+    const handleCapture = (file: File) => {
+        if (captureFor === null) return;
+        const row = rows.find(r => r.key === captureFor);
+        if (row?.previewUrl) URL.revokeObjectURL(row.previewUrl);
+        updateRow(captureFor, { photo: file, previewUrl: URL.createObjectURL(file), error: undefined });
+        setCaptureFor(null);
+        inputRef.current?.focus();
+    };
+
+    /** Uploads each row's photo. Rows whose upload fails are marked and left out of the batch. */
+    const uploadPhotos = async (pending: EntryRow[]) => {
+        const uploaded = new Map<number, string>();
+        const failed = new Map<number, string>();
+        for (const row of pending.filter(r => r.photo)) {
+            try {
+                const { data: imageUrl } = await Api.Image.uploadImage(row.photo!);
+                uploaded.set(row.key, imageUrl);
+            } catch {
+                failed.set(row.key, 'Photo upload failed.');
+            }
+        }
+
+        // Uploads only return the url; one reload of the image list gives every new image's id
+        const imageIds = new Map<string, string>();
+        if (uploaded.size > 0) {
+            const { data: images } = await Api.Image.getUserImages();
+            images.forEach(image => imageIds.set(image.url, image.imageId));
+        }
+
+        return { uploaded, failed, imageIds };
+    };
+
+    const handleSave = async () => {
+        if (saving) return;
+        // A name still in the entry field is saved too, as if Enter had been pressed
+        const typed: EntryRow[] = input.trim() ? [{ key: nextKey.current++, name: input.trim() }] : [];
+        const pending = [...rows, ...typed].filter(row => row.name.trim());
+        if (pending.length === 0) return;
+
+        if (typed.length > 0) {
+            setRows(current => [...current, ...typed]);
+            setInput('');
+        }
+        setSaving(true);
+        try {
+            const { uploaded, failed, imageIds } = await uploadPhotos(pending);
+            const batch = pending.filter(row => !failed.has(row.key));
+            const errors = new Map(failed);
+            const created: ItemResponse[] = [];
+
+            if (batch.length > 0) {
+                const { data } = await Api.Item.createItems({
+                    boxId,
+                    items: batch.map(row => {
+                        const imageUrl = uploaded.get(row.key);
+                        return {
+                            name: row.name.trim(),
+                            imageUrl,
+                            imageMetadataId: imageUrl ? imageIds.get(imageUrl) : undefined,
+                        };
+                    }),
+                });
+                data.results.forEach(result => {
+                    const row = batch[result.index];
+                    if (result.item) {
+                        created.push(result.item);
+                    } else {
+                        errors.set(row.key, describeErrors(result.errors ?? {}) || 'Could not create this item.');
+                    }
+                });
+            }
+
+            const createdKeys = new Set(batch.filter(row => !errors.has(row.key)).map(row => row.key));
+            rows.filter(row => createdKeys.has(row.key) && row.previewUrl)
+                .forEach(row => URL.revokeObjectURL(row.previewUrl!));
+            setRows(current => current
+                .filter(row => !createdKeys.has(row.key) && row.name.trim())
+                .map(row => ({ ...row, error: errors.get(row.key) })));
+
+            if (created.length > 0) {
+                onCreated(created);
+                snackbar.showSuccess(`Added ${created.length} item${created.length !== 1 ? 's' : ''}`);
+            }
+            if (errors.size === 0) {
+                onClose();
+            }
+        } catch (error) {
+            alert.addError(error);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleClose = async () => {
+        if (saving) return;
+        if (rows.length > 0) {
+            const { confirmed } = await confirm({
+                title: 'Discard Items',
+                description: `${rows.length} item${rows.length !== 1 ? 's have' : ' has'} not been saved. Close without saving?`,
+                confirmationText: 'Discard',
+                cancellationText: 'Keep Editing',
+            });
+            if (!confirmed) return;
+        }
+        onClose();
+    };
+
+    const pendingCount = rows.filter(row => row.name.trim()).length + (input.trim() ? 1 : 0);
+
+    return (
+        <React.Fragment>
+            <Dialog open={open} onClose={handleClose} fullScreen={fullScreen} fullWidth maxWidth="sm">
+                <DialogTitle>Quick Add Items</DialogTitle>
+                <DialogContent>
+                    <TextField
+                        inputRef={inputRef}
+                        autoFocus
+                        fullWidth
+                        variant="standard"
+                        label="Item name"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        onKeyDown={handleInputKeyDown}
+                        onPaste={handlePaste}
+                        disabled={saving}
+                        helperText="Press Enter to add each item. Paste a list to add one item per line. Ctrl+Enter saves."
+                        sx={{ mb: 1 }}
+                    />
+                    {rows.length === 0 ? (
+                        <Typography variant="body2" sx={{ color: 'text.secondary', py: 2 }}>
+                            Items you add will be listed here until you save them.
+                        </Typography>
+                    ) : (
+                        <List dense>
+                            {rows.map((row, index) => (
+                                <ListItem
+                                    key={row.key}
+                                    disableGutters
+                                    secondaryAction={
+                                        <IconButton
+                                            edge="end"
+                                            aria-label="remove item"
+                                            title="Remove"
+                                            onClick={() => removeRow(row.key)}
+                                            disabled={saving}
+                                        >
+                                            <CloseIcon />
+                                        </IconButton>
+                                    }
+                                >
+                                    <ListItemAvatar>
+                                        <IconButton
+                                            aria-label="add photo"
+                                            title={row.photo ? 'Replace photo' : 'Add photo'}
+                                            onClick={() => setCaptureFor(row.key)}
+                                            disabled={saving}
+                                            sx={{ p: 0 }}
+                                        >
+                                            <Avatar src={row.previewUrl} variant="rounded">
+                                                <CameraAltIcon />
+                                            </Avatar>
+                                        </IconButton>
+                                    </ListItemAvatar>
+                                    <Box sx={{ flexGrow: 1, pr: 2 }}>
+                                        <TextField
+                                            inputRef={(el: HTMLInputElement | null) => {
+                                                if (el) rowRefs.current.set(row.key, el);
+                                                else rowRefs.current.delete(row.key);
+                                            }}
+                                            fullWidth
+                                            variant="standard"
+                                            value={row.name}
+                                            onChange={(e) => updateRow(row.key, { name: e.target.value, error: undefined })}
+                                            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => handleRowKeyDown(e, index)}
+                                            error={Boolean(row.error)}
+                                            helperText={row.error}
+                                            disabled={saving}
+                                            slotProps={{ htmlInput: { 'aria-label': `Item ${index + 1} name` } }}
+                                        />
+                                    </Box>
+                                </ListItem>
+                            ))}
+                        </List>
+                    )}
+                </DialogContent>
+                <DialogActions>
+                    {saving && <CircularProgress size={24} sx={{ mr: 1 }} />}
+                    <Button onClick={handleSave} color="primary" disabled={saving || pendingCount === 0}>
+                        {pendingCount > 0 ? `Save ${pendingCount} Item${pendingCount !== 1 ? 's' : ''}` : 'Save'}
+                    </Button>
+                    <Button onClick={handleClose} color="secondary" disabled={saving}>
+                        Close
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <ImageCapture
+                open={captureFor !== null}
+                onClose={() => setCaptureFor(null)}
+                onCapture={handleCapture}
+            />
+        </React.Fragment>
+    );
+};
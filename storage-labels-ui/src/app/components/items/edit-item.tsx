@@ -11,7 +11,16 @@ import {
 } from '@mui/material';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
-import { ImageSelector, AuthenticatedImage } from '../shared';
+import { useLocation } from '../../providers/location-provider';
+import {
+    ImageSelector,
+    AuthenticatedImage,
+    CustomFieldInputs,
+    CustomFieldValues,
+    useCustomFields,
+    toCustomFieldValues,
+    changedCustomFields,
+} from '../shared';
 
 type Params = Record<'itemId', string>;
 
@@ -28,6 +37,10 @@ export const EditItem: React.FC = () => {
     const [isSubmitted, setIsSubmitted] = useState(false);
     const [saving, setSaving] = useState(false);
     const [showImageSelector, setShowImageSelector] = useState(false);
+    const { location } = useLocation();
+    const customFields = useCustomFields(location?.locationId, 'Items');
+    const [initialCustomFieldValues, setInitialCustomFieldValues] = useState<CustomFieldValues>({});
+    const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
 
     useEffect(() => {
         const itemId = params.itemId;
@@ -39,6 +52,8 @@ export const EditItem: React.FC = () => {
                     setDescription(data.description || '');
                     setImageUrl(data.imageUrl || '');
                     setImageMetadataId(data.imageMetadataId);
+                    setInitialCustomFieldValues(toCustomFieldValues(data.customFields));
+                    setCustomFieldValues(toCustomFieldValues(data.customFields));
                 })
                 .catch((error) => alert.addError(error));
         }
@@ -56,6 +71,7 @@ export const EditItem: React.FC = () => {
                 description,
                 imageUrl,
                 imageMetadataId,
+                customFields: changedCustomFields(initialCustomFieldValues, customFieldValues),
             };
 
             Api.Item.updateItem(item.itemId, updatedItem)
@@ -126,6 +142,13 @@ export const EditItem: React.FC = () => {
                                 />
                             </FormControl>
 
+                            <CustomFieldInputs
+                                fields={customFields}
+                                values={customFieldValues}
+                                onChange={setCustomFieldValues}
+                                disabled={saving}
+                            />
+
                             <Box>
                                 <Typography variant="subtitle2" gutterBottom>
                                     Image
@@ -1,3 +1,5 @@
 export * from './add-item';
 export * from './edit-item';
 export * from './item-routes';
+export * from './bulk-item-entry';
+export * from './move-items-dialog';
@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    Alert,
+    Avatar,
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    IconButton,
+    InputAdornment,
+    List,
+    ListItemAvatar,
+    ListItemButton,
+    ListItemText,
+    TextField,
+    Typography,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
+import InventoryIcon from '@mui/icons-material/Inventory';
+import CloseIcon from '@mui/icons-material/Close';
+import { Scanner } from '@yudiel/react-qr-scanner';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { FormattedCode, normalizeScannedCode, SCAN_FORMATS } from '../shared';
+
+interface MoveItemsDialogProps {
+    open: boolean;
+    items: ItemResponse[];
+    sourceBoxId: string;
+    onClose: () => void;
+    onMoved: (items: ItemResponse[]) => void;
+}
+
+const SEARCH_DELAY = 300;
+
+const canEdit = (accessLevel?: AccessLevels) => accessLevel === 'Edit' || accessLevel === 'Owner';
+
+/**
+ * Picks a destination box by searching or scanning its label, then moves the given items there.
+ * Boxes in locations the user can only view are listed but cannot be picked; the API checks
+ * the destination location's access level again on move.
+ */
+export const MoveItemsDialog: React.FC<MoveItemsDialogProps> = ({ open, items, sourceBoxId, onClose, onMoved }) => {
+    const { Api } = useApi();
+    const alert = useAlertMessage();
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResultResponse[]>([]);
+    const [searching, setSearching] = useState(false);
+    const [accessLevels, setAccessLevels] = useState<Map<string, AccessLevels>>(new Map());
+    const [destination, setDestination] = useState<SearchResultResponse | null>(null);
+    const [scannerOpen, setScannerOpen] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [moving, setMoving] = useState(false);
+    const searchTimer = useRef<number>(undefined);
+
+    useEffect(() => {
+        if (!open) return;
+        setQuery('');
+        setResults([]);
+        setDestination(null);
+        setError(null);
+        Api.Location.getLocaions()
+            .then(({ data }) => setAccessLevels(new Map(data.map(l => [String(l.locationId), l.accessLevel]))))
+            .catch((e) => alert.addError(e));
+    }, [open]);
+
+    useEffect(() => () => window.clearTimeout(searchTimer.current), []);
+
+    const search = (value: string) => {
+        if (!value.trim()) {
+            setResults([]);
+            return;
+        }
+        setSearching(true);
+        Api.Search.searchBoxesAndItems(value.trim(), { type: 'box' }, 1, 20)
+            .then(({ data }) => setResults(data.filter(r => r.boxId && r.boxId !== sourceBoxId)))
+            .catch((e) => alert.addError(e))
+            .finally(() => setSearching(false));
+    };
+
+    const handleQueryChange = (value: string) => {
+        setQuery(value);
+        window.clearTimeout(searchTimer.current);
+        searchTimer.current = window.setTimeout(() => search(value), SEARCH_DELAY);
+    };
+
+    const pick = (result: SearchResultResponse) => {
+        if (result.boxId === sourceBoxId) {
+            setError('The items are already in this box.');
+        } else if (!canEdit(accessLevels.get(result.locationId))) {
+            setError(`You need edit access to ${result.locationName} to move items into ${result.boxName}.`);
+        } else {
+            setError(null);
+            setDestination(result);
+        }
+    };
+
+    const handleScan = (code: string) => {
+        setScannerOpen(false);
+        Api.Search.searchByQrCode(code)
+            .then(({ data }) => {
+                if (data.type === 'box' && data.boxId) {
+                    pick(data);
+                } else {
+                    setError(`Code ${code} belongs to ${data.type === 'location' ? 'a location' : 'an item'}, not a box.`);
+                }
+            })
+            .catch(() => setError(`No box found with code: ${code}`));
+    };
+
+    const handleMove = () => {
+        if (!destination?.boxId) return;
+        setMoving(true);
+        Api.Item.moveItems(items.map(i => i.itemId), destination.boxId)
+            .then(({ data }) => {
+                onMoved(data);
+                onClose();
+            })
+            .catch((e) => {
+                if (e.response?.status === 400) {
+                    setError(`You don't have permission to move items into ${destination.boxName}. You need edit access.`);
+                } else {
+                    alert.addError(e);
+                }
+            })
+            .finally(() => setMoving(false));
+    };
+
+    const count = `${items.length} item${items.length !== 1 ? 's' : ''}`;
+
+    return (
+        <React.Fragment>
+            <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" aria-labelledby="move-items-dialog-title">
+                <DialogTitle id="move-items-dialog-title">
+                    Move {count} to Another Box
+                </DialogTitle>
+                <DialogContent>
+                    <DialogContentText sx={{ mb: 2 }}>
+                        Search for the destination box or scan its label.
+                    </DialogContentText>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        placeholder="Search boxes..."
+                        value={query}
+                        onChange={(e) => handleQueryChange(e.target.value)}
+                        slotProps={{
+                            input: {
+                                startAdornment: (
+                                    <InputAdornment position="start">
+                                        <SearchIcon />
+                                    </InputAdornment>
+                                ),
+                                endAdornment: (
+                                    <InputAdornment position="end">
+                                        <IconButton
+                                            color="primary"
+                                            onClick={() => setScannerOpen(true)}
+                                            edge="end"
+                                            aria-label="scan box label"
+                                            title="Scan box label"
+                                        >
+                                            <QrCodeScannerIcon />
+                                        </IconButton>
+                                    </InputAdornment>
+                                ),
+                            },
+                        }}
+                    />
+                    {error && <Alert severity="warning" sx={{ mt: 2 }}>{error}</Alert>}
+                    {destination && (
+                        <Alert severity="info" icon={<InventoryIcon />} sx={{ mt: 2 }}>
+                            Moving to <strong>{destination.boxName}</strong> in {destination.locationName}
+                        </Alert>
+                    )}
+                    {searching ? (
+                        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                            <CircularProgress size={24} />
+                        </Box>
+                    ) : query.trim() && results.length === 0 ? (
+                        <Typography variant="body2" sx={{ color: 'text.secondary', py: 2 }}>
+                            No matching boxes.
+                        </Typography>
+                    ) : (
+                        <List dense>
+                            {results.map((result) => {
+                                const editable = canEdit(accessLevels.get(result.locationId));
+                                return (
+                                    <ListItemButton
+                                        key={result.boxId}
+                                        selected={destination?.boxId === result.boxId}
+                                        onClick={() => pick(result)}
+                                        disabled={!editable}
+                                    >
+                                        <ListItemAvatar>
+                                            <Avatar>
+                                                <InventoryIcon />
+                                            </Avatar>
+                                        </ListItemAvatar>
+                                        <ListItemText
+                                            primary={result.boxName}
+                                            secondary={
+                                                <React.Fragment>
+                                                    {result.boxCode && <FormattedCode code={result.boxCode} variant="body2" />}
+                                                    {` · ${result.locationName}`}
+                                                    {!editable && ' · View only'}
+                                                </React.Fragment>
+                                            }
+                                        />
+                                    </ListItemButton>
+                                );
+                            })}
+                        </List>
+                    )}
+                </DialogContent>
+                <DialogActions>
+                    {moving && <CircularProgress size={24} sx={{ mr: 1 }} />}
+                    <Button onClick={handleMove} color="primary" disabled={!destination || moving}>
+                        Move
+                    </Button>
+                    <Button onClick={onClose} color="secondary" disabled={moving}>
+                        Cancel
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            <Dialog
+                open={scannerOpen}
+                onClose={() => setScannerOpen(false)}
+                maxWidth="sm"
+                fullWidth
+            >
+                <DialogTitle>
+                    Scan Destination Box
+                    <IconButton
+                        onClick={() => setScannerOpen(false)}
+                        sx={{
+                            position: 'absolute',
+                            right: 8,
+                            top: 8,
+                        }}
+                        aria-label="close scanner"
+                        title="Close scanner"
+                    >
+                        <CloseIcon />
+                    </IconButton>
+                </DialogTitle>
+                <DialogContent>
+                    <Scanner
+                        onScan={(detectedCodes) => {
+                            const code = normalizeScannedCode(detectedCodes[0]?.rawValue ?? '');
+                            if (code) {
+                                handleScan(code);
+                            }
+                        }}
+                        constraints={{
+                            facingMode: 'environment'
+                        }}
+                        formats={SCAN_FORMATS}
+                    />
+                </DialogContent>
+            </Dialog>
+        </React.Fragment>
+    );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import {
+    Box,
+    Button,
+    Chip,
+    FormControl,
+    InputLabel,
+    MenuItem,
+    Paper,
+    Select,
+    Stack,
+    Typography,
+    useTheme,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import ClearAllIcon from '@mui/icons-material/ClearAll';
+import LabelIcon from '@mui/icons-material/Label';
+import { useNavigate } from 'react-router';
+import { DEFAULT_LABEL_FORMAT, getLabelFormat, getLabelsPerSheet, labelFormatList } from './label-formats';
+import { arrangeLabels, LabelPageStyle, LabelSheetList } from './label-sheet';
+import { usePrinterCalibration } from './printer-select';
+import { LabelPrintToolbar } from './label-print-toolbar';
+import { createLabelPdf } from './label-pdf';
+import { DEFAULT_LABEL_TEMPLATE, getTemplateLines } from './label-template';
+import { LabelTemplateEditor } from './label-template-editor';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { useLabelQueue } from '../../providers/label-queue-provider';
+import { useUser } from '../../providers/user-provider';
+import { EmptyState } from '../shared';
+
+/**
+ * Prints labels for boxes that already exist, using their stored codes rather than
+ * codes from a label print job. Boxes are queued from the location and box pages.
+ */
+export const BoxLabelPrintPage: React.FC = () => {
+    const navigate = useNavigate();
+    const alert = useAlertMessage();
+    const theme = useTheme();
+    const { user } = useUser();
+    const { queue, removeBox, clearQueue } = useLabelQueue();
+    const { calibrations, printerName, calibration, selectPrinter } = usePrinterCalibration();
+    const [labelFormat, setLabelFormat] = useState<LabelFormat>(DEFAULT_LABEL_FORMAT);
+    const [template, setTemplate] = useState<LabelTemplate>({ ...DEFAULT_LABEL_TEMPLATE, showBoxName: true });
+    const [startCell, setStartCell] = useState(0);
+    const [exporting, setExporting] = useState(false);
+
+    const format = getLabelFormat(labelFormat);
+    const codeColorPattern = user?.preferences?.codeColorPattern ?? '';
+    const labels = queue.map(queued => ({
+        id: queued.boxId,
+        code: queued.code,
+        details: getTemplateLines(template, { boxName: queued.name, locationName: queued.locationName }),
+    }));
+    const sheets = arrangeLabels(labels, format, startCell);
+
+    const handleFormatChange = (value: LabelFormat) => {
+        setLabelFormat(value);
+        setStartCell(0);
+    };
+
+    const handleDownloadPdf = () => {
+        setExporting(true);
+        createLabelPdf({
+            sheets,
+            format,
+            codeColorPattern,
+            template,
+            calibration,
+            resolveColor: color => color === 'default' ? '#000000' : theme.palette[color].main,
+        })
+            .then(doc => doc.save(`box-labels-${queue.length}.pdf`))
+            .catch(error => alert.addError(error))
+            .finally(() => setExporting(false));
+    };
+
+    if (queue.length === 0) {
+        return (
+            <Box sx={{ margin: 2 }}>
+                <Button startIcon={<ArrowBackIcon />} onClick={() => navigate(-1)}>
+                    Back
+                </Button>
+                <Paper sx={{ mt: 2 }}>
+                    <EmptyState
+                        icon={LabelIcon}
+                        title="No boxes queued for printing"
+                        message="Select boxes on a location page, or use “Print Label” on a box, to queue their existing codes for a label sheet."
+                        actionLabel="Go to Locations"
+                        onAction={() => navigate('/locations')}
+                    />
+                </Paper>
+            </Box>
+        );
+    }
+
+    return (
+        <Box>
+            <LabelPageStyle format={format} />
+            <LabelPrintToolbar
+                format={format}
+                startCell={startCell}
+                onStartCellChange={setStartCell}
+                calibrations={calibrations}
+                printerName={printerName}
+                onPrinterChange={selectPrinter}
+                exporting={exporting}
+                onDownloadPdf={handleDownloadPdf}
+            >
+                <Button startIcon={<ArrowBackIcon />} onClick={() => navigate(-1)}>
+                    Back
+                </Button>
+            </LabelPrintToolbar>
+            <Paper className="no-print" sx={{ mx: 2, '@media print': { display: 'none' } }}>
+                <Stack spacing={2} sx={{ p: 2 }}>
+                    <FormControl fullWidth>
+                        <InputLabel>Label Format</InputLabel>
+                        <Select
+                            variant="standard"
+                            label="Label Format"
+                            value={labelFormat}
+                            onChange={e => handleFormatChange(e.target.value as LabelFormat)}
+                        >
+                            {labelFormatList.map(definition => (
+                                <MenuItem key={definition.format} value={definition.format}>{definition.description}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <LabelTemplateEditor template={template} onChange={setTemplate} />
+                    <Box>
+                        <Typography variant="subtitle2" gutterBottom>
+                            {queue.length} box{queue.length !== 1 ? 'es' : ''} queued
+                            {getLabelsPerSheet(format) > 1 && ` (${sheets.length} sheet${sheets.length !== 1 ? 's' : ''})`}
+                        </Typography>
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                            {queue.map(queued => (
+                                <Chip
+                                    key={queued.boxId}
+                                    label={`${queued.name} (${queued.code})`}
+                                    onDelete={() => removeBox(queued.boxId)}
+                                />
+                            ))}
+                        </Box>
+                    </Box>
+                    <Box>
+                        <Button color="secondary" startIcon={<ClearAllIcon />} onClick={clearQueue}>
+                            Clear Queue
+                        </Button>
+                    </Box>
+                </Stack>
+            </Paper>
+            <LabelSheetList
+                sheets={sheets}
+                format={format}
+                codeColorPattern={codeColorPattern}
+                template={template}
+                calibration={calibration}
+                onSelectStartCell={getLabelsPerSheet(format) > 1 ? setStartCell : undefined}
+            />
+        </Box>
+    );
+};
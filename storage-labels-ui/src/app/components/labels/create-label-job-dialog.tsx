@@ -14,6 +14,7 @@ import {
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { useUser } from '../../providers/user-provider';
+import { DEFAULT_LABEL_FORMAT, labelFormatList } from './label-formats';
 
 interface CreateLabelJobDialogProps {
     open: boolean;
@@ -27,7 +28,7 @@ export const CreateLabelJobDialog: React.FC<CreateLabelJobDialogProps> = ({ open
     const { user } = useUser();
 
     const [name, setName] = useState('');
-    const [labelFormat, setLabelFormat] = useState<LabelFormat>('Avery94107');
+    const [labelFormat, setLabelFormat] = useState<LabelFormat>(DEFAULT_LABEL_FORMAT);
     const [incrementAlgorithm, setIncrementAlgorithm] = useState<LabelIncrementAlgorithm>('Base36Suffix');
     const [algorithmPrefix, setAlgorithmPrefix] = useState('');
     const [algorithmSuffixLength, setAlgorithmSuffixLength] = useState(4);
@@ -77,7 +78,7 @@ export const CreateLabelJobDialog: React.FC<CreateLabelJobDialogProps> = ({ open
 
     const resetForm = () => {
         setName('');
-        setLabelFormat('Avery94107');
+        setLabelFormat(DEFAULT_LABEL_FORMAT);
         setIncrementAlgorithm('Base36Suffix');
         setAlgorithmPrefix('');
         setAlgorithmSuffixLength(4);
@@ -112,7 +113,9 @@ export const CreateLabelJobDialog: React.FC<CreateLabelJobDialogProps> = ({ open
                         value={labelFormat}
                         onChange={e => setLabelFormat(e.target.value as LabelFormat)}
                     >
-                        <MenuItem value="Avery94107">Avery 94107 (2&quot; × 2&quot;, 12/page)</MenuItem>
+                        {labelFormatList.map(definition => (
+                            <MenuItem key={definition.format} value={definition.format}>{definition.description}</MenuItem>
+                        ))}
                     </Select>
                 </FormControl>
                 <FormControl fullWidth>
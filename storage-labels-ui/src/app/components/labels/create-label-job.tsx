@@ -15,6 +15,10 @@ import { Link, useNavigate } from 'react-router';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { useUser } from '../../providers/user-provider';
+import { DEFAULT_LABEL_FORMAT, getLabelFormat, labelFormatList } from './label-formats';
+import { DEFAULT_LABEL_TEMPLATE, previewLabelCode } from './label-template';
+import { LabelPreview, LabelTemplateEditor } from './label-template-editor';
+import { CodeColorPatternEditor, validateColorPattern } from '../shared';
 
 export const CreateLabelJobPage: React.FC = () => {
     const navigate = useNavigate();
@@ -23,12 +27,13 @@ export const CreateLabelJobPage: React.FC = () => {
     const { user } = useUser();
 
     const [name, setName] = useState('');
-    const [labelFormat, setLabelFormat] = useState<LabelFormat>('Avery94107');
+    const [labelFormat, setLabelFormat] = useState<LabelFormat>(DEFAULT_LABEL_FORMAT);
     const [incrementAlgorithm, setIncrementAlgorithm] = useState<LabelIncrementAlgorithm>('Base36Suffix');
     const [algorithmPrefix, setAlgorithmPrefix] = useState('');
     const [algorithmSuffixLength, setAlgorithmSuffixLength] = useState(4);
     const [startIndex, setStartIndex] = useState(0);
     const [codeColorPattern, setCodeColorPattern] = useState(user?.preferences?.codeColorPattern ?? '');
+    const [template, setTemplate] = useState<LabelTemplate>(DEFAULT_LABEL_TEMPLATE);
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [submitting, setSubmitting] = useState(false);
 
@@ -42,6 +47,8 @@ export const CreateLabelJobPage: React.FC = () => {
         if (algorithmSuffixLength < 1 || algorithmSuffixLength > 10) next.algorithmSuffixLength = 'Suffix length must be between 1 and 10.';
         if (startIndex < 0) next.startIndex = 'Start index must be 0 or greater.';
         if (algorithmPrefix && algorithmPrefix.length > 50) next.algorithmPrefix = 'Prefix cannot exceed 50 characters.';
+        const patternError = validateColorPattern(codeColorPattern);
+        if (patternError) next.codeColorPattern = patternError;
         setErrors(next);
         return Object.keys(next).length === 0;
     };
@@ -57,6 +64,7 @@ export const CreateLabelJobPage: React.FC = () => {
             algorithmSuffixLength,
             startIndex,
             codeColorPattern,
+            template,
         };
         Api.Label.createLabelJob(request)
             .then(() => {
@@ -67,6 +75,8 @@ export const CreateLabelJobPage: React.FC = () => {
             .finally(() => setSubmitting(false));
     };
 
+    const previewCode = previewLabelCode(algorithmPrefix.trim(), incrementAlgorithm, algorithmSuffixLength, startIndex);
+
     return (
         <React.Fragment>
             <Box>
@@ -98,7 +108,9 @@ export const CreateLabelJobPage: React.FC = () => {
                                     onChange={e => setLabelFormat(e.target.value as LabelFormat)}
                                     disabled={submitting}
                                 >
-                                    <MenuItem value="Avery94107">Avery 94107 (2&quot; × 2&quot;, 12/page)</MenuItem>
+                                    {labelFormatList.map(definition => (
+                                        <MenuItem key={definition.format} value={definition.format}>{definition.description}</MenuItem>
+                                    ))}
                                 </Select>
                             </FormControl>
                             <FormControl fullWidth>
@@ -152,17 +164,21 @@ export const CreateLabelJobPage: React.FC = () => {
                                     slotProps={{ htmlInput: { min: 0 } }}
                                 />
                             </FormControl>
-                            <FormControl fullWidth>
-                                <TextField
-                                    variant="standard"
-                                    label="Code Color Pattern"
-                                    value={codeColorPattern}
-                                    onChange={e => setCodeColorPattern(e.target.value)}
-                                    helperText="Pattern used to color-highlight the code on labels (e.g. 3:primary,4:warning,*)"
-                                    disabled={submitting}
-                                    slotProps={{ htmlInput: { maxLength: 200 } }}
-                                />
-                            </FormControl>
+                            <CodeColorPatternEditor
+                                value={codeColorPattern}
+                                onChange={setCodeColorPattern}
+                                sampleCode={previewCode}
+                                helperText={errors.codeColorPattern ?? 'Pattern used to color-highlight the code on labels (e.g. 3:primary,4:warning,*)'}
+                                disabled={submitting}
+                            />
+                            <Typography variant="h6">Label Content</Typography>
+                            <LabelTemplateEditor template={template} onChange={setTemplate} disabled={submitting} />
+                            <LabelPreview
+                                format={getLabelFormat(labelFormat)}
+                                template={template}
+                                codeColorPattern={codeColorPattern}
+                                code={previewCode}
+                            />
                         </Stack>
                     </Box>
                     <Stack
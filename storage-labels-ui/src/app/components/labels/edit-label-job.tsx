@@ -14,6 +14,10 @@ import {
 } from '@mui/material';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
+import { DEFAULT_LABEL_FORMAT, getLabelFormat, labelFormatList } from './label-formats';
+import { DEFAULT_LABEL_TEMPLATE, previewLabelCode } from './label-template';
+import { LabelPreview, LabelTemplateEditor } from './label-template-editor';
+import { CodeColorPatternEditor, validateColorPattern } from '../shared';
 
 type Params = Record<'jobId', string>;
 
@@ -25,11 +29,12 @@ export const EditLabelJobPage: React.FC = () => {
 
     const [job, setJob] = useState<LabelPrintJobResponse | null>(null);
     const [name, setName] = useState('');
-    const [labelFormat, setLabelFormat] = useState<LabelFormat>('Avery94107');
+    const [labelFormat, setLabelFormat] = useState<LabelFormat>(DEFAULT_LABEL_FORMAT);
     const [incrementAlgorithm, setIncrementAlgorithm] = useState<LabelIncrementAlgorithm>('Base36Suffix');
     const [algorithmPrefix, setAlgorithmPrefix] = useState('');
     const [algorithmSuffixLength, setAlgorithmSuffixLength] = useState(4);
     const [codeColorPattern, setCodeColorPattern] = useState('');
+    const [template, setTemplate] = useState<LabelTemplate>(DEFAULT_LABEL_TEMPLATE);
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [saving, setSaving] = useState(false);
 
@@ -45,6 +50,7 @@ export const EditLabelJobPage: React.FC = () => {
                     setAlgorithmPrefix(data.algorithmPrefix ?? '');
                     setAlgorithmSuffixLength(data.algorithmSuffixLength);
                     setCodeColorPattern(data.codeColorPattern);
+                    setTemplate(data.template ?? DEFAULT_LABEL_TEMPLATE);
                 })
                 .catch(() => alert.addMessage('Failed to load label job.'));
         }
@@ -57,6 +63,8 @@ export const EditLabelJobPage: React.FC = () => {
             next.algorithmSuffixLength = 'Suffix length must be between 1 and 10.';
         if (algorithmPrefix && algorithmPrefix.length > 50)
             next.algorithmPrefix = 'Prefix cannot exceed 50 characters.';
+        const patternError = validateColorPattern(codeColorPattern);
+        if (patternError) next.codeColorPattern = patternError;
         setErrors(next);
         return Object.keys(next).length === 0;
     };
@@ -71,6 +79,7 @@ export const EditLabelJobPage: React.FC = () => {
             algorithmPrefix: algorithmPrefix.trim() || undefined,
             algorithmSuffixLength,
             codeColorPattern,
+            template,
         };
         Api.Label.updateLabelJob(job.id, request)
             .then(() => {
@@ -85,6 +94,8 @@ export const EditLabelJobPage: React.FC = () => {
         return null;
     }
 
+    const previewCode = previewLabelCode(algorithmPrefix.trim(), incrementAlgorithm, algorithmSuffixLength, job.lastGeneratedIndex);
+
     return (
         <React.Fragment>
             <Box>
@@ -116,7 +127,9 @@ export const EditLabelJobPage: React.FC = () => {
                                 onChange={e => setLabelFormat(e.target.value as LabelFormat)}
                                 disabled={saving}
                             >
-                                <MenuItem value="Avery94107">Avery 94107 (2&quot; × 2&quot;, 12/page)</MenuItem>
+                                {labelFormatList.map(definition => (
+                                    <MenuItem key={definition.format} value={definition.format}>{definition.description}</MenuItem>
+                                ))}
                             </Select>
                         </FormControl>
                         <FormControl fullWidth>
@@ -157,17 +170,21 @@ export const EditLabelJobPage: React.FC = () => {
                                 slotProps={{ htmlInput: { min: 1, max: 10 } }}
                             />
                         </FormControl>
-                        <FormControl fullWidth>
-                            <TextField
-                                variant="standard"
-                                label="Code Color Pattern"
-                                value={codeColorPattern}
-                                onChange={e => setCodeColorPattern(e.target.value)}
-                                helperText="Pattern used to color-highlight the code on labels (e.g. 3:primary,4:warning,*)"
-                                disabled={saving}
-                                slotProps={{ htmlInput: { maxLength: 200 } }}
-                            />
-                        </FormControl>
+                        <CodeColorPatternEditor
+                            value={codeColorPattern}
+                            onChange={setCodeColorPattern}
+                            sampleCode={previewCode}
+                            helperText={errors.codeColorPattern ?? 'Pattern used to color-highlight the code on labels (e.g. 3:primary,4:warning,*)'}
+                            disabled={saving}
+                        />
+                        <Typography variant="h6">Label Content</Typography>
+                        <LabelTemplateEditor template={template} onChange={setTemplate} disabled={saving} />
+                        <LabelPreview
+                            format={getLabelFormat(labelFormat)}
+                            template={template}
+                            codeColorPattern={codeColorPattern}
+                            code={previewCode}
+                        />
                     </Stack>
                     </Box>
                     <Stack
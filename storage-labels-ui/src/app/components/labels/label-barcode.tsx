@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Box } from '@mui/material';
+import { QRCodeSVG } from 'qrcode.react';
+import { toSVG } from 'bwip-js';
+import { LabelFormatDefinition } from './label-formats';
+
+const PIXELS_PER_INCH = 96;
+// Keeps a linear barcode's quiet zone clear of the label edge
+const LINEAR_INSET = 8 / PIXELS_PER_INCH;
+
+export interface BarcodeSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * Physical size of the barcode in inches. 2D symbologies use the format's QR size;
+ * Code 128 is a short wide strip so its bars stay wide enough to scan.
+ */
+export const getBarcodeSize = (format: LabelFormatDefinition, symbology: LabelSymbology, qrLeft: boolean): BarcodeSize => {
+    if (symbology !== 'Code128') {
+        return { width: format.qrSize, height: format.qrSize };
+    }
+    const width = qrLeft
+        ? Math.min(format.qrSize * 1.5, format.cellWidth * 0.55)
+        : format.cellWidth - 2 * LINEAR_INSET;
+    return { width, height: format.qrSize * 0.45 };
+};
+
+/**
+ * Renders a code as SVG markup in the given symbology. Linear barcodes stretch to fill
+ * their box; 2D codes keep their aspect ratio. Throws if the code cannot be encoded.
+ */
+export const createBarcodeMarkup = (code: string, symbology: LabelSymbology) => {
+    if (symbology === 'QrCode') {
+        return renderToStaticMarkup(React.createElement(QRCodeSVG, { value: code, marginSize: 0, level: 'M' }));
+    }
+    if (symbology === 'Code128') {
+        const svg = toSVG({ bcid: 'code128', text: code, scale: 2, height: 10 });
+        return svg.replace('<svg ', '<svg preserveAspectRatio="none" ');
+    }
+    return toSVG({ bcid: 'datamatrix', text: code, scale: 2 });
+};
+
+interface LabelBarcodeProps {
+    code: string;
+    symbology: LabelSymbology;
+    size: BarcodeSize;
+}
+
+export const LabelBarcode: React.FC<LabelBarcodeProps> = ({ code, symbology, size }) => {
+    const markup = useMemo(() => {
+        if (symbology === 'QrCode') return null;
+        try {
+            return createBarcodeMarkup(code, symbology);
+        } catch {
+            return '';
+        }
+    }, [code, symbology]);
+
+    if (symbology === 'QrCode') {
+        return (
+            <QRCodeSVG
+                value={code}
+                size={Math.round(size.width * PIXELS_PER_INCH)}
+                marginSize={0}
+                level="M"
+                style={{ width: `${size.width}in`, height: `${size.height}in`, flexShrink: 0 }}
+            />
+        );
+    }
+
+    return (
+        <Box
+            title={markup ? undefined : `"${code}" cannot be encoded as ${symbology}`}
+            sx={{
+                width: `${size.width}in`,
+                height: `${size.height}in`,
+                flexShrink: 0,
+                border: markup ? undefined : '1px solid',
+                borderColor: 'error.main',
+                '& svg': { display: 'block', width: '100%', height: '100%' },
+            }}
+            dangerouslySetInnerHTML={{ __html: markup ?? '' }}
+        />
+    );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Autocomplete,
+    Box,
+    Button,
+    FormControl,
+    InputLabel,
+    MenuItem,
+    Paper,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import PrintIcon from '@mui/icons-material/Print';
+import { useNavigate } from 'react-router';
+import { useConfirm } from 'material-ui-confirm';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { useUser } from '../../providers/user-provider';
+import { DEFAULT_LABEL_FORMAT, getLabelFormat, labelFormatList, LabelFormatDefinition } from './label-formats';
+import { LabelPageStyle, LabelSheet, NO_CALIBRATION } from './label-sheet';
+
+const CalibrationCell: React.FC<{ format: LabelFormatDefinition; labelNumber: number }> = ({ format, labelNumber }) => (
+    <Box
+        sx={{
+            position: 'relative',
+            width: `${format.cellWidth}in`,
+            height: `${format.cellHeight}in`,
+            border: '1px solid #000',
+            boxSizing: 'border-box',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+        }}
+    >
+        <Box sx={{ position: 'absolute', left: '50%', top: 0, bottom: 0, borderLeft: '1px dashed #000' }} />
+        <Box sx={{ position: 'absolute', top: '50%', left: 0, right: 0, borderTop: '1px dashed #000' }} />
+        <Typography
+            component="span"
+            sx={{ position: 'absolute', top: 2, left: 4, fontSize: '7pt', fontFamily: 'monospace', color: '#000' }}
+        >
+            {labelNumber}
+        </Typography>
+    </Box>
+);
+
+export const LabelCalibrationPage: React.FC = () => {
+    const navigate = useNavigate();
+    const alert = useAlertMessage();
+    const confirm = useConfirm();
+    const { Api } = useApi();
+    const { user, updateUser } = useUser();
+    const calibrations = user?.preferences?.printerCalibrations ?? [];
+
+    const [labelFormat, setLabelFormat] = useState<LabelFormat>(DEFAULT_LABEL_FORMAT);
+    const [calibration, setCalibration] = useState<PrinterCalibration>(NO_CALIBRATION);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        const active = calibrations.find(c => c.name === user?.preferences?.activePrinter);
+        if (active) {
+            setCalibration(active);
+        }
+    }, [user]);
+
+    const format = getLabelFormat(labelFormat);
+    const existing = calibrations.some(c => c.name === calibration.name.trim());
+
+    const handlePrinterChange = (name: string) => {
+        const saved = calibrations.find(c => c.name === name);
+        setCalibration(saved ?? { ...calibration, name });
+    };
+
+    const handleNumberChange = (field: keyof Omit<PrinterCalibration, 'name'>, value: string, fallback: number) => {
+        const parsed = parseFloat(value);
+        setCalibration({ ...calibration, [field]: isNaN(parsed) ? fallback : parsed });
+    };
+
+    const savePreferences = (printerCalibrations: PrinterCalibration[], activePrinter?: string) => {
+        if (!user?.preferences) return Promise.resolve();
+        setSaving(true);
+        return Api.User.updateUserPreferences({ ...user.preferences, printerCalibrations, activePrinter })
+            .then(() => updateUser({ silent: true }))
+            .finally(() => setSaving(false));
+    };
+
+    const handleSave = () => {
+        const name = calibration.name.trim();
+        if (!name) {
+            alert.addMessage('Printer name is required.');
+            return;
+        }
+        const next = [...calibrations.filter(c => c.name !== name), { ...calibration, name }];
+        savePreferences(next, name)
+            .then(() => alert.addMessage(`Calibration for "${name}" saved.`))
+            .catch(error => alert.addError(error));
+    };
+
+    const handleDelete = async () => {
+        const name = calibration.name.trim();
+        try {
+            await confirm({ description: `Delete calibration for "${name}"?` });
+        } catch {
+            return;
+        }
+        const activePrinter = user?.preferences?.activePrinter === name ? undefined : user?.preferences?.activePrinter;
+        savePreferences(calibrations.filter(c => c.name !== name), activePrinter)
+            .then(() => {
+                setCalibration(NO_CALIBRATION);
+                alert.addMessage(`Calibration for "${name}" deleted.`);
+            })
+            .catch(error => alert.addError(error));
+    };
+
+    const cells = Array.from({ length: format.columns * format.rows }, (_, index) => index + 1);
+
+    return (
+        <Box>
+            <LabelPageStyle format={format} />
+            <Box className="no-print" sx={{ '@media print': { display: 'none' } }}>
+                <Box sx={{ p: 2 }}>
+                    <Button startIcon={<ArrowBackIcon />} onClick={() => navigate(-1)}>
+                        Back
+                    </Button>
+                </Box>
+                <Paper>
+                    <Box sx={{ margin: 1, textAlign: 'center' }}>
+                        <Typography variant="h4">Printer Calibration</Typography>
+                    </Box>
+                    <Box sx={{ margin: 2 }}>
+                        <Typography variant="body2" color="text.secondary" gutterBottom>
+                            Print the test grid on plain paper, hold it over a label sheet and measure how far the
+                            outlines are from the labels. Positive X moves labels right, positive Y moves them down.
+                            Scale corrects sheets that print slightly larger or smaller than the label sheet.
+                        </Typography>
+                        <Stack spacing={2} sx={{ mt: 2 }}>
+                            <Autocomplete
+                                freeSolo
+                                options={calibrations.map(c => c.name)}
+                                value={calibration.name}
+                                onInputChange={(_, value) => handlePrinterChange(value)}
+                                renderInput={inputParams => (
+                                    <TextField
+                                        {...inputParams}
+                                        variant="standard"
+                                        label="Printer Name"
+                                        helperText="Pick a saved printer or type a new name"
+                                    />
+                                )}
+                            />
+                            <FormControl fullWidth>
+                                <InputLabel>Test Grid Format</InputLabel>
+                                <Select
+                                    variant="standard"
+                                    label="Test Grid Format"
+                                    value={labelFormat}
+                                    onChange={e => setLabelFormat(e.target.value as LabelFormat)}
+                                >
+                                    {labelFormatList.map(definition => (
+                                        <MenuItem key={definition.format} value={definition.format}>{definition.description}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                                <TextField
+                                    variant="standard"
+                                    label="X Offset (mm)"
+                                    type="number"
+                                    value={calibration.offsetX}
+                                    onChange={e => handleNumberChange('offsetX', e.target.value, 0)}
+                                    slotProps={{ htmlInput: { step: 0.5 } }}
+                                    fullWidth
+                                />
+                                <TextField
+                                    variant="standard"
+                                    label="Y Offset (mm)"
+                                    type="number"
+                                    value={calibration.offsetY}
+                                    onChange={e => handleNumberChange('offsetY', e.target.value, 0)}
+                                    slotProps={{ htmlInput: { step: 0.5 } }}
+                                    fullWidth
+                                />
+                                <TextField
+                                    variant="standard"
+                                    label="X Scale"
+                                    type="number"
+                                    value={calibration.scaleX}
+                                    onChange={e => handleNumberChange('scaleX', e.target.value, 1)}
+                                    slotProps={{ htmlInput: { step: 0.005, min: 0.5, max: 1.5 } }}
+                                    fullWidth
+                                />
+                                <TextField
+                                    variant="standard"
+                                    label="Y Scale"
+                                    type="number"
+                                    value={calibration.scaleY}
+                                    onChange={e => handleNumberChange('scaleY', e.target.value, 1)}
+                                    slotProps={{ htmlInput: { step: 0.005, min: 0.5, max: 1.5 } }}
+                                    fullWidth
+                                />
+                            </Stack>
+                        </Stack>
+                    </Box>
+                    <Stack
+                        direction="row"
+                        spacing={2}
+                        sx={{
+                            padding: 2,
+                            justifyContent: 'flex-end',
+                        }}
+                    >
+                        <Button startIcon={<PrintIcon />} onClick={() => window.print()}>
+                            Print Test Grid
+                        </Button>
+                        {existing && (
+                            <Button color="error" onClick={handleDelete} disabled={saving}>
+                                Delete
+                            </Button>
+                        )}
+                        <Button color="primary" variant="contained" onClick={handleSave} disabled={saving}>
+                            Save
+                        </Button>
+                    </Stack>
+                </Paper>
+            </Box>
+            <LabelSheet format={format} calibration={calibration}>
+                {cells.map(labelNumber => (
+                    <CalibrationCell key={labelNumber} format={format} labelNumber={labelNumber} />
+                ))}
+            </LabelSheet>
+        </Box>
+    );
+};
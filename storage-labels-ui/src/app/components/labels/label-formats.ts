@@ -0,0 +1,136 @@
+/**
+ * Physical description of a label sheet or roll. All measurements are in inches.
+ */
+export interface LabelFormatDefinition {
+    format: LabelFormat;
+    name: string;
+    description: string;
+    pageWidth: number;
+    pageHeight: number;
+    columns: number;
+    rows: number;
+    cellWidth: number;
+    cellHeight: number;
+    columnGap: number;
+    rowGap: number;
+    marginTop: number;
+    marginLeft: number;
+    /** Labels generated per "next page" request. Must match the API's GetLabelsPerPage. */
+    labelsPerPage: number;
+    qrSize: number;
+    fontSize: number;
+}
+
+export const LabelFormats: Record<LabelFormat, LabelFormatDefinition> = {
+    Avery94107: {
+        format: 'Avery94107',
+        name: 'Avery 94107',
+        description: 'Avery 94107 (2" × 2", 12/page)',
+        pageWidth: 8.5,
+        pageHeight: 11,
+        columns: 3,
+        rows: 4,
+        cellWidth: 2,
+        cellHeight: 2,
+        columnGap: 0.375,
+        rowGap: 0.5,
+        marginTop: 0.5,
+        marginLeft: 0.875,
+        labelsPerPage: 12,
+        qrSize: 1.25,
+        fontSize: 9,
+    },
+    Avery5160: {
+        format: 'Avery5160',
+        name: 'Avery 5160',
+        description: 'Avery 5160 (2⅝" × 1", 30/page)',
+        pageWidth: 8.5,
+        pageHeight: 11,
+        columns: 3,
+        rows: 10,
+        cellWidth: 2.625,
+        cellHeight: 1,
+        columnGap: 0.125,
+        rowGap: 0,
+        marginTop: 0.5,
+        marginLeft: 0.1875,
+        labelsPerPage: 30,
+        qrSize: 0.8,
+        fontSize: 8,
+    },
+    Avery22805: {
+        format: 'Avery22805',
+        name: 'Avery 22805',
+        description: 'Avery 22805 (1½" × 1½", 24/page)',
+        pageWidth: 8.5,
+        pageHeight: 11,
+        columns: 4,
+        rows: 6,
+        cellWidth: 1.5,
+        cellHeight: 1.5,
+        columnGap: 0.3125,
+        rowGap: 0.2,
+        marginTop: 0.5,
+        marginLeft: 0.78125,
+        labelsPerPage: 24,
+        qrSize: 1,
+        fontSize: 7,
+    },
+    Dymo30332: {
+        format: 'Dymo30332',
+        name: 'Dymo 30332',
+        description: 'Dymo 30332 roll (1" × 1", 10/batch)',
+        pageWidth: 1,
+        pageHeight: 1,
+        columns: 1,
+        rows: 1,
+        cellWidth: 1,
+        cellHeight: 1,
+        columnGap: 0,
+        rowGap: 0,
+        marginTop: 0,
+        marginLeft: 0,
+        labelsPerPage: 10,
+        qrSize: 0.65,
+        fontSize: 6,
+    },
+    Dymo30334: {
+        format: 'Dymo30334',
+        name: 'Dymo 30334',
+        description: 'Dymo 30334 roll (2¼" × 1¼", 10/batch)',
+        pageWidth: 2.25,
+        pageHeight: 1.25,
+        columns: 1,
+        rows: 1,
+        cellWidth: 2.25,
+        cellHeight: 1.25,
+        columnGap: 0,
+        rowGap: 0,
+        marginTop: 0,
+        marginLeft: 0,
+        labelsPerPage: 10,
+        qrSize: 1,
+        fontSize: 8,
+    },
+};
+
+export const labelFormatList = Object.values(LabelFormats);
+
+export const DEFAULT_LABEL_FORMAT: LabelFormat = 'Avery94107';
+
+export const getLabelFormat = (format: LabelFormat): LabelFormatDefinition =>
+    LabelFormats[format] ?? LabelFormats[DEFAULT_LABEL_FORMAT];
+
+/** Number of label cells on one physical sheet (or one roll label). */
+export const getLabelsPerSheet = (definition: LabelFormatDefinition) =>
+    definition.columns * definition.rows;
+
+/** Splits a flat list of labels into physical sheets for the given format. */
+export const chunkIntoSheets = <T>(labels: T[], definition: LabelFormatDefinition): T[][] => {
+    const perSheet = getLabelsPerSheet(definition);
+    const sheets: T[][] = [];
+    for (let i = 0; i < labels.length; i += perSheet) {
+        sheets.push(labels.slice(i, i + perSheet));
+    }
+    return sheets;
+};
@@ -1,74 +1,50 @@
 import React from 'react';
 import { Box, Typography, useTheme } from '@mui/material';
-import { QRCodeSVG } from 'qrcode.react';
+import { LabelFormatDefinition } from './label-formats';
+import { getBarcodeValue, isQrLeft } from './label-template';
+import { getBarcodeSize, LabelBarcode } from './label-barcode';
+import { parseColorPattern } from '../shared/code-color-pattern';
+import logo from '../../../static/icons/storage-container-192x192.png';
 
 interface LabelItemProps {
     code: string;
     codeColorPattern: string;
+    format: LabelFormatDefinition;
+    /** Extra lines printed under the code, e.g. the box name and location. */
+    details?: string[];
+    layout?: LabelLayout;
+    showLogo?: boolean;
+    symbology?: LabelSymbology;
+    /** Encodes a scan deep link in the barcode; the printed text stays the bare code. */
+    encodeScanUrl?: boolean;
 }
 
-type ColorType = 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success' | 'default';
+const PIXELS_PER_INCH = 96;
 
-interface ParsedSegment {
-    text: string;
-    color: ColorType;
-}
+/** Detail lines are printed slightly smaller than the code. */
+export const DETAIL_FONT_SCALE = 0.85;
 
-const parseColorPattern = (pattern: string, code: string): ParsedSegment[] => {
-    if (!pattern) return [{ text: code, color: 'default' }];
-    try {
-        const segments: ParsedSegment[] = [];
-        const parts = pattern.split(',');
-        let currentIndex = 0;
-        for (let i = 0; i < parts.length; i++) {
-            const part = parts[i].trim();
-            if (part === '*') {
-                let remainingChars = 0;
-                for (let j = i + 1; j < parts.length; j++) {
-                    const nextPart = parts[j].trim();
-                    if (nextPart !== '*') {
-                        const [lengthStr] = nextPart.split(':');
-                        remainingChars += parseInt(lengthStr) || 0;
-                    }
-                }
-                const skipLength = code.length - currentIndex - remainingChars;
-                if (skipLength > 0) {
-                    segments.push({ text: code.substring(currentIndex, currentIndex + skipLength), color: 'default' });
-                    currentIndex += skipLength;
-                }
-                continue;
-            }
-            const [lengthStr, colorStr] = part.split(':');
-            const length = parseInt(lengthStr) || 0;
-            const color = (colorStr || 'default') as ColorType;
-            if (currentIndex + length <= code.length) {
-                segments.push({ text: code.substring(currentIndex, currentIndex + length), color });
-                currentIndex += length;
-            }
-        }
-        if (currentIndex < code.length) {
-            segments.push({ text: code.substring(currentIndex), color: 'default' });
-        }
-        return segments;
-    } catch {
-        return [{ text: code, color: 'default' }];
-    }
-};
+/** The logo sits in the top right corner, sized relative to the code text. */
+export const getLogoSize = (format: LabelFormatDefinition) => format.fontSize * 2.5 / 72;
+export const LOGO_INSET = 4 / PIXELS_PER_INCH;
 
-export const LabelItem: React.FC<LabelItemProps> = ({ code, codeColorPattern }) => {
+export const LabelItem: React.FC<LabelItemProps> = ({ code, codeColorPattern, format, details = [], layout = 'Auto', showLogo = false, symbology = 'QrCode', encodeScanUrl = false }) => {
     const theme = useTheme();
     const segments = parseColorPattern(codeColorPattern, code);
+    const isWide = isQrLeft(format, layout);
 
     return (
         <Box
             sx={{
-                width: '2in',
-                height: '2in',
+                width: `${format.cellWidth}in`,
+                height: `${format.cellHeight}in`,
                 display: 'flex',
-                flexDirection: 'column',
+                flexDirection: isWide ? 'row' : 'column',
                 alignItems: 'center',
                 justifyContent: 'center',
-                gap: '4px',
+                gap: isWide ? '8px' : '4px',
+                position: 'relative',
+                overflow: 'hidden',
                 border: '1px dashed #ccc',
                 boxSizing: 'border-box',
                 padding: '4px',
@@ -78,38 +54,71 @@ export const LabelItem: React.FC<LabelItemProps> = ({ code, codeColorPattern })
                 },
             }}
         >
-            <QRCodeSVG
-                value={code}
-                size={120}
-                marginSize={0}
-                level="M"
-            />
-            <Typography
-                component="span"
+            {showLogo && (
+                <Box
+                    component="img"
+                    src={logo}
+                    alt=""
+                    sx={{
+                        position: 'absolute',
+                        top: `${LOGO_INSET}in`,
+                        right: `${LOGO_INSET}in`,
+                        width: `${getLogoSize(format)}in`,
+                        height: `${getLogoSize(format)}in`,
+                    }}
+                />
+            )}
+            <LabelBarcode code={getBarcodeValue(code, encodeScanUrl)} symbology={symbology} size={getBarcodeSize(format, symbology, isWide)} />
+            <Box
                 sx={{
-                    fontFamily: 'monospace',
-                    fontSize: '9pt',
-                    fontWeight: 600,
-                    letterSpacing: '0.05em',
-                    textAlign: 'center',
-                    lineHeight: 1,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: isWide ? 'flex-start' : 'center',
+                    minWidth: 0,
+                    maxWidth: '100%',
                 }}
             >
-                {segments.map((segment, idx) => (
-                    <Box
+                <Typography
+                    component="span"
+                    sx={{
+                        fontFamily: 'monospace',
+                        fontSize: `${format.fontSize}pt`,
+                        fontWeight: 600,
+                        letterSpacing: '0.05em',
+                        textAlign: 'center',
+                        lineHeight: 1,
+                    }}
+                >
+                    {segments.map((segment, idx) => (
+                        <Box
+                            key={idx}
+                            component="span"
+                            sx={{
+                                color: segment.color === 'default'
+                                    ? undefined
+                                    : theme.palette[segment.color].main,
+                                fontWeight: segment.color !== 'default' ? 700 : 600,
+                            }}
+                        >
+                            {segment.text}
+                        </Box>
+                    ))}
+                </Typography>
+                {details.map((line, idx) => (
+                    <Typography
                         key={idx}
                         component="span"
+                        noWrap
                         sx={{
-                            color: segment.color === 'default'
-                                ? undefined
-                                : theme.palette[segment.color].main,
-                            fontWeight: segment.color !== 'default' ? 700 : 600,
+                            fontSize: `${format.fontSize * DETAIL_FONT_SCALE}pt`,
+                            lineHeight: 1.2,
+                            maxWidth: '100%',
                         }}
                     >
-                        {segment.text}
-                    </Box>
+                        {line}
+                    </Typography>
                 ))}
-            </Typography>
+            </Box>
         </Box>
     );
 };
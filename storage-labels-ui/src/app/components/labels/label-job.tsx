@@ -8,9 +8,14 @@ import {
     Divider,
     Grid,
     IconButton,
+    List,
+    ListItem,
+    ListItemText,
     Menu,
     MenuItem,
     Paper,
+    Stack,
+    TextField,
     Typography,
     useTheme,
 } from '@mui/material';
@@ -18,11 +23,13 @@ import PrintIcon from '@mui/icons-material/Print';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
+import ReplayIcon from '@mui/icons-material/Replay';
 import { Link, useNavigate, useParams } from 'react-router';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { useConfirm } from 'material-ui-confirm';
 import { Breadcrumbs } from '../shared';
+import { getLabelFormat } from './label-formats';
 
 export const LabelJobPage: React.FC = () => {
     const { jobId } = useParams<{ jobId: string }>();
@@ -30,6 +37,9 @@ export const LabelJobPage: React.FC = () => {
     const alert = useAlertMessage();
     const navigate = useNavigate();
     const [job, setJob] = useState<LabelPrintJobResponse | null>(null);
+    const [pages, setPages] = useState<LabelPrintJobPageResponse[]>([]);
+    const [reprintFirst, setReprintFirst] = useState('');
+    const [reprintLast, setReprintLast] = useState('');
     const [loading, setLoading] = useState(false);
     const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
     const theme = useTheme();
@@ -40,6 +50,9 @@ export const LabelJobPage: React.FC = () => {
         Api.Label.getLabelJobById(jobId)
             .then(({ data }) => setJob(data))
             .catch(() => alert.addMessage('Failed to load label job.'));
+        Api.Label.getLabelJobPages(jobId)
+            .then(({ data }) => setPages(data))
+            .catch(() => alert.addMessage('Failed to load label page history.'));
     }, [jobId]);
 
     const handlePrintNextPage = () => {
@@ -53,6 +66,21 @@ export const LabelJobPage: React.FC = () => {
             .finally(() => setLoading(false));
     };
 
+    const handleReprint = (firstLabelNumber: number, lastLabelNumber: number) => {
+        if (!jobId) return;
+        if (!(firstLabelNumber >= 1) || !(lastLabelNumber >= firstLabelNumber)) {
+            alert.addMessage('Enter a valid label number range.');
+            return;
+        }
+        setLoading(true);
+        Api.Label.reprintLabels(jobId, { firstLabelNumber, lastLabelNumber })
+            .then(({ data }) => {
+                navigate(`/labels/${jobId}/print`, { state: { page: data } });
+            })
+            .catch(error => alert.addError(error))
+            .finally(() => setLoading(false));
+    };
+
     const handleDelete = async () => {
         setMenuAnchor(null);
         try {
@@ -72,6 +100,8 @@ export const LabelJobPage: React.FC = () => {
         return <Box sx={{ margin: 2 }}><Typography>Loading...</Typography></Box>;
     }
 
+    const format = getLabelFormat(job.labelFormat);
+
     return (
         <React.Fragment>
             <Box sx={{ margin: 2, mb: 2 }}>
@@ -115,7 +145,7 @@ export const LabelJobPage: React.FC = () => {
                                             <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
                                                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                                                     <Typography variant="body2" color="text.secondary">Label Format</Typography>
-                                                    <Chip label={job.labelFormat} size="small" />
+                                                    <Chip label={format.name} size="small" />
                                                 </Box>
                                                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                                                     <Typography variant="body2" color="text.secondary">Algorithm</Typography>
@@ -153,7 +183,7 @@ export const LabelJobPage: React.FC = () => {
                                             <Typography variant="h6" gutterBottom>Print</Typography>
                                             <Divider sx={{ mb: 2 }} />
                                             <Typography variant="body2" color="text.secondary" gutterBottom>
-                                                Generate and print the next page of 12 labels ({job.labelFormat}).
+                                                Generate and print the next page of {format.labelsPerPage} labels ({format.name}).
                                                 The job index will advance automatically.
                                             </Typography>
                                             <Box sx={{ mt: 2 }}>
@@ -170,6 +200,72 @@ export const LabelJobPage: React.FC = () => {
                                         </CardContent>
                                     </Card>
                                 </Grid>
+                                <Grid size={12}>
+                                    <Card>
+                                        <CardContent>
+                                            <Typography variant="h6" gutterBottom>History</Typography>
+                                            <Divider sx={{ mb: 2 }} />
+                                            <Typography variant="body2" color="text.secondary" gutterBottom>
+                                                Reprint labels that were already generated, e.g. after a printer jam.
+                                                Reprinting does not use up new codes.
+                                            </Typography>
+                                            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mt: 2, alignItems: { sm: 'flex-end' } }}>
+                                                <TextField
+                                                    variant="standard"
+                                                    label="First Label #"
+                                                    type="number"
+                                                    value={reprintFirst}
+                                                    onChange={e => setReprintFirst(e.target.value)}
+                                                    slotProps={{ htmlInput: { min: 1, max: job.totalLabelsGenerated } }}
+                                                />
+                                                <TextField
+                                                    variant="standard"
+                                                    label="Last Label #"
+                                                    type="number"
+                                                    value={reprintLast}
+                                                    onChange={e => setReprintLast(e.target.value)}
+                                                    slotProps={{ htmlInput: { min: 1, max: job.totalLabelsGenerated } }}
+                                                />
+                                                <Button
+                                                    startIcon={<ReplayIcon />}
+                                                    onClick={() => handleReprint(parseInt(reprintFirst), parseInt(reprintLast || reprintFirst))}
+                                                    disabled={loading || !reprintFirst}
+                                                >
+                                                    Reprint Range
+                                                </Button>
+                                            </Stack>
+                                            {pages.length === 0 ? (
+                                                <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                                                    No pages have been generated yet.
+                                                </Typography>
+                                            ) : (
+                                                <List dense>
+                                                    {pages.map(page => (
+                                                        <ListItem
+                                                            key={page.id}
+                                                            secondaryAction={
+                                                                <IconButton
+                                                                    edge="end"
+                                                                    aria-label="reprint page"
+                                                                    title="Reprint Page"
+                                                                    onClick={() => handleReprint(page.firstLabelNumber, page.lastLabelNumber)}
+                                                                    disabled={loading}
+                                                                >
+                                                                    <PrintIcon />
+                                                                </IconButton>
+                                                            }
+                                                        >
+                                                            <ListItemText
+                                                                primary={`Labels ${page.firstLabelNumber}–${page.lastLabelNumber}`}
+                                                                secondary={`${getLabelFormat(page.labelFormat).name} · ${new Date(page.generatedAt).toLocaleString()}`}
+                                                            />
+                                                        </ListItem>
+                                                    ))}
+                                                </List>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                </Grid>
                             </Grid>
                         </Box>
                     </Box>
@@ -18,6 +18,7 @@ import { Link, useNavigate } from 'react-router';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { Breadcrumbs, EmptyState } from '../shared';
+import { getLabelFormat } from './label-formats';
 
 export const LabelJobsPage: React.FC = () => {
     const navigate = useNavigate();
@@ -94,7 +95,7 @@ export const LabelJobsPage: React.FC = () => {
                                             <ListItemText
                                                 primary={job.name}
                                                 secondary={[
-                                                    job.labelFormat,
+                                                    getLabelFormat(job.labelFormat).name,
                                                     job.incrementAlgorithm,
                                                     job.algorithmPrefix,
                                                     `${job.totalLabelsGenerated} generated`,
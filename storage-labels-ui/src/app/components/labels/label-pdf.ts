@@ -0,0 +1,176 @@
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { DETAIL_FONT_SCALE, getLogoSize, LOGO_INSET } from './label-item';
+import { ColorType, parseColorPattern } from '../shared/code-color-pattern';
+import { LabelFormatDefinition } from './label-formats';
+import { getBarcodeValue, isQrLeft } from './label-template';
+import { createBarcodeMarkup, getBarcodeSize } from './label-barcode';
+import logo from '../../../static/icons/storage-container-192x192.png';
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+// Matches the 4px / 8px gaps LabelItem uses on screen (96px per inch)
+const STACKED_GAP = 4 / 96;
+const INLINE_GAP = 8 / 96;
+
+export interface PdfLabel {
+    code: string;
+    details?: string[];
+}
+
+interface LabelPdfOptions {
+    sheets: (PdfLabel | null)[][];
+    format: LabelFormatDefinition;
+    codeColorPattern: string;
+    /** Layout, logo and symbology settings; template text lines are passed in each label's details. */
+    template?: LabelTemplate;
+    calibration: PrinterCalibration;
+    /** Resolves a code color segment to a CSS hex color, e.g. from the MUI theme palette. */
+    resolveColor: (color: ColorType) => string;
+}
+
+const createBarcodeSvg = (code: string, symbology: LabelSymbology) => {
+    const markup = createBarcodeMarkup(code, symbology);
+    return new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+};
+
+const loadLogo = async () => {
+    const image = new Image();
+    image.src = logo;
+    await image.decode();
+    return image;
+};
+
+/**
+ * Renders label sheets to a vector PDF with the exact physical page size of the format.
+ * Barcodes are converted from their SVG markup so they stay vector, and code text keeps
+ * its colored segments. The printer calibration is applied like the print stylesheet.
+ */
+export const createLabelPdf = async ({ sheets, format, codeColorPattern, template, calibration, resolveColor }: LabelPdfOptions) => {
+    const doc = new jsPDF({
+        unit: 'in',
+        format: [format.pageWidth, format.pageHeight],
+        orientation: format.pageWidth > format.pageHeight ? 'landscape' : 'portrait',
+    });
+
+    const offsetX = calibration.offsetX / MM_PER_INCH;
+    const offsetY = calibration.offsetY / MM_PER_INCH;
+    const toPageX = (x: number) => offsetX + x * calibration.scaleX;
+    const toPageY = (y: number) => offsetY + y * calibration.scaleY;
+
+    const isWide = isQrLeft(format, template?.layout);
+    const logoImage = template?.showLogo ? await loadLogo() : null;
+    const logoSize = getLogoSize(format);
+    const symbology = template?.symbology ?? 'QrCode';
+    const barcode = getBarcodeSize(format, symbology, isWide);
+    // Layout is computed in unscaled sheet inches; the font itself is drawn at the calibrated size
+    const textHeight = format.fontSize / POINTS_PER_INCH;
+    const fontSize = format.fontSize * calibration.scaleY;
+    const charSpace = 0.05 * fontSize / POINTS_PER_INCH;
+    const measure = (text: string) => doc.getTextWidth(text) + charSpace * text.length;
+    const detailFontSize = fontSize * DETAIL_FONT_SCALE;
+    const detailLineHeight = format.fontSize * DETAIL_FONT_SCALE * 1.2 / POINTS_PER_INCH;
+
+    // Shortens a detail line with an ellipsis until it fits (in unscaled sheet inches)
+    const fitText = (text: string, maxWidth: number) => {
+        if (doc.getTextWidth(text) / calibration.scaleY <= maxWidth) return text;
+        let fitted = text;
+        while (fitted.length > 0 && doc.getTextWidth(`${fitted}…`) / calibration.scaleY > maxWidth) {
+            fitted = fitted.slice(0, -1);
+        }
+        return `${fitted}…`;
+    };
+
+    // svg2pdf reads computed styles, so the barcode svg has to be attached while it renders
+    const host = document.createElement('div');
+    host.style.position = 'absolute';
+    host.style.left = '-10000px';
+    document.body.appendChild(host);
+
+    try {
+        for (let sheetIndex = 0; sheetIndex < sheets.length; sheetIndex++) {
+            if (sheetIndex > 0) {
+                doc.addPage([format.pageWidth, format.pageHeight], format.pageWidth > format.pageHeight ? 'landscape' : 'portrait');
+            }
+
+            const sheet = sheets[sheetIndex];
+            for (let cellIndex = 0; cellIndex < sheet.length; cellIndex++) {
+                const label = sheet[cellIndex];
+                if (!label) continue;
+
+                const column = cellIndex % format.columns;
+                const row = Math.floor(cellIndex / format.columns);
+                const cellX = format.marginLeft + column * (format.cellWidth + format.columnGap);
+                const cellY = format.marginTop + row * (format.cellHeight + format.rowGap);
+
+                // svg2pdf may leave a different font active, so set it for every label
+                doc.setFont('courier', 'bold');
+                doc.setFontSize(fontSize);
+                const segments = parseColorPattern(codeColorPattern, label.code);
+                const textWidth = measure(label.code) / calibration.scaleY;
+                const details = label.details ?? [];
+                const blockHeight = textHeight + details.length * detailLineHeight;
+
+                let barcodeX: number, barcodeY: number, textX: number, textY: number, detailWidth: number;
+                if (isWide) {
+                    const contentWidth = barcode.width + INLINE_GAP + textWidth;
+                    barcodeX = cellX + (format.cellWidth - contentWidth) / 2;
+                    barcodeY = cellY + (format.cellHeight - barcode.height) / 2;
+                    textX = barcodeX + barcode.width + INLINE_GAP;
+                    textY = cellY + (format.cellHeight - blockHeight) / 2;
+                    detailWidth = cellX + format.cellWidth - textX - STACKED_GAP;
+                } else {
+                    detailWidth = format.cellWidth - 2 * STACKED_GAP;
+                    const contentHeight = barcode.height + STACKED_GAP + blockHeight;
+                    barcodeX = cellX + (format.cellWidth - barcode.width) / 2;
+                    barcodeY = cellY + (format.cellHeight - contentHeight) / 2;
+                    textX = cellX + (format.cellWidth - textWidth) / 2;
+                    textY = barcodeY + barcode.height + STACKED_GAP;
+                }
+
+                if (logoImage) {
+                    doc.addImage(
+                        logoImage,
+                        'PNG',
+                        toPageX(cellX + format.cellWidth - LOGO_INSET - logoSize),
+                        toPageY(cellY + LOGO_INSET),
+                        logoSize * calibration.scaleX,
+                        logoSize * calibration.scaleY,
+                    );
+                }
+
+                const svg = createBarcodeSvg(getBarcodeValue(label.code, template?.encodeScanUrl), symbology);
+                host.appendChild(svg);
+                await svg2pdf(svg, doc, {
+                    x: toPageX(barcodeX),
+                    y: toPageY(barcodeY),
+                    width: barcode.width * calibration.scaleX,
+                    height: barcode.height * calibration.scaleY,
+                });
+                host.removeChild(svg);
+
+                let x = toPageX(textX);
+                for (const segment of segments) {
+                    doc.setTextColor(resolveColor(segment.color));
+                    doc.text(segment.text, x, toPageY(textY), { baseline: 'top', charSpace });
+                    x += measure(segment.text);
+                }
+
+                doc.setFont('helvetica', 'normal');
+                doc.setFontSize(detailFontSize);
+                doc.setTextColor('#000000');
+                details.forEach((line, lineIndex) => {
+                    const text = fitText(line, detailWidth);
+                    const lineWidth = doc.getTextWidth(text) / calibration.scaleY;
+                    const lineX = isWide ? textX : cellX + (format.cellWidth - lineWidth) / 2;
+                    const lineY = textY + textHeight + lineIndex * detailLineHeight;
+                    doc.text(text, toPageX(lineX), toPageY(lineY), { baseline: 'top' });
+                });
+            }
+        }
+    } finally {
+        document.body.removeChild(host);
+    }
+
+    return doc;
+};
@@ -1,14 +1,24 @@
-import React from 'react';
-import { Box, Button, Typography } from '@mui/material';
+import React, { useState } from 'react';
+import { Box, Button, Typography, useTheme } from '@mui/material';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
-import PrintIcon from '@mui/icons-material/Print';
 import { useLocation, useNavigate, useParams } from 'react-router';
-import { LabelItem } from './label-item';
+import { getLabelFormat, getLabelsPerSheet } from './label-formats';
+import { arrangeLabels, LabelPageStyle, LabelSheetList } from './label-sheet';
+import { usePrinterCalibration } from './printer-select';
+import { LabelPrintToolbar } from './label-print-toolbar';
+import { createLabelPdf } from './label-pdf';
+import { DEFAULT_LABEL_TEMPLATE, getTemplateLines } from './label-template';
+import { useAlertMessage } from '../../providers/alert-provider';
 
 export const LabelPrintPage: React.FC = () => {
     const { jobId } = useParams<{ jobId: string }>();
     const location = useLocation();
     const navigate = useNavigate();
+    const { calibrations, printerName, calibration, selectPrinter } = usePrinterCalibration();
+    const [startCell, setStartCell] = useState(0);
+    const [exporting, setExporting] = useState(false);
+    const theme = useTheme();
+    const alert = useAlertMessage();
     const page: LabelPageResponse | undefined = location.state?.page;
 
     if (!page) {
@@ -20,82 +30,57 @@ export const LabelPrintPage: React.FC = () => {
         );
     }
 
+    const format = getLabelFormat(page.labelFormat);
+    const template = page.template ?? DEFAULT_LABEL_TEMPLATE;
+    // Fresh codes have no box yet, so box and location lines print blank to write on
+    const details = getTemplateLines(template);
+    const labels = page.labels.map(item => ({ id: item.labelNumber, code: item.code, details }));
+    const sheets = arrangeLabels(labels, format, startCell);
+
+    const handleDownloadPdf = () => {
+        setExporting(true);
+        createLabelPdf({
+            sheets,
+            format,
+            codeColorPattern: page.codeColorPattern,
+            template,
+            calibration,
+            resolveColor: color => color === 'default' ? '#000000' : theme.palette[color].main,
+        })
+            .then(doc => {
+                const first = page.labels[0]?.labelNumber ?? 0;
+                const last = page.labels[page.labels.length - 1]?.labelNumber ?? 0;
+                doc.save(`labels-${first}-${last}.pdf`);
+            })
+            .catch(error => alert.addError(error))
+            .finally(() => setExporting(false));
+    };
+
     return (
         <Box>
-            <style>{`
-                @page {
-                    margin: 0 !important;
-                    size: letter portrait;
-                }
-                @media print {
-                    html, body {
-                        margin: 0 !important;
-                        padding: 0 !important;
-                        height: 100%;
-                    }
-                }
-                .no-print {
-                    print-color-adjust: exact;
-                    -webkit-print-color-adjust: exact;
-                }
-            `}</style>
-            {/* Screen controls — hidden when printing */}
-            <Box
-                className="no-print"
-                sx={{
-                    display: 'flex',
-                    gap: 2,
-                    p: 2,
-                    alignItems: 'center',
-                    '@media print': { display: 'none' },
-                }}
+            <LabelPageStyle format={format} />
+            <LabelPrintToolbar
+                format={format}
+                startCell={startCell}
+                onStartCellChange={setStartCell}
+                calibrations={calibrations}
+                printerName={printerName}
+                onPrinterChange={selectPrinter}
+                exporting={exporting}
+                onDownloadPdf={handleDownloadPdf}
             >
                 <Button startIcon={<ArrowBackIcon />} onClick={() => navigate(`/labels/${jobId}`)}>
                     Back
                 </Button>
-                <Button variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()}>
-                    Print
-                </Button>
-                <Typography variant="body2" color="text.secondary">
-                    Avery 94107 — align sheet per label guidelines before printing.
-                </Typography>
-            </Box>
-
-            {/*
-              * Print layout for Avery 94107 (2" × 2", 12 per page, 3 cols × 4 rows)
-              * Sheet: 8.5" × 11" letter
-              * Top margin: 0.5"  Left margin: 0.875"
-              * Col gap: 0.375"   Row gap: 0.5"
-              */}
-            <Box
-                sx={{
-                    '@media print': {
-                        margin: '0.5in 0 0 0.875in',
-                    },
-                    '@media screen': {
-                        margin: 2,
-                    },
-                }}
-            >
-                <Box
-                    sx={{
-                        display: 'grid',
-                        gridTemplateColumns: 'repeat(3, 2in)',
-                        gridTemplateRows: 'repeat(4, 2in)',
-                        columnGap: '0.375in',
-                        rowGap: '0.5in',
-                        width: 'fit-content',
-                    }}
-                >
-                    {page.labels.map(item => (
-                        <LabelItem
-                            key={item.labelNumber}
-                            code={item.code}
-                            codeColorPattern={page.codeColorPattern}
-                        />
-                    ))}
-                </Box>
-            </Box>
+            </LabelPrintToolbar>
+            <LabelSheetList
+                sheets={sheets}
+                format={format}
+                codeColorPattern={page.codeColorPattern}
+                template={template}
+                calibration={calibration}
+                onSelectStartCell={getLabelsPerSheet(format) > 1 ? setStartCell : undefined}
+            />
         </Box>
     );
 };
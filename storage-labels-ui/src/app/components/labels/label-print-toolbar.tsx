@@ -0,0 +1,84 @@
+import React, { PropsWithChildren } from 'react';
+import { Box, Button, TextField, Typography } from '@mui/material';
+import PrintIcon from '@mui/icons-material/Print';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
+import TuneIcon from '@mui/icons-material/Tune';
+import { Link } from 'react-router';
+import { getLabelsPerSheet, LabelFormatDefinition } from './label-formats';
+import { PrinterSelect } from './printer-select';
+
+interface LabelPrintToolbarProps {
+    format: LabelFormatDefinition;
+    startCell: number;
+    onStartCellChange: (startCell: number) => void;
+    calibrations: PrinterCalibration[];
+    printerName: string;
+    onPrinterChange: (name: string) => void;
+    exporting: boolean;
+    onDownloadPdf: () => void;
+}
+
+/**
+ * Screen-only print controls shared by the label print pages. Children are rendered
+ * first, e.g. a back button or page specific options.
+ */
+export const LabelPrintToolbar: React.FC<PropsWithChildren<LabelPrintToolbarProps>> = ({
+    format,
+    startCell,
+    onStartCellChange,
+    calibrations,
+    printerName,
+    onPrinterChange,
+    exporting,
+    onDownloadPdf,
+    children,
+}) => {
+    const labelsPerSheet = getLabelsPerSheet(format);
+
+    const handleStartCellChange = (value: string) => {
+        const parsed = parseInt(value) || 0;
+        onStartCellChange(Math.min(Math.max(parsed, 0), labelsPerSheet - 1));
+    };
+
+    return (
+        <Box
+            className="no-print"
+            sx={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: 2,
+                p: 2,
+                alignItems: 'center',
+                '@media print': { display: 'none' },
+            }}
+        >
+            {children}
+            <Button variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()}>
+                Print
+            </Button>
+            <Button startIcon={<PictureAsPdfIcon />} onClick={onDownloadPdf} disabled={exporting}>
+                {exporting ? 'Exporting...' : 'Download PDF'}
+            </Button>
+            {labelsPerSheet > 1 && (
+                <TextField
+                    variant="standard"
+                    size="small"
+                    label="Skip first labels"
+                    type="number"
+                    value={startCell}
+                    onChange={e => handleStartCellChange(e.target.value)}
+                    helperText="Or click a cell on the first sheet"
+                    slotProps={{ htmlInput: { min: 0, max: labelsPerSheet - 1 } }}
+                    sx={{ width: 180 }}
+                />
+            )}
+            <PrinterSelect calibrations={calibrations} value={printerName} onChange={onPrinterChange} />
+            <Button startIcon={<TuneIcon />} component={Link} to="/labels/calibrate">
+                Calibrate
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+                {format.name} — align sheet per label guidelines before printing.
+            </Typography>
+        </Box>
+    );
+};
@@ -5,12 +5,16 @@ import { LabelJobPage } from './label-job';
 import { LabelPrintPage } from './label-print-page';
 import { EditLabelJobPage } from './edit-label-job';
 import { CreateLabelJobPage } from './create-label-job';
+import { LabelCalibrationPage } from './label-calibration';
+import { BoxLabelPrintPage } from './box-label-print-page';
 
 export const LabelRoutes: React.FC = () => {
     return (
         <Routes>
             <Route index element={<LabelJobsPage />} />
             <Route path="create" element={<CreateLabelJobPage />} />
+            <Route path="calibrate" element={<LabelCalibrationPage />} />
+            <Route path="boxes" element={<BoxLabelPrintPage />} />
             <Route path=":jobId" element={<LabelJobPage />} />
             <Route path=":jobId/edit" element={<EditLabelJobPage />} />
             <Route path=":jobId/print" element={<LabelPrintPage />} />
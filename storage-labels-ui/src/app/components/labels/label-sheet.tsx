@@ -0,0 +1,170 @@
+import React, { PropsWithChildren } from 'react';
+import { Box } from '@mui/material';
+import { chunkIntoSheets, getLabelsPerSheet, LabelFormatDefinition } from './label-formats';
+import { LabelItem } from './label-item';
+
+export const NO_CALIBRATION: PrinterCalibration = {
+    name: '',
+    offsetX: 0,
+    offsetY: 0,
+    scaleX: 1,
+    scaleY: 1,
+};
+
+export const getCalibrationTransform = (calibration: PrinterCalibration) =>
+    `translate(${calibration.offsetX}mm, ${calibration.offsetY}mm) scale(${calibration.scaleX}, ${calibration.scaleY})`;
+
+interface LabelPageStyleProps {
+    format: LabelFormatDefinition;
+}
+
+/**
+ * Global print rules for a label sheet: zero page margins and the physical page size of the format.
+ */
+export const LabelPageStyle: React.FC<LabelPageStyleProps> = ({ format }) => (
+    <style>{`
+        @page {
+            margin: 0 !important;
+            size: ${format.pageWidth}in ${format.pageHeight}in;
+        }
+        @media print {
+            html, body {
+                margin: 0 !important;
+                padding: 0 !important;
+                height: 100%;
+            }
+        }
+        .no-print {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+        }
+    `}</style>
+);
+
+interface LabelSheetProps {
+    format: LabelFormatDefinition;
+    calibration?: PrinterCalibration;
+    breakAfter?: boolean;
+}
+
+/**
+ * One physical sheet laid out from the format registry. The printer calibration is only
+ * applied when printing so the on-screen preview stays aligned.
+ */
+export const LabelSheet: React.FC<PropsWithChildren<LabelSheetProps>> = ({ format, calibration = NO_CALIBRATION, breakAfter = false, children }) => (
+    <Box
+        sx={{
+            '@media print': {
+                padding: `${format.marginTop}in 0 0 ${format.marginLeft}in`,
+                width: `${format.pageWidth}in`,
+                height: `${format.pageHeight}in`,
+                boxSizing: 'border-box',
+                overflow: 'hidden',
+                breakAfter: breakAfter ? 'page' : 'auto',
+                transform: getCalibrationTransform(calibration),
+                transformOrigin: 'top left',
+            },
+            '@media screen': {
+                margin: 2,
+            },
+        }}
+    >
+        <Box
+            sx={{
+                display: 'grid',
+                gridTemplateColumns: `repeat(${format.columns}, ${format.cellWidth}in)`,
+                gridTemplateRows: `repeat(${format.rows}, ${format.cellHeight}in)`,
+                columnGap: `${format.columnGap}in`,
+                rowGap: `${format.rowGap}in`,
+                width: 'fit-content',
+            }}
+        >
+            {children}
+        </Box>
+    </Box>
+);
+
+export interface PrintableLabel {
+    id: string | number;
+    code: string;
+    details?: string[];
+}
+
+/**
+ * Lays labels out on sheets, leaving the first `startCell` cells empty so a partially
+ * used sheet can be filled. Roll formats (one label per sheet) never skip cells.
+ */
+export const arrangeLabels = <T extends PrintableLabel>(labels: T[], format: LabelFormatDefinition, startCell: number) => {
+    const skip = getLabelsPerSheet(format) > 1 ? startCell : 0;
+    const slots: (T | null)[] = [...Array<null>(skip).fill(null), ...labels];
+    return chunkIntoSheets(slots, format);
+};
+
+interface LabelSheetListProps {
+    sheets: (PrintableLabel | null)[][];
+    format: LabelFormatDefinition;
+    codeColorPattern: string;
+    /** Layout and logo come from the template; its text lines are already in each label's details. */
+    template?: LabelTemplate;
+    calibration?: PrinterCalibration;
+    /** When set, cells on the first sheet can be clicked to choose where printing starts. */
+    onSelectStartCell?: (cellIndex: number) => void;
+}
+
+/**
+ * Renders arranged sheets with LabelItem cells. Sheets after the first start on a new
+ * physical page when printing, and skipped cells render as blank placeholders on screen.
+ */
+export const LabelSheetList: React.FC<LabelSheetListProps> = ({ sheets, format, codeColorPattern, template, calibration, onSelectStartCell }) => (
+    <>
+        {sheets.map((sheet, sheetIndex) => (
+            <LabelSheet
+                key={sheetIndex}
+                format={format}
+                calibration={calibration}
+                breakAfter={sheetIndex < sheets.length - 1}
+            >
+                {sheet.map((label, cellIndex) => {
+                    const selectable = !!onSelectStartCell && sheetIndex === 0;
+                    return (
+                        <Box
+                            key={label ? label.id : `empty-${cellIndex}`}
+                            title={selectable ? `Start printing at cell ${cellIndex + 1}` : undefined}
+                            onClick={selectable ? () => onSelectStartCell(cellIndex) : undefined}
+                            sx={{
+                                cursor: selectable ? 'pointer' : undefined,
+                                '@media screen': selectable ? {
+                                    '&:hover': { outline: '2px solid', outlineColor: 'primary.main' },
+                                } : {},
+                            }}
+                        >
+                            {label ? (
+                                <LabelItem
+                                    code={label.code}
+                                    codeColorPattern={codeColorPattern}
+                                    format={format}
+                                    details={label.details}
+                                    layout={template?.layout}
+                                    showLogo={template?.showLogo}
+                                    symbology={template?.symbology}
+                                    encodeScanUrl={template?.encodeScanUrl}
+                                />
+                            ) : (
+                                <Box
+                                    sx={{
+                                        width: `${format.cellWidth}in`,
+                                        height: `${format.cellHeight}in`,
+                                        boxSizing: 'border-box',
+                                        border: '1px dashed #ccc',
+                                        backgroundColor: 'action.hover',
+                                        '@media print': { visibility: 'hidden' },
+                                    }}
+                                />
+                            )}
+                        </Box>
+                    );
+                })}
+            </LabelSheet>
+        ))}
+    </>
+);
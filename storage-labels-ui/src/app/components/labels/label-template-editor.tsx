@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+    Box,
+    Checkbox,
+    FormControl,
+    FormControlLabel,
+    FormGroup,
+    InputLabel,
+    MenuItem,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import { LabelFormatDefinition } from './label-formats';
+import { LabelItem } from './label-item';
+import { getTemplateLines, LabelContent, labelLayoutOptions, labelSymbologyOptions } from './label-template';
+
+interface LabelTemplateEditorProps {
+    template: LabelTemplate;
+    onChange: (template: LabelTemplate) => void;
+    disabled?: boolean;
+}
+
+export const LabelTemplateEditor: React.FC<LabelTemplateEditorProps> = ({ template, onChange, disabled }) => {
+    const toggle = (field: 'showBoxName' | 'showLocationName' | 'showLogo' | 'showDate' | 'encodeScanUrl') => (
+        <Checkbox
+            checked={template[field] ?? false}
+            onChange={e => onChange({ ...template, [field]: e.target.checked })}
+            disabled={disabled}
+        />
+    );
+
+    return (
+        <Stack spacing={2}>
+            <FormControl fullWidth>
+                <InputLabel>Layout</InputLabel>
+                <Select
+                    variant="standard"
+                    label="Layout"
+                    value={template.layout}
+                    onChange={e => onChange({ ...template, layout: e.target.value as LabelLayout })}
+                    disabled={disabled}
+                >
+                    {labelLayoutOptions.map(option => (
+                        <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+            <FormControl fullWidth>
+                <InputLabel>Barcode Type</InputLabel>
+                <Select
+                    variant="standard"
+                    label="Barcode Type"
+                    value={template.symbology ?? 'QrCode'}
+                    onChange={e => onChange({ ...template, symbology: e.target.value as LabelSymbology })}
+                    disabled={disabled}
+                >
+                    {labelSymbologyOptions.map(option => (
+                        <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+            <FormGroup row>
+                <FormControlLabel control={toggle('showBoxName')} label="Box name" />
+                <FormControlLabel control={toggle('showLocationName')} label="Location name" />
+                <FormControlLabel control={toggle('showDate')} label="Print date" />
+                <FormControlLabel control={toggle('showLogo')} label="Logo" />
+            </FormGroup>
+            <Box>
+                <FormControlLabel control={toggle('encodeScanUrl')} label="Encode scan link" />
+                <Typography variant="caption" color="text.secondary" component="p">
+                    Phone cameras open the box directly. Links make denser codes, so prefer QR or Data Matrix.
+                </Typography>
+            </Box>
+            <TextField
+                variant="standard"
+                label="Short Description (optional)"
+                value={template.description ?? ''}
+                onChange={e => onChange({ ...template, description: e.target.value || null })}
+                helperText="Printed on every label, e.g. an owner or project name"
+                disabled={disabled}
+                slotProps={{ htmlInput: { maxLength: 100 } }}
+            />
+        </Stack>
+    );
+};
+
+interface LabelPreviewProps {
+    format: LabelFormatDefinition;
+    template: LabelTemplate;
+    codeColorPattern: string;
+    code: string;
+    content?: LabelContent;
+}
+
+/** A single label rendered at its physical size, for previewing template changes. */
+export const LabelPreview: React.FC<LabelPreviewProps> = ({ format, template, codeColorPattern, code, content }) => (
+    <Box>
+        <Typography variant="subtitle2" gutterBottom>Preview</Typography>
+        <Box sx={{ display: 'inline-block', backgroundColor: '#fff', color: '#000', boxShadow: 1 }}>
+            <LabelItem
+                code={code}
+                codeColorPattern={codeColorPattern}
+                format={format}
+                details={getTemplateLines(template, content)}
+                layout={template.layout}
+                showLogo={template.showLogo}
+                symbology={template.symbology}
+                encodeScanUrl={template.encodeScanUrl}
+            />
+        </Box>
+    </Box>
+);
@@ -0,0 +1,68 @@
+import { LabelFormatDefinition } from './label-formats';
+import { getScanUrl } from '../shared/scan-formats';
+
+export const DEFAULT_LABEL_TEMPLATE: LabelTemplate = {
+    layout: 'Auto',
+    showBoxName: false,
+    showLocationName: false,
+    description: null,
+    showLogo: false,
+    showDate: false,
+    symbology: 'QrCode',
+    encodeScanUrl: false,
+};
+
+export const labelLayoutOptions: { value: LabelLayout; label: string }[] = [
+    { value: 'Auto', label: 'Automatic (QR left on wide labels)' },
+    { value: 'QrTop', label: 'QR on top, text below' },
+    { value: 'QrLeft', label: 'QR on the left, text on the right' },
+];
+
+export const labelSymbologyOptions: { value: LabelSymbology; label: string }[] = [
+    { value: 'QrCode', label: 'QR Code' },
+    { value: 'Code128', label: 'Code 128 (linear, for handheld scanners)' },
+    { value: 'DataMatrix', label: 'Data Matrix (compact 2D)' },
+];
+
+/** Values filled into template lines. Missing values print as a blank line to write on. */
+export interface LabelContent {
+    boxName?: string;
+    locationName?: string;
+    date?: Date;
+}
+
+const WRITE_IN_LINE = '____________';
+
+/** True when the QR code sits beside the text rather than above it. */
+export const isQrLeft = (format: LabelFormatDefinition, layout: LabelLayout = 'Auto') =>
+    layout === 'QrLeft' || (layout === 'Auto' && format.cellWidth >= format.cellHeight * 2);
+
+/** Value encoded in the barcode: the bare code, or a scan deep link when the template asks for one. */
+export const getBarcodeValue = (code: string, encodeScanUrl = false) =>
+    encodeScanUrl ? getScanUrl(code) : code;
+
+/** Text lines printed under the code for a template, in a fixed order. */
+export const getTemplateLines = (template: LabelTemplate, content: LabelContent = {}): string[] => {
+    const lines: string[] = [];
+    if (template.showBoxName) {
+        lines.push(content.boxName || `Box: ${WRITE_IN_LINE}`);
+    }
+    if (template.showLocationName) {
+        lines.push(content.locationName || `Location: ${WRITE_IN_LINE}`);
+    }
+    if (template.description?.trim()) {
+        lines.push(template.description.trim());
+    }
+    if (template.showDate) {
+        lines.push((content.date ?? new Date()).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }));
+    }
+    return lines;
+};
+
+/** Builds a code the way the API's label generator does, for previews. */
+export const previewLabelCode = (prefix: string, algorithm: LabelIncrementAlgorithm, suffixLength: number, index: number) => {
+    const suffix = algorithm === 'Base36Suffix'
+        ? Math.max(index, 0).toString(36).toUpperCase().padStart(suffixLength, '0').slice(-suffixLength)
+        : String(index).padStart(suffixLength, '0');
+    return `${prefix}${suffix}`;
+};
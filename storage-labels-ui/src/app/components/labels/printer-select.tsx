@@ -0,0 +1,56 @@
+import React from 'react';
+import { FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+import { useApi } from '../../../api';
+import { useUser } from '../../providers/user-provider';
+import { NO_CALIBRATION } from './label-sheet';
+
+/**
+ * Tracks the active printer calibration from user preferences. Changing the printer
+ * saves it as the active printer so the next print picks it up automatically.
+ */
+export const usePrinterCalibration = () => {
+    const { Api } = useApi();
+    const { user, updateUser } = useUser();
+    const calibrations = user?.preferences?.printerCalibrations ?? [];
+    const [printerName, setPrinterName] = React.useState(user?.preferences?.activePrinter ?? '');
+
+    React.useEffect(() => {
+        setPrinterName(user?.preferences?.activePrinter ?? '');
+    }, [user]);
+
+    const selectPrinter = (name: string) => {
+        setPrinterName(name);
+        if (user?.preferences) {
+            Api.User.updateUserPreferences({ ...user.preferences, activePrinter: name || undefined })
+                .then(() => updateUser({ silent: true }))
+                .catch(error => console.warn('Failed to save active printer:', error));
+        }
+    };
+
+    const calibration = calibrations.find(c => c.name === printerName) ?? NO_CALIBRATION;
+
+    return { calibrations, printerName, calibration, selectPrinter };
+};
+
+interface PrinterSelectProps {
+    calibrations: PrinterCalibration[];
+    value: string;
+    onChange: (name: string) => void;
+}
+
+export const PrinterSelect: React.FC<PrinterSelectProps> = ({ calibrations, value, onChange }) => (
+    <FormControl size="small" sx={{ minWidth: 200 }}>
+        <InputLabel>Printer</InputLabel>
+        <Select
+            variant="standard"
+            label="Printer"
+            value={calibrations.some(c => c.name === value) ? value : ''}
+            onChange={e => onChange(e.target.value)}
+        >
+            <MenuItem value="">No calibration</MenuItem>
+            {calibrations.map(c => (
+                <MenuItem key={c.name} value={c.name}>{c.name}</MenuItem>
+            ))}
+        </Select>
+    </FormControl>
+);
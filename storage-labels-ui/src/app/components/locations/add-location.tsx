@@ -14,6 +14,7 @@ export const AddLocation: React.FC = () => {
     const [location, setLocation] = useState<StorageLocation>({
         locationId: 0,
         name: '',
+        code: '',
         created: '',
         updated: '',
         accessLevel: 'None'
@@ -97,6 +98,16 @@ export const AddLocation: React.FC = () => {
                             />
                             <ErrorMessage isSubmitted={isSubmitted} inputName="name" results={results} />
                         </FormControl>
+                        <TextField
+                            variant="standard"
+                            label="Code"
+                            helperText="Printed on the location's label. Leave empty to generate one."
+                            value={location.code}
+                            onChange={(e) => setLocation({ ...location, code: e.target.value })}
+                            disabled={postingJob}
+                            fullWidth
+                            sx={{ mt: 2 }}
+                        />
                     </Box>
                     <Stack
                         direction="row"
@@ -24,6 +24,7 @@ export const EditLocation: React.FC = () => {
     const alert = useAlertMessage();
     const [location, setLocation] = useState<StorageLocation | null>(null);
     const [name, setName] = useState('');
+    const [code, setCode] = useState('');
     const { Api } = useApi();
     const [isSubmitted, setIsSubmitted] = useState(false);
     const [saving, setSaving] = useState(false);
@@ -44,6 +45,7 @@ export const EditLocation: React.FC = () => {
                 .then(({ data }) => {
                     setLocation(data);
                     setName(data.name);
+                    setCode(data.code);
                 })
                 .catch((error) => alert.addError(error));
         }
@@ -59,7 +61,7 @@ export const EditLocation: React.FC = () => {
         
         if (!saving && valid && location) {
             setSaving(true);
-            const request: LocationRequest = { name };
+            const request: LocationRequest = { name, code };
             Api.Location.updateLocation(location.locationId, request)
                 .then(() => {
                     navigate(`..`);
@@ -118,6 +120,16 @@ export const EditLocation: React.FC = () => {
                             />
                             <ErrorMessage isSubmitted={isSubmitted} inputName="name" results={results} />
                         </FormControl>
+                        <TextField
+                            variant="standard"
+                            label="Code"
+                            helperText="Changing the code means reprinting the location's label."
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            disabled={saving}
+                            fullWidth
+                            sx={{ mt: 2 }}
+                        />
                     </Box>
                     <Stack
                         direction="row"
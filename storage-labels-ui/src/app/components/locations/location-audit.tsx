@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router';
+import {
+    Box,
+    Button,
+    Chip,
+    Divider,
+    List,
+    ListItem,
+    ListItemText,
+    Paper,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import DownloadIcon from '@mui/icons-material/Download';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import { Scanner } from '@yudiel/react-qr-scanner';
+import { useConfirm } from 'material-ui-confirm';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { useLocation } from '../../providers/location-provider';
+import { useSnackbar } from '../../providers/snackbar-provider';
+import { Breadcrumbs, FormattedCode, normalizeScannedCode, SCAN_FORMATS } from '../shared';
+
+type ScanStatus = 'checking' | 'seen' | 'elsewhere' | 'unknown';
+
+interface AuditScan {
+    code: string;
+    scannedAt: string;
+    status: ScanStatus;
+    boxName?: string;
+    /** Where a box from another location actually belongs, or the location a location label is for. */
+    locationName?: string;
+}
+
+const STORAGE_KEY_PREFIX = 'location-audit-';
+
+// Long enough that holding a label in front of the camera doesn't count it over and over
+const SCAN_DELAY = 1500;
+
+const loadSession = (locationId: string): AuditScan[] => {
+    try {
+        const stored = sessionStorage.getItem(STORAGE_KEY_PREFIX + locationId);
+        const scans: AuditScan[] = stored ? JSON.parse(stored) : [];
+        // Lookups still running when the page was left never finished
+        return scans.map(scan => scan.status === 'checking' ? { ...scan, status: 'unknown' } : scan);
+    } catch {
+        return [];
+    }
+};
+
+const csvCell = (value: string | undefined) => `"${(value ?? '').replace(/"/g, '""')}"`;
+
+const downloadCsv = (fileName: string, rows: (string | undefined)[][]) => {
+    const csv = rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const AuditSection: React.FC<{ title: string; count: number; empty: string; children: React.ReactNode }> = ({
+    title,
+    count,
+    empty,
+    children,
+}) => (
+    <Box sx={{ mt: 2 }}>
+        <Typography variant="h6">{title} ({count})</Typography>
+        {count === 0 ? (
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>{empty}</Typography>
+        ) : (
+            <List dense disablePadding>{children}</List>
+        )}
+    </Box>
+);
+
+/**
+ * Continuous scanning for stock-takes. Every code scanned is kept for the browser session, boxes
+ * of this location are ticked off as seen, and codes from elsewhere are flagged instead of
+ * navigated to. The full report can be downloaded as CSV.
+ */
+export const LocationAudit: React.FC = () => {
+    const params = useParams<Record<'locationId', string>>();
+    const locationId = params.locationId ?? '';
+    const { Api } = useApi();
+    const alert = useAlertMessage();
+    const snackbar = useSnackbar();
+    const confirm = useConfirm();
+    const { location } = useLocation();
+    const [boxes, setBoxes] = useState<Box[]>([]);
+    const [scans, setScans] = useState<AuditScan[]>(() => loadSession(locationId));
+    const [paused, setPaused] = useState(false);
+    const [manualCode, setManualCode] = useState('');
+
+    useEffect(() => {
+        Api.Box.getBoxes(Number(locationId))
+            .then(({ data }) => setBoxes(data))
+            .catch((error) => alert.addError(error));
+    }, [locationId]);
+
+    useEffect(() => {
+        sessionStorage.setItem(STORAGE_KEY_PREFIX + locationId, JSON.stringify(scans));
+    }, [scans, locationId]);
+
+    // Two reads of the same label can land before a re-render, so check again when adding
+    const addScan = (scan: AuditScan) => {
+        setScans(current => current.some(s => s.code === scan.code) ? current : [scan, ...current]);
+    };
+
+    const updateScan = (code: string, changes: Partial<AuditScan>) => {
+        setScans(current => current.map(scan => scan.code === code ? { ...scan, ...changes } : scan));
+    };
+
+    const recordCode = (code: string) => {
+        if (scans.some(scan => scan.code === code)) {
+            snackbar.showSuccess(`${code} already scanned`);
+            return;
+        }
+
+        const box = boxes.find(b => b.code === code);
+        const scannedAt = new Date().toISOString();
+        if (box) {
+            addScan({ code, scannedAt, status: 'seen', boxName: box.name });
+            return;
+        }
+
+        // Not one of ours; find out whether it belongs somewhere else
+        addScan({ code, scannedAt, status: 'checking' });
+        Api.Search.searchByQrCode(code)
+            .then(({ data }) => updateScan(code, data.type === 'location'
+                ? { status: 'unknown', locationName: data.locationName }
+                : data.locationId === locationId
+                    ? { status: 'seen', boxName: data.boxName }
+                    : { status: 'elsewhere', boxName: data.boxName, locationName: data.locationName }))
+            .catch(() => updateScan(code, { status: 'unknown' }));
+    };
+
+    const handleManualAdd = () => {
+        const code = normalizeScannedCode(manualCode);
+        if (code) {
+            recordCode(code);
+        }
+        setManualCode('');
+    };
+
+    const handleReset = async () => {
+        const { confirmed } = await confirm({
+            title: 'Start Over',
+            description: `Forget all ${scans.length} scanned codes and start a new audit?`,
+            confirmationText: 'Start Over',
+        });
+        if (confirmed) {
+            setScans([]);
+        }
+    };
+
+    const seenCodes = new Set(scans.filter(scan => scan.status === 'seen').map(scan => scan.code));
+    const seen = boxes.filter(box => seenCodes.has(box.code));
+    const missing = boxes.filter(box => !seenCodes.has(box.code));
+    const elsewhere = scans.filter(scan => scan.status === 'elsewhere');
+    const unknown = scans.filter(scan => scan.status === 'unknown');
+    const scannedAt = new Map(scans.map(scan => [scan.code, scan.scannedAt]));
+
+    const handleExport = () => {
+        const locationName = location?.name ?? '';
+        downloadCsv(`audit-${locationName || locationId}-${new Date().toISOString().slice(0, 10)}.csv`, [
+            ['Code', 'Box', 'Status', 'Location', 'Scanned At'],
+            ...seen.map(box => [box.code, box.name, 'Seen', locationName, scannedAt.get(box.code)]),
+            ...missing.map(box => [box.code, box.name, 'Missing', locationName, undefined]),
+            ...elsewhere.map(scan => [scan.code, scan.boxName, 'Other location', scan.locationName, scan.scannedAt]),
+            ...unknown.map(scan => [scan.code, undefined, scan.locationName ? 'Location label' : 'Unknown code', scan.locationName, scan.scannedAt]),
+        ]);
+    };
+
+    if (!location) {
+        return null;
+    }
+
+    return (
+        <React.Fragment>
+            <Box sx={{ margin: 2, mb: 2 }}>
+                <Breadcrumbs
+                    items={[
+                        { label: location.name, path: `/locations/${location.locationId}` },
+                        { label: 'Audit' }
+                    ]}
+                />
+            </Box>
+            <Paper sx={{ p: 2 }}>
+                <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+                    <Typography variant="h5" sx={{ flexGrow: 1 }}>Audit {location.name}</Typography>
+                    <Button
+                        startIcon={paused ? <PlayArrowIcon /> : <PauseIcon />}
+                        onClick={() => setPaused(!paused)}
+                    >
+                        {paused ? 'Resume' : 'Pause'}
+                    </Button>
+                    <Button startIcon={<DownloadIcon />} onClick={handleExport} disabled={boxes.length === 0 && scans.length === 0}>
+                        Export CSV
+                    </Button>
+                    <Button startIcon={<RestartAltIcon />} color="secondary" onClick={handleReset} disabled={scans.length === 0}>
+                        Start Over
+                    </Button>
+                </Stack>
+                <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap', mb: 2 }}>
+                    <Chip color="success" label={`Seen ${seen.length} of ${boxes.length}`} />
+                    <Chip color={missing.length > 0 ? 'warning' : 'default'} label={`Missing ${missing.length}`} />
+                    <Chip color={elsewhere.length > 0 ? 'error' : 'default'} label={`Other locations ${elsewhere.length}`} />
+                    <Chip label={`Unknown ${unknown.length}`} />
+                </Stack>
+                <Box sx={{ maxWidth: 400, mx: 'auto' }}>
+                    <Scanner
+                        onScan={(detectedCodes) => {
+                            const code = normalizeScannedCode(detectedCodes[0]?.rawValue ?? '');
+                            if (code) {
+                                recordCode(code);
+                            }
+                        }}
+                        constraints={{
+                            facingMode: 'environment'
+                        }}
+                        formats={SCAN_FORMATS}
+                        paused={paused}
+                        allowMultiple
+                        scanDelay={SCAN_DELAY}
+                    />
+                </Box>
+                <Stack direction="row" spacing={1} sx={{ mt: 2, alignItems: 'flex-end' }}>
+                    <TextField
+                        variant="standard"
+                        label="Enter a code"
+                        helperText="For damaged labels or a handheld scanner"
+                        value={manualCode}
+                        onChange={(e) => setManualCode(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                handleManualAdd();
+                            }
+                        }}
+                        sx={{ flexGrow: 1 }}
+                    />
+                    <Button onClick={handleManualAdd} disabled={!manualCode.trim()}>
+                        Add
+                    </Button>
+                </Stack>
+                <Divider sx={{ mt: 2 }} />
+                <AuditSection title="Missing" count={missing.length} empty="Every box in this location has been seen.">
+                    {missing.map(box => (
+                        <ListItem key={box.boxId} disableGutters>
+                            <ListItemText primary={box.name} secondary={<FormattedCode code={box.code} variant="body2" />} />
+                        </ListItem>
+                    ))}
+                </AuditSection>
+                <AuditSection title="From other locations" count={elsewhere.length} empty="No boxes from other locations scanned.">
+                    {elsewhere.map(scan => (
+                        <ListItem key={scan.code} disableGutters>
+                            <ListItemText
+                                primary={scan.boxName}
+                                secondary={<React.Fragment><FormattedCode code={scan.code} variant="body2" />{` · belongs in ${scan.locationName}`}</React.Fragment>}
+                            />
+                        </ListItem>
+                    ))}
+                </AuditSection>
+                <AuditSection title="Unknown codes" count={unknown.length} empty="No unrecognised codes scanned.">
+                    {unknown.map(scan => (
+                        <ListItem key={scan.code} disableGutters>
+                            <ListItemText
+                                primary={scan.code}
+                                secondary={scan.locationName ? `Location label for ${scan.locationName}` : 'Not a box you have access to'}
+                            />
+                        </ListItem>
+                    ))}
+                </AuditSection>
+                <AuditSection title="Seen" count={seen.length} empty="Scan box labels to tick them off.">
+                    {seen.map(box => (
+                        <ListItem key={box.boxId} disableGutters>
+                            <ListItemText primary={box.name} secondary={<FormattedCode code={box.code} variant="body2" />} />
+                        </ListItem>
+                    ))}
+                </AuditSection>
+            </Paper>
+        </React.Fragment>
+    );
+};
@@ -1,7 +1,10 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { useLocation } from '../../providers/location-provider';
+import { useLabelQueue } from '../../providers/label-queue-provider';
+import { useSnackbar } from '../../providers/snackbar-provider';
+import { useUser } from '../../providers/user-provider';
 import { useApi } from '../../../api';
 import { 
     Avatar, 
@@ -9,22 +12,29 @@ import {
     Box, 
     Button,
     Checkbox,
+    CircularProgress,
     Dialog,
     DialogActions,
     DialogContent,
     DialogContentText,
     DialogTitle,
     Fab, 
+    FormControl,
     FormControlLabel,
+    FormLabel,
     IconButton,
+    InputAdornment,
     Menu,
     MenuItem,
     List, 
     ListItem, 
     ListItemAvatar, 
     ListItemButton, 
+    ListItemIcon,
     ListItemText, 
     Paper, 
+    Select,
+    TextField,
     Typography,
     useTheme
 } from '@mui/material';
@@ -34,7 +44,51 @@ import MoreVertIcon from '@mui/icons-material/MoreVert';
 import EditIcon from '@mui/icons-material/Edit';
 import PeopleIcon from '@mui/icons-material/People';
 import InventoryIcon from '@mui/icons-material/Inventory';
-import { SearchBar, Breadcrumbs, EmptyState } from '../shared';
+import QrCode2Icon from '@mui/icons-material/QrCode2';
+import PrintIcon from '@mui/icons-material/Print';
+import ChecklistIcon from '@mui/icons-material/Checklist';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import MoveDownIcon from '@mui/icons-material/MoveDown';
+import DriveFileMoveIcon from '@mui/icons-material/DriveFileMove';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import FilterListIcon from '@mui/icons-material/FilterList';
+import TuneIcon from '@mui/icons-material/Tune';
+import { SearchBar, Breadcrumbs, EmptyState, FormattedCode, getScanResultPath } from '../shared';
+
+const plural = (count: number, noun: string, suffix = 's') => `${count} ${noun}${count !== 1 ? suffix : ''}`;
+
+const describeLocationStats = (boxCount: number, itemCount: number, imageCount: number) =>
+    [plural(boxCount, 'box', 'es'), plural(itemCount, 'item'), plural(imageCount, 'photo')].join(' · ');
+
+const describeBoxStats = (stats: BoxStats) => {
+    const parts = [plural(stats.itemCount, 'item')];
+    if (stats.boxCount) {
+        parts.push(`${plural(stats.boxCount, 'box', 'es')} inside with ${plural(stats.totalItemCount ?? 0, 'item')} in all`);
+    }
+    if (stats.imageCount > 0) parts.push(plural(stats.imageCount, 'photo'));
+    if (stats.lastItemUpdated) parts.push(`items updated ${new Date(stats.lastItemUpdated).toLocaleDateString()}`);
+    return parts.join(' · ');
+};
+
+const countNestedBoxes = (boxes: Box[]) => boxes.reduce((total, box) => total + (box.stats?.boxCount ?? 0), 0);
+
+const BOX_PAGE_SIZE = 30;
+const FILTER_DELAY = 300;
+
+const DEFAULT_BOX_SORT: BoxListSort = { sort: 'Name', descending: false };
+
+const BOX_SORT_LABELS: Record<BoxSortField, string> = {
+    Name: 'Name',
+    Code: 'Code',
+    Updated: 'Last updated',
+    LastAccessed: 'Last opened',
+    ItemCount: 'Item count',
+};
+
+type BulkAction = 'move' | 'delete';
+
+const BULK_PAST_TENSE: Record<BulkAction, string> = { move: 'moved', delete: 'deleted' };
 
 export const Location: React.FC = () => {
     const params = useParams();
@@ -42,39 +96,102 @@ export const Location: React.FC = () => {
     const alert = useAlertMessage();
     const { Api } = useApi();
     const { location } = useLocation();
+    const { queue, addBoxes, addLocation } = useLabelQueue();
+    const snackbar = useSnackbar();
+    const { user, updateUser } = useUser();
+    const locationId = Number(params.locationId);
     const [boxes, setBoxes] = useState<Box[]>([]);
-    const [boxItemCounts, setBoxItemCounts] = useState<Record<string, number>>({});
+    const [totalCount, setTotalCount] = useState(0);
+    const [locationBoxCount, setLocationBoxCount] = useState(0);
+    /** Boxes nested inside the listed ones, which the unfiltered list leaves out. */
+    const [nestedBoxCount, setNestedBoxCount] = useState(0);
+    const [pageNumber, setPageNumber] = useState(1);
+    const [loadingBoxes, setLoadingBoxes] = useState(false);
+    const [sort, setSort] = useState<BoxListSort>(DEFAULT_BOX_SORT);
+    const [filter, setFilter] = useState('');
+    const [appliedFilter, setAppliedFilter] = useState('');
+    const requestSequence = useRef(0);
+    const loadMoreRef = useRef<HTMLDivElement>(null);
     const [boxToDelete, setBoxToDelete] = useState<Box | null>(null);
     const [boxItemCount, setBoxItemCount] = useState<number>(0);
     const [openDeleteDialog, setOpenDeleteDialog] = useState(false);
     const [openDeleteLocationDialog, setOpenDeleteLocationDialog] = useState(false);
     const [settingsMenuAnchor, setSettingsMenuAnchor] = useState<null | HTMLElement>(null);
     const [forceDelete, setForceDelete] = useState(false);
+    const [selecting, setSelecting] = useState(false);
+    const [selectedBoxIds, setSelectedBoxIds] = useState<string[]>([]);
+    const [bulkRunning, setBulkRunning] = useState(false);
+    const [openBulkMoveDialog, setOpenBulkMoveDialog] = useState(false);
+    const [openBulkDeleteDialog, setOpenBulkDeleteDialog] = useState(false);
+    const [bulkForceDelete, setBulkForceDelete] = useState(false);
+    const [moveDestinations, setMoveDestinations] = useState<StorageLocation[]>([]);
+    const [moveDestinationId, setMoveDestinationId] = useState<number | null>(null);
 
     const theme = useTheme();
 
+    const savedSort = user?.preferences?.boxListSorts?.[String(locationId)] ?? DEFAULT_BOX_SORT;
+
+    useEffect(() => {
+        setSort(savedSort);
+    }, [locationId, savedSort.sort, savedSort.descending]);
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => setAppliedFilter(filter.trim()), FILTER_DELAY);
+        return () => window.clearTimeout(timer);
+    }, [filter]);
+
+    const loadBoxes = (page: number) => {
+        if (!locationId) return;
+        // Only the latest request may update the list, so fast sort or filter changes can't interleave
+        const sequence = ++requestSequence.current;
+        setLoadingBoxes(true);
+        // Filtering looks inside boxes too; otherwise nested boxes are reached through their container
+        Api.Box.getBoxPage(locationId, { ...sort, filter: appliedFilter, topLevel: !appliedFilter, pageNumber: page, pageSize: BOX_PAGE_SIZE })
+            .then(({ data, totalCount }) => {
+                if (sequence !== requestSequence.current) return;
+                setBoxes(prev => page === 1
+                    ? data
+                    : [...prev, ...data.filter(box => !prev.some(p => p.boxId === box.boxId))]);
+                setTotalCount(totalCount);
+                if (!appliedFilter) {
+                    const nested = countNestedBoxes(data);
+                    setLocationBoxCount(totalCount);
+                    setNestedBoxCount(prev => page === 1 ? nested : prev + nested);
+                }
+                setPageNumber(page);
+            })
+            .catch((error) => alert.addError(error))
+            .finally(() => {
+                if (sequence === requestSequence.current) setLoadingBoxes(false);
+            });
+    };
+
     useEffect(() => {
-        const locationId = Number(params.locationId);
-
-        if (locationId) {
-            Api.Box.getBoxes(locationId)
-                .then(({ data }) => {
-                    setBoxes(data);
-                    
-                    // Fetch item counts for all boxes
-                    data.forEach(box => {
-                        Api.Item.getItemsByBoxId(box.boxId)
-                            .then(({ data: items }) => {
-                                setBoxItemCounts(prev => ({
-                                    ...prev,
-                                    [box.boxId]: items.length
-                                }));
-                            })
-                            .catch(error => console.error('Error fetching item count:', error));
-                    });
-                });
+        loadBoxes(1);
+    }, [locationId, sort.sort, sort.descending, appliedFilter]);
+
+    const hasMoreBoxes = boxes.length < totalCount;
+
+    // Load the next page when the end of the list scrolls into view
+    useEffect(() => {
+        const trigger = loadMoreRef.current;
+        if (!trigger || !hasMoreBoxes || loadingBoxes) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting) loadBoxes(pageNumber + 1);
+        }, { rootMargin: '200px' });
+        observer.observe(trigger);
+        return () => observer.disconnect();
+    }, [hasMoreBoxes, loadingBoxes, pageNumber]);
+
+    const handleSortChange = (next: BoxListSort) => {
+        setSort(next);
+        if (user?.preferences) {
+            const boxListSorts = { ...user.preferences.boxListSorts, [String(locationId)]: next };
+            Api.User.updateUserPreferences({ ...user.preferences, boxListSorts })
+                .then(() => updateUser({ silent: true }))
+                .catch(error => console.warn('Failed to save box sort:', error));
         }
-    }, [params]);
+    };
 
 
     const handleCloseDeleteDialog = () => {
@@ -88,11 +205,7 @@ export const Location: React.FC = () => {
             Api.Box.deleteBox(boxToDelete.boxId)
                 .then(() => {
                     // Refresh the boxes list
-                    Api.Box.getBoxes(Number(params.locationId))
-                        .then(({ data }) => {
-                            setBoxes(data);
-                        })
-                        .catch((error) => alert.addError(error));
+                    loadBoxes(1);
                     handleCloseDeleteDialog();
                 })
                 .catch((error) => alert.addError(error));
@@ -121,16 +234,149 @@ export const Location: React.FC = () => {
         }
     };
 
+    const handlePrintLocationLabelClick = () => {
+        setSettingsMenuAnchor(null);
+        if (location) {
+            addLocation(location);
+            navigate('/labels/boxes');
+        }
+    };
+
+    const handleSelectBoxesClick = () => {
+        setSettingsMenuAnchor(null);
+        setSelectedBoxIds([]);
+        setSelecting(true);
+    };
+
+    const handleCancelSelection = () => {
+        setSelecting(false);
+        setSelectedBoxIds([]);
+    };
+
+    const handleToggleBox = (boxId: string) => {
+        setSelectedBoxIds(prev => prev.includes(boxId)
+            ? prev.filter(id => id !== boxId)
+            : [...prev, boxId]);
+    };
+
+    const handleToggleAll = () => {
+        setSelectedBoxIds(selectedBoxIds.length === boxes.length ? [] : boxes.map(box => box.boxId));
+    };
+
+    const handleQueueLabels = () => {
+        const selected = boxes.filter(box => selectedBoxIds.includes(box.boxId));
+        addBoxes(selected, location?.name ?? '');
+        snackbar.showSuccess(`Queued ${selected.length} box label${selected.length !== 1 ? 's' : ''} for printing`);
+        handleCancelSelection();
+    };
+
+    const selectedBoxes = boxes.filter(box => selectedBoxIds.includes(box.boxId));
+    const selectedItemCount = selectedBoxes.reduce((total, box) => total + (box.stats?.itemCount ?? 0), 0);
+    const totalItemCount = boxes.reduce((total, box) => total + (box.stats?.totalItemCount ?? box.stats?.itemCount ?? 0), 0);
+    const allBoxCount = locationBoxCount + nestedBoxCount;
+    const totalImageCount = boxes.reduce((total, box) => total + (box.stats?.imageCount ?? 0), 0);
+
+    /**
+     * Runs `action` on each box in turn, reporting progress and each failure through the alert
+     * banner. Failures don't stop the run; the boxes that succeeded are returned.
+     */
+    const runBulk = async (label: string, verb: BulkAction, selected: Box[], action: (box: Box) => Promise<unknown>) => {
+        const succeeded: Box[] = [];
+        setBulkRunning(true);
+        alert.showProgress({ label, completed: 0, total: selected.length });
+        for (const [index, box] of selected.entries()) {
+            try {
+                await action(box);
+                succeeded.push(box);
+            } catch (error) {
+                alert.addError(error, `Could not ${verb} "${box.name}"`);
+            }
+            alert.showProgress({ label, completed: index + 1, total: selected.length });
+        }
+        alert.clearProgress();
+        setBulkRunning(false);
+
+        const failed = selected.length - succeeded.length;
+        if (failed > 0) {
+            alert.addMessage(`${failed} of ${selected.length} box${selected.length !== 1 ? 'es' : ''} could not be ${BULK_PAST_TENSE[verb]}.`);
+        }
+        return succeeded;
+    };
+
+    const removeBoxes = (removed: Box[]) => {
+        const removedIds = removed.map(box => box.boxId);
+        setBoxes(prev => prev.filter(box => !removedIds.includes(box.boxId)));
+        setTotalCount(prev => prev - removed.length);
+        setLocationBoxCount(prev => prev - removed.length);
+        setNestedBoxCount(prev => prev - countNestedBoxes(removed));
+        setSelectedBoxIds(prev => prev.filter(id => !removedIds.includes(id)));
+    };
+
+    const handleBulkMoveClick = () => {
+        Api.Location.getLocaions()
+            .then(({ data }) => {
+                // Only locations the user can add boxes to
+                const destinations = data.filter(l => l.locationId !== location?.locationId
+                    && (l.accessLevel === 'Edit' || l.accessLevel === 'Owner'));
+                setMoveDestinations(destinations);
+                setMoveDestinationId(destinations.length > 0 ? destinations[0].locationId : null);
+                setOpenBulkMoveDialog(true);
+            })
+            .catch((error) => alert.addError(error));
+    };
+
+    const handleConfirmBulkMove = async () => {
+        const destination = moveDestinations.find(l => l.locationId === moveDestinationId);
+        if (!destination) return;
+        setOpenBulkMoveDialog(false);
+
+        const moved = await runBulk(`Moving boxes to ${destination.name}`, 'move', selectedBoxes,
+            box => Api.Box.moveBox(box.boxId, destination.locationId));
+        removeBoxes(moved);
+        if (moved.length > 0) {
+            snackbar.showSuccess(`Moved ${moved.length} box${moved.length !== 1 ? 'es' : ''} to ${destination.name}`);
+        }
+        if (moved.length === selectedBoxes.length) {
+            handleCancelSelection();
+        }
+    };
+
+    const handleBulkDeleteClick = () => {
+        setBulkForceDelete(false);
+        setOpenBulkDeleteDialog(true);
+    };
+
+    const handleConfirmBulkDelete = async () => {
+        setOpenBulkDeleteDialog(false);
+
+        const deleted = await runBulk('Deleting boxes', 'delete', selectedBoxes,
+            box => Api.Box.deleteBox(box.boxId, bulkForceDelete));
+        // Boxes that were inside a deleted box are now listed in its place
+        if (countNestedBoxes(deleted) > 0) {
+            loadBoxes(1);
+            setSelectedBoxIds(prev => prev.filter(id => !deleted.some(box => box.boxId === id)));
+        } else {
+            removeBoxes(deleted);
+        }
+        if (deleted.length > 0) {
+            snackbar.showSuccess(`Deleted ${deleted.length} box${deleted.length !== 1 ? 'es' : ''}`);
+        }
+        if (deleted.length === selectedBoxes.length) {
+            handleCancelSelection();
+        }
+    };
+
     const handleQrCodeScan = (code: string) => {
         Api.Search.searchByQrCode(code)
             .then(({ data }) => {
-                // Navigate directly to the box (could be in any location)
-                if (data.boxId) {
-                    navigate(`/locations/${data.locationId}/box/${data.boxId}`);
+                // Navigate directly to the box or location (could be any location)
+                const path = getScanResultPath(data);
+                if (path) {
+                    navigate(path);
                 }
             })
             .catch((_error) => {
-                alert.addMessage(`No box found with code: ${code}`);
+                alert.addMessage(`No box or location found with code: ${code}`);
             });
     };
 
@@ -150,8 +396,9 @@ export const Location: React.FC = () => {
                     />
                 )}
                 <SearchBar
-                    placeholder="Search all boxes and items..."
+                    placeholder="Search boxes and items..."
                     onQrCodeScan={handleQrCodeScan}
+                    locationName={location?.name}
                 />
             </Box>
             <Box sx={{
@@ -202,11 +449,129 @@ export const Location: React.FC = () => {
                         }}>
                             {location?.name}
                         </Typography>
+                        {location?.code && <FormattedCode code={location.code} variant="body2" />}
+                        {locationBoxCount > 0 && (
+                            <Typography variant="body2" sx={{ color: 'text.secondary', mt: 0.5 }}>
+                                {hasMoreBoxes || appliedFilter
+                                    ? `Showing ${boxes.length} of ${appliedFilter ? `${totalCount} matching` : totalCount} box${totalCount !== 1 ? 'es' : ''}`
+                                    : describeLocationStats(allBoxCount, totalItemCount, totalImageCount)}
+                            </Typography>
+                        )}
+                        {queue.length > 0 && !selecting && (
+                            <Button
+                                size="small"
+                                startIcon={<PrintIcon />}
+                                component={Link}
+                                to="/labels/boxes"
+                                sx={{ mt: 1 }}
+                            >
+                                Print Label Queue ({queue.length})
+                            </Button>
+                        )}
                     </Box>
+                    {selecting && (
+                        <Box
+                            sx={{
+                                display: 'flex',
+                                flexWrap: 'wrap',
+                                alignItems: 'center',
+                                gap: 1,
+                                mx: 2
+                            }}>
+                            <Checkbox
+                                checked={boxes.length > 0 && selectedBoxIds.length === boxes.length}
+                                indeterminate={selectedBoxIds.length > 0 && selectedBoxIds.length < boxes.length}
+                                onChange={handleToggleAll}
+                                slotProps={{ input: { 'aria-label': 'select all boxes' } }}
+                            />
+                            <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                                {selectedBoxIds.length} selected
+                            </Typography>
+                            <Button
+                                variant="contained"
+                                startIcon={<QrCode2Icon />}
+                                disabled={selectedBoxIds.length === 0 || bulkRunning}
+                                onClick={handleQueueLabels}
+                            >
+                                Queue Labels
+                            </Button>
+                            <Button
+                                startIcon={<DriveFileMoveIcon />}
+                                disabled={selectedBoxIds.length === 0 || bulkRunning}
+                                onClick={handleBulkMoveClick}
+                            >
+                                Move
+                            </Button>
+                            <Button
+                                startIcon={<DeleteIcon />}
+                                disabled={selectedBoxIds.length === 0 || bulkRunning}
+                                onClick={handleBulkDeleteClick}
+                            >
+                                Delete
+                            </Button>
+                            <Button color="secondary" onClick={handleCancelSelection} disabled={bulkRunning}>
+                                Cancel
+                            </Button>
+                        </Box>
+                    )}
+                    {locationBoxCount > 0 && (
+                        <Box
+                            sx={{
+                                display: 'flex',
+                                flexWrap: 'wrap',
+                                alignItems: 'center',
+                                gap: 1,
+                                mx: 2,
+                                mt: 1
+                            }}>
+                            <TextField
+                                size="small"
+                                placeholder="Filter boxes..."
+                                value={filter}
+                                onChange={(e) => setFilter(e.target.value)}
+                                sx={{ flexGrow: 1, minWidth: 180 }}
+                                slotProps={{
+                                    input: {
+                                        startAdornment: (
+                                            <InputAdornment position="start">
+                                                <FilterListIcon />
+                                            </InputAdornment>
+                                        ),
+                                    },
+                                    htmlInput: { 'aria-label': 'filter boxes' },
+                                }}
+                            />
+                            <Select
+                                size="small"
+                                value={sort.sort}
+                                onChange={(e) => handleSortChange({ ...sort, sort: e.target.value as BoxSortField })}
+                                inputProps={{ 'aria-label': 'sort boxes by' }}
+                            >
+                                {(Object.keys(BOX_SORT_LABELS) as BoxSortField[]).map(field => (
+                                    <MenuItem key={field} value={field}>{BOX_SORT_LABELS[field]}</MenuItem>
+                                ))}
+                            </Select>
+                            <IconButton
+                                onClick={() => handleSortChange({ ...sort, descending: !sort.descending })}
+                                aria-label={sort.descending ? 'sort descending' : 'sort ascending'}
+                                title={sort.descending ? 'Descending' : 'Ascending'}
+                            >
+                                {sort.descending ? <ArrowDownwardIcon /> : <ArrowUpwardIcon />}
+                            </IconButton>
+                        </Box>
+                    )}
                     <Box sx={{
                         margin: 2
                     }}>
-                        {boxes.length === 0 ? (
+                        {boxes.length === 0 && appliedFilter ? (
+                            <Typography variant="body2" sx={{ color: 'text.secondary', textAlign: 'center', py: 2 }}>
+                                No boxes match &ldquo;{appliedFilter}&rdquo;.
+                            </Typography>
+                        ) : boxes.length === 0 && loadingBoxes ? (
+                            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                                <CircularProgress size={24} />
+                            </Box>
+                        ) : boxes.length === 0 ? (
                             <EmptyState
                                 icon={InventoryIcon}
                                 title="No boxes in this location"
@@ -219,10 +584,24 @@ export const Location: React.FC = () => {
                                 {
                                     boxes.map(box =>
                                         <ListItem key={box.boxId}>
-                                            <ListItemButton component={Link} to={`box/${box.boxId}`}>
+                                            <ListItemButton
+                                                {...(selecting
+                                                    ? { onClick: () => handleToggleBox(box.boxId), selected: selectedBoxIds.includes(box.boxId) }
+                                                    : { component: Link, to: `box/${box.boxId}` })}
+                                            >
+                                                {selecting && (
+                                                    <ListItemIcon>
+                                                        <Checkbox
+                                                            edge="start"
+                                                            checked={selectedBoxIds.includes(box.boxId)}
+                                                            tabIndex={-1}
+                                                            disableRipple
+                                                        />
+                                                    </ListItemIcon>
+                                                )}
                                                 <ListItemAvatar>
                                                     <Badge 
-                                                        badgeContent={boxItemCounts[box.boxId] || 0} 
+                                                        badgeContent={box.stats?.totalItemCount ?? box.stats?.itemCount ?? 0} 
                                                         color="primary"
                                                         max={999}
                                                     >
@@ -231,13 +610,26 @@ export const Location: React.FC = () => {
                                                         </Avatar>
                                                     </Badge>
                                                 </ListItemAvatar>
-                                                <ListItemText primary={box.name} secondary={box.description} />
+                                                <ListItemText
+                                                    primary={box.name}
+                                                    secondary={
+                                                        <>
+                                                            {box.description && <>{box.description}<br /></>}
+                                                            {box.stats && describeBoxStats(box.stats)}
+                                                        </>
+                                                    }
+                                                />
                                             </ListItemButton>
                                         </ListItem>
                                     )
                                 }
                             </List>
                         )}
+                        {hasMoreBoxes && (
+                            <Box ref={loadMoreRef} sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                                {loadingBoxes && <CircularProgress size={24} />}
+                            </Box>
+                        )}
                     </Box>
                 </Box>
                 </Paper>
@@ -282,7 +674,7 @@ export const Location: React.FC = () => {
                     onClick={() => setSettingsMenuAnchor(null)}
                 >
                     <EditIcon sx={{ mr: 1 }} fontSize="small" />
-                    Edit Name
+                    Edit Location
                 </MenuItem>
                 <MenuItem 
                     component={Link} 
@@ -292,6 +684,43 @@ export const Location: React.FC = () => {
                     <PeopleIcon sx={{ mr: 1 }} fontSize="small" />
                     Manage Users
                 </MenuItem>
+                <MenuItem 
+                    component={Link} 
+                    to="fields"
+                    onClick={() => setSettingsMenuAnchor(null)}
+                >
+                    <TuneIcon sx={{ mr: 1 }} fontSize="small" />
+                    Custom Fields
+                </MenuItem>
+                <MenuItem 
+                    onClick={handlePrintLocationLabelClick}
+                >
+                    <PrintIcon sx={{ mr: 1 }} fontSize="small" />
+                    Print Location Label
+                </MenuItem>
+                <MenuItem 
+                    onClick={handleSelectBoxesClick}
+                    disabled={boxes.length === 0}
+                >
+                    <ChecklistIcon sx={{ mr: 1 }} fontSize="small" />
+                    Select Boxes
+                </MenuItem>
+                <MenuItem 
+                    component={Link} 
+                    to="audit"
+                    onClick={() => setSettingsMenuAnchor(null)}
+                >
+                    <FactCheckIcon sx={{ mr: 1 }} fontSize="small" />
+                    Audit Boxes
+                </MenuItem>
+                <MenuItem 
+                    component={Link} 
+                    to={`/locations/scan-move?to=${location?.locationId}`}
+                    onClick={() => setSettingsMenuAnchor(null)}
+                >
+                    <MoveDownIcon sx={{ mr: 1 }} fontSize="small" />
+                    Scan Boxes Into Here
+                </MenuItem>
                 <MenuItem 
                     onClick={handleDeleteLocationClick}
                 >
@@ -299,6 +728,100 @@ export const Location: React.FC = () => {
                     Delete Location
                 </MenuItem>
             </Menu>
+            {/* Bulk Move Dialog */}
+            <Dialog
+                open={openBulkMoveDialog}
+                onClose={() => setOpenBulkMoveDialog(false)}
+                aria-labelledby="bulk-move-dialog-title"
+            >
+                <DialogTitle id="bulk-move-dialog-title">
+                    Move {selectedBoxes.length} Box{selectedBoxes.length !== 1 ? 'es' : ''}
+                </DialogTitle>
+                <DialogContent>
+                    <DialogContentText sx={{ mb: 2 }}>
+                        Select the location to move the selected boxes and their items to.
+                    </DialogContentText>
+                    {moveDestinations.length === 0 ? (
+                        <Typography variant="body2" sx={{
+                            color: "text.secondary"
+                        }}>
+                            No other locations you can edit. Ask for edit access or create another location first.
+                        </Typography>
+                    ) : (
+                        <FormControl fullWidth>
+                            <FormLabel>Destination Location</FormLabel>
+                            <Select
+                                value={moveDestinationId || ''}
+                                onChange={(e) => setMoveDestinationId(Number(e.target.value))}
+                                variant="standard"
+                            >
+                                {moveDestinations.map((loc) => (
+                                    <MenuItem key={loc.locationId} value={loc.locationId}>
+                                        {loc.name}
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    )}
+                </DialogContent>
+                <DialogActions>
+                    {moveDestinations.length > 0 && (
+                        <Button onClick={handleConfirmBulkMove} color="primary" autoFocus>
+                            Move
+                        </Button>
+                    )}
+                    <Button onClick={() => setOpenBulkMoveDialog(false)} color="secondary">
+                        Cancel
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            {/* Bulk Delete Dialog */}
+            <Dialog
+                open={openBulkDeleteDialog}
+                onClose={() => setOpenBulkDeleteDialog(false)}
+                aria-labelledby="bulk-delete-dialog-title"
+                aria-describedby="bulk-delete-dialog-description"
+            >
+                <DialogTitle id="bulk-delete-dialog-title">
+                    Delete {selectedBoxes.length} Box{selectedBoxes.length !== 1 ? 'es' : ''}
+                </DialogTitle>
+                <DialogContent>
+                    <DialogContentText id="bulk-delete-dialog-description">
+                        {selectedItemCount > 0 ? (
+                            <>
+                                The selected boxes contain {selectedItemCount} item{selectedItemCount !== 1 ? 's' : ''}.
+                                <br /><br />
+                                <FormControlLabel
+                                    control={
+                                        <Checkbox
+                                            checked={bulkForceDelete}
+                                            onChange={(e) => setBulkForceDelete(e.target.checked)}
+                                            color="primary"
+                                        />
+                                    }
+                                    label={`Also delete all ${selectedItemCount} item${selectedItemCount !== 1 ? 's' : ''}`}
+                                />
+                                <br /><br />
+                                {bulkForceDelete
+                                    ? 'The boxes and everything in them will be permanently deleted. This action cannot be undone.'
+                                    : 'Boxes that still contain items will not be deleted and are reported as failed. Empty boxes will be permanently deleted.'}
+                            </>
+                        ) : (
+                            <>
+                                Are you sure you want to delete the selected boxes? This action cannot be undone.
+                            </>
+                        )}
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={handleConfirmBulkDelete} color="primary" autoFocus>
+                        Delete
+                    </Button>
+                    <Button onClick={() => setOpenBulkDeleteDialog(false)} color="secondary">
+                        Cancel
+                    </Button>
+                </DialogActions>
+            </Dialog>
             {/* Delete Location Confirmation Dialog */}
             <Dialog
                 open={openDeleteLocationDialog}
@@ -311,9 +834,9 @@ export const Location: React.FC = () => {
                 </DialogTitle>
                 <DialogContent>
                     <DialogContentText id="delete-location-dialog-description">
-                        {boxes.length > 0 ? (
+                        {locationBoxCount > 0 ? (
                             <>
-                                This location contains {boxes.length} box{boxes.length !== 1 ? 'es' : ''}.
+                                This location contains {allBoxCount} box{allBoxCount !== 1 ? 'es' : ''}.
                                 <br /><br />
                                 <FormControlLabel
                                     control={
@@ -323,12 +846,12 @@ export const Location: React.FC = () => {
                                             color="primary"
                                         />
                                     }
-                                    label={`Delete all ${boxes.length} box${boxes.length !== 1 ? 'es' : ''} and their items`}
+                                    label={`Delete all ${allBoxCount} box${allBoxCount !== 1 ? 'es' : ''} and their items`}
                                 />
                                 <br /><br />
                                 {forceDelete ? (
                                     <>
-                                        Are you sure you want to permanently delete &ldquo;{location?.name}&rdquo; and all {boxes.length} box{boxes.length !== 1 ? 'es' : ''} with their items? 
+                                        Are you sure you want to permanently delete &ldquo;{location?.name}&rdquo; and all {allBoxCount} box{allBoxCount !== 1 ? 'es' : ''} with their items? 
                                         This action cannot be undone.
                                     </>
                                 ) : (
@@ -345,7 +868,7 @@ export const Location: React.FC = () => {
                     </DialogContentText>
                 </DialogContent>
                 <DialogActions>
-                    {boxes.length > 0 && !forceDelete ? (
+                    {locationBoxCount > 0 && !forceDelete ? (
                         <Button onClick={handleCloseDeleteLocationDialog} color="primary" autoFocus>
                             OK
                         </Button>
@@ -6,6 +6,9 @@ import { Locations } from './locations';
 import { AddLocation } from './add-location';
 import { EditLocation } from './edit-location';
 import { ManageLocationUsers } from './manage-location-users';
+import { ManageCustomFields } from './manage-custom-fields';
+import { LocationAudit } from './location-audit';
+import { ScanMove } from './scan-move';
 import { Location } from './location';
 import { BoxRoutes } from '../boxes/box-routes';
 import { AddBox } from '../boxes/add-box';
@@ -15,12 +18,15 @@ export const LocationRoutes: React.FC = () => {
         <SearchProvider>
             <Routes>
                 <Route path="add" element={<AddLocation />} />
+                <Route path="scan-move" element={<ScanMove />} />
                 <Route index element={<Locations />} />
                 <Route path=":locationId/*" element={
                     <LocationProvider>
                         <Routes>
                             <Route path="edit" element={<EditLocation />} />
                             <Route path="users" element={<ManageLocationUsers />} />
+                            <Route path="fields" element={<ManageCustomFields />} />
+                            <Route path="audit" element={<LocationAudit />} />
                             <Route path="box/add" element={<AddBox />} />
                             <Route path="box/:boxId/*" element={<BoxRoutes />} />
                             <Route index element={<Location />} />
@@ -1,11 +1,12 @@
-import { Avatar, Box, Fab, List, ListItem, ListItemAvatar, ListItemButton, ListItemText, Paper, Typography, useTheme } from '@mui/material';
+import { Avatar, Box, Button, Fab, List, ListItem, ListItemAvatar, ListItemButton, ListItemText, Paper, Typography, useTheme } from '@mui/material';
 import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { useApi } from '../../../api';
 import AddIcon from '@mui/icons-material/Add';
 import WarehouseIcon from '@mui/icons-material/Warehouse';
-import { SearchBar, EmptyState, Breadcrumbs } from '../shared';
+import MoveDownIcon from '@mui/icons-material/MoveDown';
+import { SearchBar, EmptyState, Breadcrumbs, getScanResultPath } from '../shared';
 
 export const Locations: React.FC = () => {
     const alert = useAlertMessage();
@@ -25,13 +26,14 @@ export const Locations: React.FC = () => {
     const handleQrCodeScan = (code: string) => {
         Api.Search.searchByQrCode(code)
             .then(({ data }) => {
-                // Navigate directly to the box
-                if (data.boxId) {
-                    navigate(`${data.locationId}/box/${data.boxId}`);
+                // Navigate directly to the box or location
+                const path = getScanResultPath(data);
+                if (path) {
+                    navigate(path);
                 }
             })
             .catch((_error) => {
-                alert.addMessage(`No box found with code: ${code}`);
+                alert.addMessage(`No box or location found with code: ${code}`);
             });
     };
 
@@ -90,6 +92,11 @@ export const Locations: React.FC = () => {
                             }}>
                                 Your Locations
                             </Typography>
+                            {locations.length > 1 && (
+                                <Button size="small" startIcon={<MoveDownIcon />} component={Link} to="scan-move" sx={{ mt: 1 }}>
+                                    Scan to Move Boxes
+                                </Button>
+                            )}
                         </Box>
                     </Box>
 
@@ -0,0 +1,299 @@
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControl,
+    IconButton,
+    InputLabel,
+    List,
+    ListItem,
+    ListItemText,
+    MenuItem,
+    Paper,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import React, { useEffect, useState } from 'react';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { useLocation } from '../../providers/location-provider';
+import { useSnackbar } from '../../providers/snackbar-provider';
+import { Breadcrumbs } from '../shared';
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+    Text: 'Text',
+    Number: 'Number',
+    Date: 'Date',
+    Enum: 'Choice from a list',
+    Boolean: 'Yes / No',
+};
+
+const APPLIES_TO_LABELS: Record<CustomFieldAppliesTo, string> = {
+    Items: 'Items',
+    Boxes: 'Boxes',
+    ItemsAndBoxes: 'Items and boxes',
+};
+
+const EMPTY_REQUEST: CustomFieldRequest = { name: '', type: 'Text', appliesTo: 'Items', options: [] };
+
+export const ManageCustomFields: React.FC = () => {
+    const alert = useAlertMessage();
+    const snackbar = useSnackbar();
+    const { Api } = useApi();
+    const { location } = useLocation();
+    const [fields, setFields] = useState<CustomField[]>([]);
+    // The field being edited, or null while adding a new one
+    const [editing, setEditing] = useState<CustomField | null>(null);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [request, setRequest] = useState<CustomFieldRequest>(EMPTY_REQUEST);
+    const [optionsText, setOptionsText] = useState('');
+    const [isSubmitted, setIsSubmitted] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [fieldToDelete, setFieldToDelete] = useState<CustomField | null>(null);
+
+    const loadFields = (locationId: number) => {
+        Api.Location.getCustomFields(locationId)
+            .then(({ data }) => setFields(data))
+            .catch((error) => alert.addError(error));
+    };
+
+    useEffect(() => {
+        if (location) {
+            loadFields(location.locationId);
+        }
+    }, [location]);
+
+    const openDialog = (field: CustomField | null) => {
+        setEditing(field);
+        setRequest(field
+            ? { name: field.name, type: field.type, appliesTo: field.appliesTo, options: field.options }
+            : EMPTY_REQUEST);
+        setOptionsText(field?.options.join(', ') ?? '');
+        setIsSubmitted(false);
+        setDialogOpen(true);
+    };
+
+    const options = optionsText.split(',').map(option => option.trim()).filter(option => option.length > 0);
+    const nameError = isSubmitted && request.name.trim().length === 0;
+    const optionsError = isSubmitted && request.type === 'Enum' && options.length === 0;
+
+    const handleSave = () => {
+        setIsSubmitted(true);
+        if (!location || saving || request.name.trim().length === 0 || (request.type === 'Enum' && options.length === 0)) {
+            return;
+        }
+
+        setSaving(true);
+        const body: CustomFieldRequest = { ...request, options: request.type === 'Enum' ? options : [] };
+        const save = editing
+            ? Api.Location.updateCustomField(location.locationId, editing.customFieldId, body)
+            : Api.Location.createCustomField(location.locationId, body);
+
+        save
+            .then(() => {
+                snackbar.showSuccess(editing ? 'Field updated' : 'Field added');
+                setDialogOpen(false);
+                loadFields(location.locationId);
+            })
+            .catch((error) => alert.addError(error))
+            .finally(() => setSaving(false));
+    };
+
+    const handleConfirmDelete = () => {
+        if (!fieldToDelete || !location) return;
+
+        Api.Location.deleteCustomField(location.locationId, fieldToDelete.customFieldId)
+            .then(() => {
+                snackbar.showSuccess('Field deleted');
+                setFieldToDelete(null);
+                loadFields(location.locationId);
+            })
+            .catch((error) => alert.addError(error));
+    };
+
+    if (!location) {
+        return null;
+    }
+
+    return (
+        <React.Fragment>
+            <Box
+                sx={{
+                    margin: 2,
+                    mb: 2
+                }}>
+                <Breadcrumbs
+                    items={[
+                        { label: location.name, path: `/locations/${location.locationId}` },
+                        { label: 'Custom Fields' }
+                    ]}
+                />
+            </Box>
+            <Box>
+                <Paper>
+                    <Box
+                        sx={{
+                            margin: 1,
+                            textAlign: "center"
+                        }}>
+                        <Typography variant='h4'>Custom Fields</Typography>
+                    </Box>
+                    <Box
+                        sx={{
+                            margin: 2,
+                            pb: 2
+                        }}>
+                        <Typography variant="body2" sx={{ color: "text.secondary", mb: 2 }}>
+                            Fields added here can be filled in on the items and boxes in this location, and are searched and exported with them.
+                        </Typography>
+                        {fields.length === 0 ? (
+                            <Typography variant="body2" sx={{
+                                color: "text.secondary"
+                            }}>
+                                No custom fields yet.
+                            </Typography>
+                        ) : (
+                            <List>
+                                {fields.map((field) => (
+                                    <ListItem
+                                        key={field.customFieldId}
+                                        secondaryAction={
+                                            <Stack direction="row" spacing={1}>
+                                                <IconButton
+                                                    aria-label="edit"
+                                                    title="Edit field"
+                                                    onClick={() => openDialog(field)}
+                                                >
+                                                    <EditIcon />
+                                                </IconButton>
+                                                <IconButton
+                                                    edge="end"
+                                                    aria-label="delete"
+                                                    title="Delete field"
+                                                    onClick={() => setFieldToDelete(field)}
+                                                >
+                                                    <DeleteIcon />
+                                                </IconButton>
+                                            </Stack>
+                                        }
+                                        disablePadding
+                                    >
+                                        <ListItemText
+                                            primary={field.name}
+                                            secondary={[
+                                                TYPE_LABELS[field.type],
+                                                APPLIES_TO_LABELS[field.appliesTo],
+                                                field.type === 'Enum' ? field.options.join(', ') : null,
+                                            ].filter(Boolean).join(' · ')}
+                                            sx={{ pr: 12 }}
+                                        />
+                                    </ListItem>
+                                ))}
+                            </List>
+                        )}
+                        <Button
+                            color="primary"
+                            startIcon={<AddIcon />}
+                            onClick={() => openDialog(null)}
+                            sx={{ mt: 1 }}
+                        >
+                            Add Field
+                        </Button>
+                    </Box>
+                </Paper>
+            </Box>
+            {/* Add / Edit Field Dialog */}
+            <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="sm">
+                <DialogTitle>{editing ? 'Edit Field' : 'Add Field'}</DialogTitle>
+                <DialogContent>
+                    <Stack spacing={2} sx={{ mt: 1 }}>
+                        <TextField
+                            label="Name"
+                            variant="standard"
+                            value={request.name}
+                            onChange={(e) => setRequest({ ...request, name: e.target.value })}
+                            error={nameError}
+                            helperText={nameError ? 'Name is required' : ''}
+                            disabled={saving}
+                            required
+                            autoFocus
+                        />
+                        <FormControl variant="standard" fullWidth>
+                            <InputLabel>Type</InputLabel>
+                            <Select
+                                label="Type"
+                                value={request.type}
+                                onChange={(e) => setRequest({ ...request, type: e.target.value as CustomFieldType })}
+                                disabled={saving}
+                            >
+                                {(Object.keys(TYPE_LABELS) as CustomFieldType[]).map(type => (
+                                    <MenuItem key={type} value={type}>{TYPE_LABELS[type]}</MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                        {request.type === 'Enum' && (
+                            <TextField
+                                label="Options"
+                                variant="standard"
+                                value={optionsText}
+                                onChange={(e) => setOptionsText(e.target.value)}
+                                error={optionsError}
+                                helperText={optionsError
+                                    ? 'Add at least one option'
+                                    : 'Separate options with commas. Values using a removed option are cleared.'}
+                                disabled={saving}
+                            />
+                        )}
+                        <FormControl variant="standard" fullWidth>
+                            <InputLabel>Used on</InputLabel>
+                            <Select
+                                label="Used on"
+                                value={request.appliesTo}
+                                onChange={(e) => setRequest({ ...request, appliesTo: e.target.value as CustomFieldAppliesTo })}
+                                disabled={saving}
+                            >
+                                {(Object.keys(APPLIES_TO_LABELS) as CustomFieldAppliesTo[]).map(appliesTo => (
+                                    <MenuItem key={appliesTo} value={appliesTo}>{APPLIES_TO_LABELS[appliesTo]}</MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    </Stack>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={handleSave} color="primary" disabled={saving}>
+                        Save
+                    </Button>
+                    <Button onClick={() => setDialogOpen(false)} color="secondary">
+                        Cancel
+                    </Button>
+                </DialogActions>
+            </Dialog>
+            {/* Delete Confirmation Dialog */}
+            <Dialog open={fieldToDelete !== null} onClose={() => setFieldToDelete(null)}>
+                <DialogTitle>Delete Field</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        Are you sure you want to delete <strong>{fieldToDelete?.name}</strong>? Its values on every item and box in this location are deleted too.
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={handleConfirmDelete} color="primary" autoFocus>
+                        Delete
+                    </Button>
+                    <Button onClick={() => setFieldToDelete(null)} color="secondary">
+                        Cancel
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </React.Fragment>
+    );
+};
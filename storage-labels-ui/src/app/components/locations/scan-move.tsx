@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router';
+import {
+    Alert,
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    FormControl,
+    InputLabel,
+    List,
+    ListItem,
+    ListItemText,
+    MenuItem,
+    Paper,
+    Select,
+    Stack,
+    Typography,
+} from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import { Scanner } from '@yudiel/react-qr-scanner';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+import { useSnackbar } from '../../providers/snackbar-provider';
+import { Breadcrumbs, FormattedCode, normalizeScannedCode, SCAN_FORMATS } from '../shared';
+
+type MoveStatus = 'moving' | 'moved' | 'undoing' | 'undone' | 'skipped' | 'failed';
+
+interface ScannedMove {
+    code: string;
+    boxId?: string;
+    boxName?: string;
+    fromLocationId?: number;
+    fromLocationName?: string;
+    /** The box it sat inside before the move, so undo can put it back there. */
+    fromParentBoxId?: string | null;
+    /** Scanning a location label switches the destination part way through, so keep it per move. */
+    toLocationName?: string;
+    status: MoveStatus;
+    /** Why a box was skipped or could not be moved. */
+    note?: string;
+}
+
+const SCAN_DELAY = 1500;
+
+const canEdit = (accessLevel?: AccessLevels) => accessLevel === 'Edit' || accessLevel === 'Owner';
+
+const STATUS_LABELS: Record<MoveStatus, string> = {
+    moving: 'Moving...',
+    moved: 'Moved',
+    undoing: 'Undoing...',
+    undone: 'Undone',
+    skipped: 'Skipped',
+    failed: 'Failed',
+};
+
+const describeMoveError = (error: { response?: { status?: number }; message?: string }) =>
+    error.response?.status === 400
+        ? 'You need edit access to both locations.'
+        : error.message ?? 'The move failed.';
+
+/**
+ * Reorganising in bulk: pick the destination location (or scan its label, or a box that is already
+ * there), then every box label scanned is moved into it straight away. Scanning another location's
+ * label switches the destination. Each move can be undone, and finishing shows a summary.
+ */
+export const ScanMove: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const { Api } = useApi();
+    const alert = useAlertMessage();
+    const snackbar = useSnackbar();
+    const [locations, setLocations] = useState<StorageLocation[]>([]);
+    const [destinationId, setDestinationId] = useState<number | null>(Number(searchParams.get('to')) || null);
+    const [moves, setMoves] = useState<ScannedMove[]>([]);
+    const [finished, setFinished] = useState(false);
+
+    useEffect(() => {
+        Api.Location.getLocaions()
+            .then(({ data }) => setLocations(data))
+            .catch((error) => alert.addError(error));
+    }, []);
+
+    const destination = locations.find(l => l.locationId === destinationId) ?? null;
+    const editableLocations = locations.filter(l => canEdit(l.accessLevel));
+
+    const updateMove = (code: string, changes: Partial<ScannedMove>) => {
+        setMoves(current => current.map(move => move.code === code ? { ...move, ...changes } : move));
+    };
+
+    const chooseDestination = (result: SearchResultResponse) => {
+        const location = locations.find(l => String(l.locationId) === result.locationId);
+        if (!location || !canEdit(location.accessLevel)) {
+            alert.addMessage(`You need edit access to ${result.locationName} to move boxes into it.`);
+        } else if (location.locationId !== destinationId) {
+            setDestinationId(location.locationId);
+            snackbar.showSuccess(`Moving boxes into ${location.name}`);
+        }
+    };
+
+    const chooseDestinationByScan = (code: string) => {
+        Api.Search.searchByQrCode(code)
+            .then(({ data }) => chooseDestination(data))
+            .catch(() => alert.addMessage(`No box or location found with code: ${code}`));
+    };
+
+    const moveScannedBox = (code: string) => {
+        if (!destination) return;
+        if (moves.some(move => move.code === code && move.status !== 'undone')) {
+            snackbar.showSuccess(`${code} already scanned`);
+            return;
+        }
+
+        // The same label can be read twice before a re-render, so only add it once
+        setMoves(current => [{ code, status: 'moving' as MoveStatus }, ...current.filter(move => move.code !== code)]);
+        Api.Search.searchByQrCode(code)
+            .then(async ({ data }) => {
+                if (data.type === 'location') {
+                    setMoves(current => current.filter(move => move.code !== code));
+                    chooseDestination(data);
+                    return;
+                }
+                const fromLocationId = Number(data.locationId);
+                const details = {
+                    boxId: data.boxId,
+                    boxName: data.boxName,
+                    fromLocationId,
+                    fromLocationName: data.locationName,
+                    toLocationName: destination.name,
+                };
+                if (fromLocationId === destination.locationId) {
+                    updateMove(code, { ...details, status: 'skipped', note: `Already in ${destination.name}` });
+                    return;
+                }
+                try {
+                    // Search results don't say which box it sits in, and the move takes it out
+                    const { data: box } = await Api.Box.getBox(data.boxId!);
+                    await Api.Box.moveBox(data.boxId!, destination.locationId);
+                    updateMove(code, { ...details, fromParentBoxId: box.parentBoxId, status: 'moved' });
+                    snackbar.showSuccess(`Moved ${data.boxName} to ${destination.name}`);
+                } catch (error) {
+                    updateMove(code, { ...details, status: 'failed', note: describeMoveError(error as Error) });
+                }
+            })
+            .catch(() => updateMove(code, { status: 'failed', note: 'No box you have access to has this code.' }));
+    };
+
+    const undoMove = (move: ScannedMove) => {
+        if (!move.boxId || move.fromLocationId === undefined) return;
+        updateMove(move.code, { status: 'undoing' });
+        Api.Box.moveBox(move.boxId, move.fromLocationId, move.fromParentBoxId)
+            .then(() => {
+                updateMove(move.code, { status: 'undone' });
+                snackbar.showSuccess(`Moved ${move.boxName} back to ${move.fromLocationName}`);
+            })
+            .catch((error) => {
+                updateMove(move.code, { status: 'moved' });
+                alert.addError(error, `Could not undo moving "${move.boxName}"`);
+            });
+    };
+
+    const handleScan = (code: string) => {
+        if (destination) {
+            moveScannedBox(code);
+        } else {
+            chooseDestinationByScan(code);
+        }
+    };
+
+    const describeLatest = (move: ScannedMove) => {
+        if (move.status === 'moved') return `Moved from ${move.fromLocationName} to ${move.toLocationName}`;
+        if (move.status === 'undone') return `Moved back to ${move.fromLocationName}`;
+        return move.note ?? STATUS_LABELS[move.status];
+    };
+
+    const count = (status: MoveStatus) => moves.filter(move => move.status === status).length;
+    const latest = moves[0];
+
+    if (finished) {
+        const summary = (['moved', 'undone', 'skipped', 'failed'] as MoveStatus[]).filter(status => count(status) > 0);
+        const destinations = new Set(moves.filter(move => move.status === 'moved').map(move => move.toLocationName));
+        const movedTo = destinations.size === 1 ? ` to ${[...destinations][0]}` : '';
+        return (
+            <React.Fragment>
+                <Box sx={{ margin: 2, mb: 2 }}>
+                    <Breadcrumbs items={[{ label: 'Scan to Move' }]} />
+                </Box>
+                <Paper sx={{ p: 2 }}>
+                    <Typography variant="h5" gutterBottom>
+                        Moved {count('moved')} box{count('moved') !== 1 ? 'es' : ''}{movedTo}
+                    </Typography>
+                    <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap', mb: 2 }}>
+                        {summary.map(status => <Chip key={status} label={`${STATUS_LABELS[status]} ${count(status)}`} />)}
+                    </Stack>
+                    <List dense>
+                        {moves.map(move => (
+                            <ListItem key={move.code} disableGutters>
+                                <ListItemText
+                                    primary={`${move.boxName ?? move.code} · ${STATUS_LABELS[move.status]}`}
+                                    secondary={move.note ?? (move.fromLocationName && `From ${move.fromLocationName} to ${move.toLocationName}`)}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                    <Stack direction="row" spacing={1}>
+                        {destination && (
+                            <Button component={Link} to={`/locations/${destination.locationId}`}>
+                                Go to {destination.name}
+                            </Button>
+                        )}
+                        <Button color="secondary" onClick={() => { setMoves([]); setFinished(false); }}>
+                            Move More
+                        </Button>
+                    </Stack>
+                </Paper>
+            </React.Fragment>
+        );
+    }
+
+    return (
+        <React.Fragment>
+            <Box sx={{ margin: 2, mb: 2 }}>
+                <Breadcrumbs items={[{ label: 'Scan to Move' }]} />
+            </Box>
+            <Paper sx={{ p: 2 }}>
+                <Typography variant="h5" gutterBottom>Scan to Move</Typography>
+                <FormControl fullWidth variant="standard" sx={{ mb: 2 }}>
+                    <InputLabel id="scan-move-destination-label">Move boxes into</InputLabel>
+                    <Select
+                        labelId="scan-move-destination-label"
+                        value={destinationId ?? ''}
+                        onChange={(e) => setDestinationId(Number(e.target.value) || null)}
+                        disabled={moves.some(move => move.status === 'moving' || move.status === 'undoing')}
+                    >
+                        {editableLocations.map(location => (
+                            <MenuItem key={location.locationId} value={location.locationId}>{location.name}</MenuItem>
+                        ))}
+                    </Select>
+                </FormControl>
+                <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+                    {destination
+                        ? `Scan each box label to move it into ${destination.name}, or scan another location's label to switch.`
+                        : `Choose where the boxes are going, or scan that location's label or a box that is already there.`}
+                </Typography>
+                {latest && latest.status !== 'moving' && (
+                    <Alert
+                        severity={latest.status === 'moved' ? 'success' : latest.status === 'failed' ? 'error' : 'info'}
+                        sx={{ mb: 2 }}
+                        action={latest.status === 'moved' && (
+                            <Button color="inherit" size="small" startIcon={<UndoIcon />} onClick={() => undoMove(latest)}>
+                                Undo
+                            </Button>
+                        )}
+                    >
+                        {latest.boxName ?? latest.code}: {describeLatest(latest)}
+                    </Alert>
+                )}
+                <Box sx={{ maxWidth: 400, mx: 'auto' }}>
+                    <Scanner
+                        onScan={(detectedCodes) => {
+                            const code = normalizeScannedCode(detectedCodes[0]?.rawValue ?? '');
+                            if (code) {
+                                handleScan(code);
+                            }
+                        }}
+                        constraints={{
+                            facingMode: 'environment'
+                        }}
+                        formats={SCAN_FORMATS}
+                        allowMultiple
+                        scanDelay={SCAN_DELAY}
+                    />
+                </Box>
+                {moves.length > 0 && (
+                    <List dense>
+                        {moves.map(move => (
+                            <ListItem
+                                key={move.code}
+                                disableGutters
+                                secondaryAction={
+                                    move.status === 'moving' || move.status === 'undoing' ? (
+                                        <CircularProgress size={20} />
+                                    ) : move.status === 'moved' ? (
+                                        <Button size="small" startIcon={<UndoIcon />} onClick={() => undoMove(move)}>
+                                            Undo
+                                        </Button>
+                                    ) : undefined
+                                }
+                            >
+                                <ListItemText
+                                    primary={move.boxName ?? move.code}
+                                    secondary={
+                                        <React.Fragment>
+                                            <FormattedCode code={move.code} variant="body2" />
+                                            {` · ${move.note ?? STATUS_LABELS[move.status]}`}
+                                        </React.Fragment>
+                                    }
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                )}
+                <Box sx={{ mt: 2, textAlign: 'right' }}>
+                    <Button
+                        variant="contained"
+                        onClick={() => setFinished(true)}
+                        disabled={moves.length === 0 || moves.some(move => move.status === 'moving' || move.status === 'undoing')}
+                    >
+                        Finish
+                    </Button>
+                </Box>
+            </Paper>
+        </React.Fragment>
+    );
+};
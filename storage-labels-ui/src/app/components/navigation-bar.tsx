@@ -14,15 +14,20 @@ import {
 } from '@mui/material';
 import MenuIcon from '@mui/icons-material/Menu';
 import AccountCircle from '@mui/icons-material/AccountCircle';
+import { useConfirm } from 'material-ui-confirm';
 import { useAuth } from '../../auth/auth-provider';
 import { useUserPermission } from '../providers/user-permission-provider';
 import { useUser } from '../providers/user-provider';
 import { Permissions } from '../constants/permissions';
+import { useOfflineSync } from '../../api';
+import { SyncStatusButton } from './shared/sync-status-button';
 
 export const NavigationBar: React.FC = () => {
     const { logout, isAuthenticated, authMode } = useAuth();
     const { hasPermission } = useUserPermission();
     const { user } = useUser();
+    const { status: syncStatus, clearOfflineData } = useOfflineSync();
+    const confirm = useConfirm();
     const navigate = useNavigate();
     const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
     const [userMenuAnchorEl, setUserMenuAnchorEl] = React.useState<null | HTMLElement>(null);
@@ -50,6 +55,16 @@ export const NavigationBar: React.FC = () => {
     };
 
     const handleLogout = async () => {
+        const unsynced = syncStatus.pending + syncStatus.conflicts.length;
+        if (unsynced > 0) {
+            const { confirmed } = await confirm({
+                description: `${unsynced} change${unsynced !== 1 ? 's have' : ' has'} not synced yet and will be lost if you log out.`,
+                confirmationText: 'Log Out Anyway',
+            });
+            if (!confirmed) return;
+        }
+        // The offline mirror belongs to this user; don't leave it for the next one
+        await clearOfflineData().catch(error => console.warn('Failed to clear offline data:', error));
         await logout();
         navigate('/login');
         handleMenuClose();
@@ -150,6 +165,8 @@ export const NavigationBar: React.FC = () => {
                         ))}
                     </Box>
 
+                    <SyncStatusButton />
+
                     {/* Desktop user menu */}
                     {user && (
                         <Box sx={{ display: { xs: 'none', md: 'flex' } }}>
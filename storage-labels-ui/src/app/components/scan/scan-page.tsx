@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Box, CircularProgress, Paper, Typography } from '@mui/material';
+import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
+import { useNavigate, useParams } from 'react-router';
+import { useApi } from '../../../api';
+import { EmptyState, getScanResultPath } from '../shared';
+
+/**
+ * Landing page for scan deep links printed in label barcodes. Resolves the code and
+ * replaces itself with the box or location page so the back button skips the redirect.
+ */
+export const ScanPage: React.FC = () => {
+    const { code = '' } = useParams<{ code: string }>();
+    const { Api } = useApi();
+    const navigate = useNavigate();
+    const [notFound, setNotFound] = useState(false);
+
+    useEffect(() => {
+        setNotFound(false);
+        Api.Search.searchByQrCode(code)
+            .then(({ data }) => {
+                const path = getScanResultPath(data);
+                if (path) {
+                    navigate(path, { replace: true });
+                } else {
+                    setNotFound(true);
+                }
+            })
+            .catch(() => setNotFound(true));
+    }, [Api, code, navigate]);
+
+    if (notFound) {
+        return (
+            <Paper sx={{ margin: 2 }}>
+                <EmptyState
+                    icon={QrCodeScannerIcon}
+                    title="Code not found"
+                    message={`No box, item or location you can access has the code “${code}”. If this is a new label, add a box with this code.`}
+                    actionLabel="Go to Locations"
+                    onAction={() => navigate('/locations', { replace: true })}
+                />
+            </Paper>
+        );
+    }
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', mt: 8 }}>
+            <CircularProgress />
+            <Typography sx={{ mt: 2 }}>Looking up {code}...</Typography>
+        </Box>
+    );
+};
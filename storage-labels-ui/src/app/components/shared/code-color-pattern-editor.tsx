@@ -0,0 +1,326 @@
+import React, { useRef, useState } from 'react';
+import { Box, Divider, ListItemText, Menu, MenuItem, Stack, TextField, Typography, useTheme } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { FormattedCode } from './formatted-code';
+import {
+    CODE_COLORS,
+    ColorType,
+    formatPatternError,
+    measureColorPattern,
+    parseColorPatternTokens,
+    PatternToken,
+    serializeColorPattern,
+} from './code-color-pattern';
+
+interface CodeColorPatternEditorProps {
+    value: string;
+    onChange: (pattern: string) => void;
+    /** Code shown in the visual editor and preview, e.g. the next code a label job will print. */
+    sampleCode: string;
+    label?: string;
+    helperText?: string;
+    disabled?: boolean;
+}
+
+/** A run of sample characters covered by one token, or by no token (the uncolored tail). */
+interface PatternSpan {
+    tokenIndex: number | null;
+    start: number;
+    end: number;
+    color: ColorType;
+    rest: boolean;
+}
+
+const CELL_WIDTH = 28;
+// How close to a gap, in cells, a press has to land to split there rather than open the menu
+const GAP_HIT = 0.25;
+const FALLBACK_SAMPLE = 'ABC12345';
+
+const getSpans = (tokens: PatternToken[], codeLength: number): PatternSpan[] => {
+    const spans: PatternSpan[] = [];
+    let index = 0;
+    measureColorPattern(tokens, codeLength).forEach((length, tokenIndex) => {
+        const token = tokens[tokenIndex];
+        if (length > 0) {
+            spans.push({
+                tokenIndex,
+                start: index,
+                end: index + length,
+                color: token.kind === 'fixed' ? token.color : 'default',
+                rest: token.kind === 'rest',
+            });
+        }
+        index += length;
+    });
+    if (index < codeLength) {
+        spans.push({ tokenIndex: null, start: index, end: codeLength, color: 'default', rest: false });
+    }
+    return spans;
+};
+
+const splitSpan = (tokens: PatternToken[], span: PatternSpan, gap: number): PatternToken[] => {
+    const next = [...tokens];
+    const head: PatternToken = { kind: 'fixed', length: gap - span.start, color: span.color };
+    if (span.tokenIndex === null) {
+        next.push(head);
+        return next;
+    }
+    const token = tokens[span.tokenIndex];
+    if (token.kind === 'rest') {
+        // The characters before the split become fixed; "*" keeps absorbing the rest
+        next.splice(span.tokenIndex, 0, { ...head, color: 'default' });
+    } else {
+        next.splice(span.tokenIndex, 1, head, { ...token, length: token.length - head.length });
+    }
+    return next;
+};
+
+const resizeToken = (tokens: PatternToken[], span: PatternSpan, delta: number) => {
+    if (span.tokenIndex === null) return;
+    const token = tokens[span.tokenIndex];
+    if (token.kind === 'fixed') {
+        tokens[span.tokenIndex] = { ...token, length: token.length + delta };
+    }
+};
+
+/** Moves the boundary after span `index` to `gap`; "*" and the uncolored tail give or take the difference. */
+const moveBoundary = (tokens: PatternToken[], spans: PatternSpan[], index: number, gap: number): PatternToken[] => {
+    const left = spans[index];
+    const right = spans[index + 1];
+    const delta = Math.min(Math.max(gap, left.start + 1), right.end - 1) - left.end;
+    if (delta === 0) return tokens;
+
+    const next = [...tokens];
+    resizeToken(next, left, delta);
+    resizeToken(next, right, -delta);
+    return next;
+};
+
+/** Removes the boundary after span `index`. Fixed spans keep the left color; "*" swallows a fixed neighbour. */
+const mergeWithNext = (tokens: PatternToken[], spans: PatternSpan[], index: number): PatternToken[] => {
+    const left = spans[index];
+    const right = spans[index + 1];
+    const next = [...tokens];
+    if (left.rest || right.rest) {
+        const fixed = left.rest ? right : left;
+        return fixed.tokenIndex === null ? tokens : next.filter((_, i) => i !== fixed.tokenIndex);
+    }
+    resizeToken(next, left, right.end - right.start);
+    return right.tokenIndex === null ? next : next.filter((_, i) => i !== right.tokenIndex);
+};
+
+const setSpanColor = (tokens: PatternToken[], span: PatternSpan, color: ColorType): PatternToken[] => {
+    if (span.tokenIndex === null) {
+        return [...tokens, { kind: 'fixed', length: span.end - span.start, color }];
+    }
+    return tokens.map((token, i) => i === span.tokenIndex && token.kind === 'fixed' ? { ...token, color } : token);
+};
+
+const toggleRest = (tokens: PatternToken[], span: PatternSpan): PatternToken[] => {
+    if (span.rest) {
+        return tokens.map((token, i) => i === span.tokenIndex ? { kind: 'fixed', length: span.end - span.start, color: 'default' } : token);
+    }
+    if (span.tokenIndex === null) {
+        return [...tokens, { kind: 'rest' }];
+    }
+    return tokens.map((token, i) => i === span.tokenIndex ? { kind: 'rest' } : token);
+};
+
+/**
+ * Text field for a code color pattern with a visual editor over a sample code. Press between
+ * two characters and drag to split a segment, drag a boundary to resize, or click a segment
+ * to change its color.
+ */
+export const CodeColorPatternEditor: React.FC<CodeColorPatternEditorProps> = ({
+    value,
+    onChange,
+    sampleCode,
+    label = 'Code Color Pattern',
+    helperText = 'Format: length:color,... Use * for the remaining characters.',
+    disabled,
+}) => {
+    const theme = useTheme();
+    const stripRef = useRef<HTMLDivElement>(null);
+    const [dragging, setDragging] = useState<number | null>(null);
+    const [menu, setMenu] = useState<{ span: number; top: number; left: number } | null>(null);
+
+    const code = sampleCode || FALLBACK_SAMPLE;
+    const { tokens, errors } = parseColorPatternTokens(value);
+    // An invalid pattern shows the sample uncolored and read-only
+    const spans = getSpans(errors.length > 0 ? [] : tokens, code.length);
+    const boundaries = spans.slice(0, -1).map(span => span.end);
+    const editable = !disabled && errors.length === 0;
+
+    const update = (next: PatternToken[]) => onChange(serializeColorPattern(next));
+
+    const locate = (clientX: number) => {
+        const rect = stripRef.current?.getBoundingClientRect();
+        return rect ? (clientX - rect.left) / CELL_WIDTH : 0;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!editable) return;
+        const position = locate(e.clientX);
+        const gap = Math.round(position);
+        const nearGap = Math.abs(position - gap) <= GAP_HIT && gap > 0 && gap < code.length;
+
+        if (nearGap) {
+            let boundary = boundaries.indexOf(gap);
+            if (boundary === -1) {
+                boundary = spans.findIndex(span => span.start < gap && gap < span.end);
+                update(splitSpan(tokens, spans[boundary], gap));
+            }
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setDragging(boundary);
+            return;
+        }
+
+        const index = spans.findIndex(span => span.start <= position && position < span.end);
+        if (index !== -1) {
+            setMenu({ span: index, top: e.clientY, left: e.clientX });
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (dragging === null || !spans[dragging + 1]) return;
+        const next = moveBoundary(tokens, spans, dragging, Math.round(locate(e.clientX)));
+        if (next !== tokens) update(next);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (dragging === null) return;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        setDragging(null);
+    };
+
+    const menuSpan = menu ? spans[menu.span] : undefined;
+    const closeMenu = () => setMenu(null);
+    const applyFromMenu = (next: PatternToken[]) => {
+        update(next);
+        closeMenu();
+    };
+
+    const colorFor = (color: ColorType) => color === 'default' ? theme.palette.text.primary : theme.palette[color].main;
+
+    return (
+        <Stack spacing={1}>
+            <TextField
+                variant="standard"
+                label={label}
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                error={errors.length > 0}
+                helperText={errors.length > 0 ? formatPatternError(errors[0]) : helperText}
+                placeholder="e.g. 3:primary,2:secondary,*,4:error"
+                disabled={disabled}
+                slotProps={{ htmlInput: { maxLength: 200 } }}
+            />
+            <Box sx={{ overflowX: 'auto', py: 1 }}>
+                <Box
+                    ref={stripRef}
+                    role="group"
+                    aria-label="Visual pattern editor"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    sx={{
+                        position: 'relative',
+                        display: 'flex',
+                        width: code.length * CELL_WIDTH,
+                        touchAction: 'none',
+                        userSelect: 'none',
+                        opacity: editable ? 1 : 0.5,
+                        cursor: editable ? 'pointer' : 'default',
+                    }}
+                >
+                    {spans.map(span => (
+                        <Box
+                            key={span.start}
+                            sx={{
+                                display: 'flex',
+                                // Outlines keep every cell exactly CELL_WIDTH so pointer math stays simple
+                                outline: '1px solid',
+                                outlineOffset: -1,
+                                outlineColor: span.color === 'default' ? theme.palette.divider : colorFor(span.color),
+                                outlineStyle: span.rest || span.tokenIndex === null ? 'dashed' : 'solid',
+                                backgroundColor: span.color === 'default' ? undefined : alpha(colorFor(span.color), 0.12),
+                            }}
+                        >
+                            {code.substring(span.start, span.end).split('').map((char, i) => (
+                                <Box
+                                    key={i}
+                                    sx={{
+                                        width: CELL_WIDTH,
+                                        lineHeight: '36px',
+                                        textAlign: 'center',
+                                        fontFamily: 'monospace',
+                                        fontSize: '1.1rem',
+                                        fontWeight: span.color !== 'default' ? 600 : undefined,
+                                        color: colorFor(span.color),
+                                    }}
+                                >
+                                    {char}
+                                </Box>
+                            ))}
+                        </Box>
+                    ))}
+                    {editable && boundaries.map((gap, index) => (
+                        <Box
+                            key={gap}
+                            sx={{
+                                position: 'absolute',
+                                top: -4,
+                                bottom: -4,
+                                left: gap * CELL_WIDTH - 2,
+                                width: 4,
+                                borderRadius: 1,
+                                cursor: 'col-resize',
+                                backgroundColor: dragging === index ? 'primary.main' : 'text.secondary',
+                            }}
+                        />
+                    ))}
+                </Box>
+            </Box>
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                {errors.length > 0
+                    ? 'Fix the pattern above to use the visual editor.'
+                    : 'Drag from between two characters to split, drag a bar to resize, click a segment to color it.'}
+            </Typography>
+            <Box>
+                <Typography variant="subtitle2" component="span" sx={{ mr: 1 }}>Preview:</Typography>
+                <FormattedCode code={code} pattern={value} variant="h6" />
+            </Box>
+            <Menu
+                open={!!menuSpan}
+                onClose={closeMenu}
+                anchorReference="anchorPosition"
+                anchorPosition={menu ? { top: menu.top, left: menu.left } : undefined}
+            >
+                {CODE_COLORS.map(color => (
+                    <MenuItem
+                        key={color}
+                        selected={menuSpan?.color === color}
+                        disabled={menuSpan?.rest}
+                        onClick={() => menuSpan && applyFromMenu(setSpanColor(tokens, menuSpan, color))}
+                    >
+                        <Box sx={{ width: 14, height: 14, mr: 1.5, borderRadius: '50%', backgroundColor: colorFor(color) }} />
+                        <ListItemText>{color}</ListItemText>
+                    </MenuItem>
+                ))}
+                <Divider />
+                <MenuItem
+                    disabled={!menuSpan?.rest && tokens.some(token => token.kind === 'rest')}
+                    onClick={() => menuSpan && applyFromMenu(toggleRest(tokens, menuSpan))}
+                >
+                    {menuSpan?.rest ? 'Use a fixed length' : 'Fill remaining characters (*)'}
+                </MenuItem>
+                <MenuItem
+                    disabled={!menu || !spans[menu.span + 1]}
+                    onClick={() => menu && applyFromMenu(mergeWithNext(tokens, spans, menu.span))}
+                >
+                    Merge with next segment
+                </MenuItem>
+            </Menu>
+        </Stack>
+    );
+};
@@ -0,0 +1,137 @@
+/**
+ * Code color patterns highlight parts of a box code, e.g. "3:primary,*,4:error" colors the
+ * first 3 characters primary, leaves the middle plain and colors the last 4 error.
+ *
+ * Grammar: segment ("," segment)*, where a segment is either "*" (the remaining characters,
+ * uncolored) or length[":"color]. Whitespace around segments is ignored.
+ */
+
+export type ColorType = 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success' | 'default';
+
+export const CODE_COLORS: ColorType[] = ['primary', 'secondary', 'error', 'warning', 'info', 'success', 'default'];
+
+export type PatternToken =
+    | { kind: 'fixed'; length: number; color: ColorType }
+    | { kind: 'rest' };
+
+export interface PatternError {
+    /** Zero-based character offset into the pattern. */
+    position: number;
+    message: string;
+}
+
+export interface ParsedColorPattern {
+    tokens: PatternToken[];
+    errors: PatternError[];
+}
+
+export interface ParsedSegment {
+    text: string;
+    color: ColorType;
+}
+
+export const parseColorPatternTokens = (pattern: string): ParsedColorPattern => {
+    const tokens: PatternToken[] = [];
+    const errors: PatternError[] = [];
+    if (!pattern.trim()) {
+        return { tokens, errors };
+    }
+
+    let offset = 0;
+    for (const raw of pattern.split(',')) {
+        const part = raw.trim();
+        const position = offset + raw.length - raw.trimStart().length;
+        offset += raw.length + 1;
+
+        if (!part) {
+            errors.push({ position, message: 'expected a segment like 3:primary or *' });
+            continue;
+        }
+        if (part === '*') {
+            if (tokens.some(token => token.kind === 'rest')) {
+                errors.push({ position, message: 'only one * is allowed' });
+            } else {
+                tokens.push({ kind: 'rest' });
+            }
+            continue;
+        }
+
+        const colon = part.indexOf(':');
+        const lengthText = (colon === -1 ? part : part.substring(0, colon)).trim();
+        const colorText = colon === -1 ? 'default' : part.substring(colon + 1).trim();
+
+        if (!/^[1-9]\d*$/.test(lengthText)) {
+            errors.push({ position, message: `"${lengthText}" is not a positive length` });
+            continue;
+        }
+        if (!CODE_COLORS.includes(colorText as ColorType)) {
+            errors.push({
+                position: position + colon + 1,
+                message: `unknown color "${colorText}" (use ${CODE_COLORS.join(', ')})`,
+            });
+            continue;
+        }
+        tokens.push({ kind: 'fixed', length: parseInt(lengthText, 10), color: colorText as ColorType });
+    }
+
+    return { tokens, errors };
+};
+
+export const formatPatternError = (error: PatternError) =>
+    `Position ${error.position + 1}: ${error.message}`;
+
+/** The first problem with a pattern as a display message, or null when it is valid. */
+export const validateColorPattern = (pattern: string): string | null => {
+    const { errors } = parseColorPatternTokens(pattern);
+    return errors.length > 0 ? formatPatternError(errors[0]) : null;
+};
+
+export const serializeColorPattern = (tokens: PatternToken[]) =>
+    tokens
+        .map(token => {
+            if (token.kind === 'rest') return '*';
+            return token.color === 'default' ? String(token.length) : `${token.length}:${token.color}`;
+        })
+        .join(',');
+
+/** Number of code characters each token covers; "*" takes whatever the fixed segments leave. */
+export const measureColorPattern = (tokens: PatternToken[], codeLength: number): number[] => {
+    let index = 0;
+    return tokens.map((token, i) => {
+        let length: number;
+        if (token.kind === 'rest') {
+            const tail = tokens.slice(i + 1).reduce((sum, next) => sum + (next.kind === 'fixed' ? next.length : 0), 0);
+            length = Math.max(codeLength - index - tail, 0);
+        } else {
+            length = token.length;
+        }
+        length = Math.min(length, codeLength - index);
+        index += length;
+        return length;
+    });
+};
+
+export const applyColorPattern = (tokens: PatternToken[], code: string): ParsedSegment[] => {
+    const segments: ParsedSegment[] = [];
+    let index = 0;
+    measureColorPattern(tokens, code.length).forEach((length, i) => {
+        const token = tokens[i];
+        if (length > 0) {
+            segments.push({ text: code.substring(index, index + length), color: token.kind === 'fixed' ? token.color : 'default' });
+        }
+        index += length;
+    });
+    if (index < code.length) {
+        segments.push({ text: code.substring(index), color: 'default' });
+    }
+    return segments;
+};
+
+/** Splits a code into colored segments. Invalid patterns leave the code uncolored. */
+export const parseColorPattern = (pattern: string, code: string): ParsedSegment[] => {
+    const { tokens, errors } = parseColorPatternTokens(pattern);
+    if (errors.length > 0 || tokens.length === 0) {
+        return [{ text: code, color: 'default' }];
+    }
+    return applyColorPattern(tokens, code);
+};
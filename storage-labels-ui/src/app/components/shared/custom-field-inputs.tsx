@@ -0,0 +1,159 @@
+import React from 'react';
+import {
+    Checkbox,
+    FormControl,
+    FormControlLabel,
+    InputLabel,
+    MenuItem,
+    Select,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import { useApi } from '../../../api';
+import { useAlertMessage } from '../../providers/alert-provider';
+
+/** Values of an item's or box's custom fields as edited in a form, keyed by field id. */
+export type CustomFieldValues = Record<number, string>;
+
+export const toCustomFieldValues = (entries?: CustomFieldEntry[] | null): CustomFieldValues =>
+    Object.fromEntries((entries ?? []).filter(entry => entry.value).map(entry => [entry.customFieldId, entry.value as string]));
+
+/**
+ * The fields whose value differs from when the form was loaded. Only these are sent, so a
+ * record whose values were never loaded, such as one mirrored from a list, keeps them.
+ */
+export const changedCustomFields = (initial: CustomFieldValues, current: CustomFieldValues): CustomFieldEntry[] =>
+    Object.entries(current)
+        .filter(([id, value]) => (initial[Number(id)] ?? '') !== value)
+        .map(([id, value]) => ({ customFieldId: Number(id), value: value || null }));
+
+/** The location's fields that apply to items or to boxes, or all of them when no target is given. */
+export const useCustomFields = (locationId: number | undefined, target?: 'Items' | 'Boxes') => {
+    const { Api } = useApi();
+    const alert = useAlertMessage();
+    const [fields, setFields] = React.useState<CustomField[]>([]);
+
+    React.useEffect(() => {
+        if (!locationId) return;
+        Api.Location.getCustomFields(locationId)
+            .then(({ data }) => setFields(target
+                ? data.filter(field => field.appliesTo === target || field.appliesTo === 'ItemsAndBoxes')
+                : data))
+            .catch(error => {
+                // Field definitions aren't kept offline; the rest of the form still works without them
+                if (navigator.onLine) alert.addError(error);
+            });
+    }, [locationId, target]);
+
+    return fields;
+};
+
+/** Shows a stored value the way it reads best, e.g. 'Yes' for a true Boolean. */
+export const formatCustomFieldValue = (field: CustomField | undefined, value: string) => {
+    if (field?.type === 'Boolean') return value === 'true' ? 'Yes' : 'No';
+    if (field?.type === 'Date') return new Date(`${value}T00:00:00`).toLocaleDateString();
+    return value;
+};
+
+interface CustomFieldListProps {
+    fields: CustomField[];
+    entries?: CustomFieldEntry[] | null;
+}
+
+/** The filled-in custom fields of an item or box, in the order the location defines them. */
+export const CustomFieldList: React.FC<CustomFieldListProps> = ({ fields, entries }) => {
+    const filled = fields.flatMap(field => {
+        const value = entries?.find(entry => entry.customFieldId === field.customFieldId)?.value;
+        return value ? [{ field, value }] : [];
+    });
+
+    if (filled.length === 0) {
+        return null;
+    }
+
+    return (
+        <Stack spacing={0.5}>
+            {filled.map(({ field, value }) => (
+                <Typography key={field.customFieldId} variant="body2">
+                    <Typography component="span" variant="body2" sx={{ color: 'text.secondary' }}>
+                        {field.name}:
+                    </Typography>{' '}
+                    {formatCustomFieldValue(field, value)}
+                </Typography>
+            ))}
+        </Stack>
+    );
+};
+
+interface CustomFieldInputsProps {
+    fields: CustomField[];
+    values: CustomFieldValues;
+    onChange: (values: CustomFieldValues) => void;
+    disabled?: boolean;
+}
+
+export const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ fields, values, onChange, disabled }) => {
+    if (fields.length === 0) {
+        return null;
+    }
+
+    const setValue = (customFieldId: number, value: string) =>
+        onChange({ ...values, [customFieldId]: value });
+
+    return (
+        <Stack spacing={2}>
+            <Typography variant="subtitle2">Custom Fields</Typography>
+            {fields.map(field => {
+                const value = values[field.customFieldId] ?? '';
+                switch (field.type) {
+                    case 'Boolean':
+                        return (
+                            <FormControlLabel
+                                key={field.customFieldId}
+                                label={field.name}
+                                control={
+                                    <Checkbox
+                                        checked={value === 'true'}
+                                        onChange={e => setValue(field.customFieldId, e.target.checked ? 'true' : 'false')}
+                                        disabled={disabled}
+                                    />
+                                }
+                            />
+                        );
+                    case 'Enum':
+                        return (
+                            <FormControl key={field.customFieldId} fullWidth variant="standard">
+                                <InputLabel>{field.name}</InputLabel>
+                                <Select
+                                    label={field.name}
+                                    value={field.options.includes(value) ? value : ''}
+                                    onChange={e => setValue(field.customFieldId, e.target.value)}
+                                    disabled={disabled}
+                                >
+                                    <MenuItem value=""><em>None</em></MenuItem>
+                                    {field.options.map(option => (
+                                        <MenuItem key={option} value={option}>{option}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        );
+                    default:
+                        return (
+                            <FormControl key={field.customFieldId} fullWidth>
+                                <TextField
+                                    variant="standard"
+                                    label={field.name}
+                                    type={field.type === 'Number' ? 'number' : field.type === 'Date' ? 'date' : 'text'}
+                                    value={value}
+                                    onChange={e => setValue(field.customFieldId, e.target.value)}
+                                    disabled={disabled}
+                                    slotProps={field.type === 'Date' ? { inputLabel: { shrink: true } } : undefined}
+                                />
+                            </FormControl>
+                        );
+                }
+            })}
+        </Stack>
+    );
+};
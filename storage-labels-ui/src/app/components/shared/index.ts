@@ -6,3 +6,8 @@ export { SearchResults } from './search-results';
 export { Breadcrumbs } from './breadcrumbs';
 export { EmptyState } from './empty-state';
 export { FormattedCode } from './formatted-code';
+export { CustomFieldInputs, CustomFieldList, useCustomFields, toCustomFieldValues, changedCustomFields, formatCustomFieldValue } from './custom-field-inputs';
+export type { CustomFieldValues } from './custom-field-inputs';
+export { CodeColorPatternEditor } from './code-color-pattern-editor';
+export { validateColorPattern } from './code-color-pattern';
+export { SCAN_FORMATS, SCAN_PATH, getScanResultPath, getScanUrl, normalizeScannedCode } from './scan-formats';
@@ -0,0 +1,33 @@
+import type { IScannerProps } from '@yudiel/react-qr-scanner';
+
+/** Barcode symbologies the camera scanners accept; matches what label jobs can print. */
+export const SCAN_FORMATS: IScannerProps['formats'] = ['qr_code', 'code_128', 'data_matrix'];
+
+/** Path of the deep link route that opens the box or location for a scanned code. */
+export const SCAN_PATH = '/scan/';
+
+/** Deep link a phone camera can open directly, e.g. https://example.com/scan/A0042. */
+export const getScanUrl = (code: string) =>
+    `${window.location.origin}${SCAN_PATH}${encodeURIComponent(code)}`;
+
+/** Page that a QR code lookup result opens: the box, or the location for a location label. */
+export const getScanResultPath = (result: SearchResultResponse) => {
+    if (result.type === 'location') return `/locations/${result.locationId}`;
+    return result.boxId ? `/locations/${result.locationId}/box/${result.boxId}` : null;
+};
+
+/**
+ * Strips the whitespace and control characters (e.g. GS separators) that linear and
+ * Data Matrix readers may add around a code, and unwraps scan deep links back to the
+ * bare code. Links from any host are accepted so labels survive a domain change.
+ */
+export const normalizeScannedCode = (rawValue: string) => {
+    const value = rawValue.replace(/[\x00-\x1F\x7F]/g, '').trim();
+    const match = /^https?:\/\/[^/]+\/scan\/([^/?#]+)\/?(?:[?#].*)?$/i.exec(value);
+    if (!match) return value;
+    try {
+        return decodeURIComponent(match[1]);
+    } catch {
+        return match[1];
+    }
+};
@@ -1,9 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     Box,
+    Button,
+    Chip,
     IconButton,
     InputAdornment,
     Paper,
+    Stack,
     TextField,
     Dialog,
     DialogContent,
@@ -12,21 +15,77 @@ import {
 import SearchIcon from '@mui/icons-material/Search';
 import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
 import CloseIcon from '@mui/icons-material/Close';
+import InventoryIcon from '@mui/icons-material/Inventory';
+import LabelIcon from '@mui/icons-material/Label';
+import PhotoCameraIcon from '@mui/icons-material/PhotoCamera';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
 import { Scanner } from '@yudiel/react-qr-scanner';
-import { useSearch } from '../../providers/search-provider';
+import axios from 'axios';
+import { SearchFilterState, SearchPage, SearchScope, useSearch } from '../../providers/search-provider';
 import { useApi } from '../../../api';
 import { useAlertMessage } from '../../providers/alert-provider';
 import { SearchResults } from './search-results';
-import { useNavigate } from 'react-router';
+import { SearchHistory } from './search-history';
+import { normalizeScannedCode, SCAN_FORMATS } from './scan-formats';
+import { useNavigate, useParams } from 'react-router';
 
 interface SearchBarProps {
     placeholder?: string;
     onQrCodeScan?: (code: string) => void;
+    /** Names of the page's location and box, kept with searches saved while scoped to them. */
+    locationName?: string;
+    boxName?: string;
 }
 
+const SEARCH_DELAY = 300;
+
+const SCOPE_LABELS: Record<SearchScope, string> = {
+    all: 'Everywhere',
+    location: 'This location',
+    box: 'This box',
+};
+
+const TYPE_LABELS: Record<NonNullable<SearchFilterState['type']>, string> = {
+    box: 'Boxes',
+    item: 'Items',
+};
+
+const scopeLabel = (filters: SearchFilterState) =>
+    filters.target ? filters.target.name : SCOPE_LABELS[filters.scope].toLowerCase();
+
+const isFiltered = (filters: SearchFilterState) =>
+    filters.scope !== 'all' || filters.type !== undefined || filters.hasImage !== undefined;
+
+/** Reads like the tail of "3 results found ...", e.g. "in this box, items only, with photos". */
+const describeFilters = (filters: SearchFilterState) => [
+    filters.scope !== 'all' && `in ${scopeLabel(filters)}`,
+    filters.type && `${TYPE_LABELS[filters.type].toLowerCase()} only`,
+    filters.hasImage && 'with photos',
+].filter(Boolean).join(', ');
+
+const FilterChip: React.FC<{ label: string; icon?: React.ReactElement; selected: boolean; onClick: () => void }> = ({
+    label,
+    icon,
+    selected,
+    onClick,
+}) => (
+    <Chip
+        label={label}
+        icon={icon}
+        size="small"
+        color={selected ? 'primary' : 'default'}
+        variant={selected ? 'filled' : 'outlined'}
+        onClick={onClick}
+        aria-pressed={selected}
+    />
+);
+
 export const SearchBar: React.FC<SearchBarProps> = ({ 
     placeholder = "Search boxes and items...",
-    onQrCodeScan
+    onQrCodeScan,
+    locationName,
+    boxName
 }) => {
     const { 
         searchQuery, 
@@ -40,24 +99,116 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         accumulatedResults,
         appendResults,
         resetAccumulatedResults,
-        clearSearch
+        clearSearch,
+        filters,
+        setFilters,
+        getCachedPage,
+        cachePage,
+        recentSearches,
+        savedSearches,
+        rememberSearch,
+        removeRecentSearch,
+        isSaved,
+        toggleSavedSearch
     } = useSearch();
     const { Api } = useApi();
     const alert = useAlertMessage();
     const navigate = useNavigate();
+    const { locationId, boxId } = useParams();
     const [scannerOpen, setScannerOpen] = useState(false);
     const [searching, setSearching] = useState(false);
     const [loadingMore, setLoadingMore] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const searchTimer = useRef<number>(undefined);
+    const inFlight = useRef<AbortController | null>(null);
+    // Bumped for every search so a response can tell whether it is still the latest one
+    const requestSequence = useRef(0);
+
+    const cancelPending = () => {
+        window.clearTimeout(searchTimer.current);
+        inFlight.current?.abort();
+        inFlight.current = null;
+        requestSequence.current++;
+    };
+
+    useEffect(() => cancelPending, []);
+
+    // Searches start out scoped to the location or box page the bar sits on
+    useEffect(() => {
+        const scope: SearchScope = boxId ? 'box' : locationId ? 'location' : 'all';
+        const next = { ...filters, scope, target: undefined };
+        setFilters(next);
+        if (searchQuery.trim()) {
+            handleSearch(searchQuery.trim(), 1, next);
+        }
+    }, [locationId, boxId]);
+
+    const changeFilters = (next: SearchFilterState) => {
+        setFilters(next);
+        if (searchQuery.trim()) {
+            handleSearch(searchQuery.trim(), 1, next);
+        }
+    };
 
-    const handleSearch = (query: string, page: number = 1) => {
-        // Clear accumulated results if it's a new search (page 1)
+    const toSearchFilters = (active: SearchFilterState): SearchFilters => ({
+        locationId: active.scope === 'location' ? active.target?.locationId ?? locationId : undefined,
+        boxId: active.scope === 'box' ? active.target?.boxId ?? boxId : undefined,
+        type: active.type,
+        hasImage: active.hasImage,
+    });
+
+    const currentSearch = (): SavedSearch => {
+        const { locationId: savedLocationId, boxId: savedBoxId } = toSearchFilters(filters);
+        const pageScopeName = filters.scope === 'box' ? boxName : filters.scope === 'location' ? locationName : undefined;
+        return {
+            query: searchQuery.trim(),
+            locationId: savedLocationId ?? null,
+            boxId: savedBoxId ?? null,
+            scopeName: filters.target?.name ?? pageScopeName ?? null,
+            type: filters.type ?? null,
+            hasImage: filters.hasImage ?? null,
+        };
+    };
+
+    const applySavedSearch = (saved: SavedSearch) => {
+        const scope: SearchScope = saved.boxId ? 'box' : saved.locationId ? 'location' : 'all';
+        const onThisPage = scope === 'box' ? saved.boxId === boxId : saved.locationId === locationId;
+        const next: SearchFilterState = {
+            scope,
+            type: saved.type ?? undefined,
+            hasImage: saved.hasImage ?? undefined,
+            target: scope === 'all' || onThisPage ? undefined : {
+                locationId: saved.locationId ?? undefined,
+                boxId: saved.boxId ?? undefined,
+                name: saved.scopeName ?? `a saved ${scope}`,
+            },
+        };
+        setHistoryOpen(false);
+        setSearchQuery(saved.query);
+        setFilters(next);
+        handleSearch(saved.query, 1, next);
+        rememberSearch(saved.query);
+    };
+
+    const applyRecentSearch = (query: string) => {
+        setHistoryOpen(false);
+        setSearchQuery(query);
+        handleSearch(query);
+        rememberSearch(query);
+    };
+
+    const showPage = (page: number, { data, totalCount, totalPages }: SearchPage) => {
         if (page === 1) {
             resetAccumulatedResults();
-            setSearching(true);
-        } else {
-            setLoadingMore(true);
         }
-        
+        appendResults(data);
+        setPaginationInfo(totalCount, totalPages);
+        setCurrentPage(page);
+    };
+
+    const handleSearch = (query: string, page: number = 1, activeFilters: SearchFilterState = filters) => {
+        cancelPending();
+
         // Clear results if query is empty
         if (!query || !query.trim()) {
             resetAccumulatedResults();
@@ -66,28 +217,58 @@ export const SearchBar: React.FC<SearchBarProps> = ({
             setLoadingMore(false);
             return;
         }
-        
-        // Search globally across all locations and boxes
-        Api.Search.searchBoxesAndItems(query, undefined, undefined, page, pageSize)
-            .then(({ data, totalCount, totalPages }) => {
-                if (page === 1) {
-                    // First page: reset accumulated results
-                    resetAccumulatedResults();
-                    appendResults(data);
-                } else {
-                    // Subsequent pages: append to accumulated results
-                    appendResults(data);
+
+        const searchFilters = toSearchFilters(activeFilters);
+        const cacheKey = JSON.stringify([query, searchFilters, page, pageSize]);
+        const cached = getCachedPage(cacheKey);
+        if (cached) {
+            showPage(page, cached);
+            setSearching(false);
+            setLoadingMore(false);
+            return;
+        }
+
+        if (page === 1) {
+            setSearching(true);
+        } else {
+            setLoadingMore(true);
+        }
+
+        const sequence = requestSequence.current;
+        const controller = new AbortController();
+        inFlight.current = controller;
+        Api.Search.searchBoxesAndItems(query, searchFilters, page, pageSize, controller.signal)
+            .then((result) => {
+                cachePage(cacheKey, result);
+                if (sequence === requestSequence.current) {
+                    showPage(page, result);
+                }
+            })
+            .catch((error) => {
+                if (!axios.isCancel(error)) {
+                    alert.addError(error);
                 }
-                setPaginationInfo(totalCount, totalPages);
-                setCurrentPage(page);
             })
-            .catch((error) => alert.addError(error))
             .finally(() => {
-                setSearching(false);
-                setLoadingMore(false);
+                if (sequence === requestSequence.current) {
+                    inFlight.current = null;
+                    setSearching(false);
+                    setLoadingMore(false);
+                }
             });
     };
 
+    /** Waits for a pause in typing; results already on screen stay until the new ones arrive. */
+    const scheduleSearch = (query: string) => {
+        cancelPending();
+        if (!query) {
+            handleSearch('');
+            return;
+        }
+        setSearching(true);
+        searchTimer.current = window.setTimeout(() => handleSearch(query), SEARCH_DELAY);
+    };
+
     const handleLoadMore = () => {
         if (loadingMore || searching || currentPage >= totalPages) {
             return;
@@ -100,16 +281,23 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         const value = event.target.value;
         setSearchQuery(value);
         
-        // Trigger search as user types, or clear results if empty
-        if (value.trim()) {
-            handleSearch(value.trim());
-        } else {
-            // Clear results when search box is empty
-            handleSearch('');
+        // Search once typing pauses, or clear results right away if empty
+        scheduleSearch(value.trim());
+    };
+
+    const handleSearchKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key === 'Enter' && searchQuery.trim()) {
+            // Skip the typing delay and keep the query in history
+            handleSearch(searchQuery.trim());
+            rememberSearch(searchQuery);
+        } else if (event.key === 'Escape') {
+            setHistoryOpen(false);
         }
     };
 
     const handleSearchResultClick = (result: SearchResultResponse) => {
+        cancelPending();
+        rememberSearch(searchQuery);
         resetAccumulatedResults(); // Clear results
         clearSearch(); // Clear search box
         
@@ -128,11 +316,16 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     };
 
     const handleClearSearch = () => {
+        cancelPending();
+        setSearching(false);
+        setLoadingMore(false);
         setSearchQuery('');
         resetAccumulatedResults();
         setPaginationInfo(0, 0);
     };
 
+    const pinned = Boolean(searchQuery.trim()) && isSaved(currentSearch());
+
     return (
         <Box
             sx={{
@@ -145,6 +338,9 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                     placeholder={placeholder}
                     value={searchQuery}
                     onChange={handleSearchChange}
+                    onKeyDown={handleSearchKeyDown}
+                    onFocus={() => setHistoryOpen(true)}
+                    onBlur={() => setHistoryOpen(false)}
                     slotProps={{
                         input: {
                             startAdornment: (
@@ -154,6 +350,18 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                             ),
                             endAdornment: (
                                 <InputAdornment position="end">
+                                    {searchQuery.trim() && (
+                                        <IconButton
+                                            size="small"
+                                            onClick={() => toggleSavedSearch(currentSearch())}
+                                            edge="end"
+                                            sx={{ mr: 0.5 }}
+                                            aria-label={pinned ? 'unpin search' : 'pin search'}
+                                            title={pinned ? 'Unpin search' : 'Pin search with its filters'}
+                                        >
+                                            {pinned ? <StarIcon color="warning" /> : <StarBorderIcon />}
+                                        </IconButton>
+                                    )}
                                     {searchQuery && (
                                         <IconButton
                                             size="small"
@@ -180,7 +388,63 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                         },
                     }}
                 />
+                <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap', px: 1.5, pb: 1 }}>
+                    {locationId && (['all', 'location', 'box'] as SearchScope[])
+                        .filter(scope => scope !== 'box' || boxId)
+                        .map(scope => (
+                            <FilterChip
+                                key={scope}
+                                label={SCOPE_LABELS[scope]}
+                                selected={filters.scope === scope && !filters.target}
+                                onClick={() => changeFilters({
+                                    ...filters,
+                                    scope,
+                                    target: undefined,
+                                })}
+                            />
+                        ))}
+                    {filters.target && (
+                        <Chip
+                            label={filters.target.name}
+                            size="small"
+                            color="primary"
+                            onDelete={() => changeFilters({
+                                ...filters,
+                                scope: boxId ? 'box' : locationId ? 'location' : 'all',
+                                target: undefined,
+                            })}
+                        />
+                    )}
+                    <FilterChip
+                        label={TYPE_LABELS.box}
+                        icon={<InventoryIcon />}
+                        selected={filters.type === 'box'}
+                        onClick={() => changeFilters({ ...filters, type: filters.type === 'box' ? undefined : 'box' })}
+                    />
+                    <FilterChip
+                        label={TYPE_LABELS.item}
+                        icon={<LabelIcon />}
+                        selected={filters.type === 'item'}
+                        onClick={() => changeFilters({ ...filters, type: filters.type === 'item' ? undefined : 'item' })}
+                    />
+                    <FilterChip
+                        label="Has photo"
+                        icon={<PhotoCameraIcon />}
+                        selected={filters.hasImage === true}
+                        onClick={() => changeFilters({ ...filters, hasImage: filters.hasImage ? undefined : true })}
+                    />
+                </Stack>
             </Paper>
+            {historyOpen && !searchQuery.trim() && (
+                <SearchHistory
+                    recentSearches={recentSearches}
+                    savedSearches={savedSearches}
+                    onSelectRecent={applyRecentSearch}
+                    onRemoveRecent={removeRecentSearch}
+                    onSelectSaved={applySavedSearch}
+                    onUnsave={toggleSavedSearch}
+                />
+            )}
             <SearchResults
                 results={accumulatedResults}
                 onResultClick={handleSearchResultClick}
@@ -191,6 +455,10 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                 totalPages={totalPages}
                 totalResults={totalResults}
                 showRelevance={true}
+                filterSummary={describeFilters(filters)}
+                onClearFilters={searchQuery.trim() && !searching && isFiltered(filters)
+                    ? () => changeFilters({ scope: 'all' })
+                    : undefined}
             />
             <Dialog
                 open={scannerOpen}
@@ -216,7 +484,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                 <DialogContent>
                     <Scanner
                         onScan={(detectedCodes) => {
-                            const code = detectedCodes[0]?.rawValue;
+                            const code = normalizeScannedCode(detectedCodes[0]?.rawValue ?? '');
                             if (code) {
                                 handleQrScan(code);
                             }
@@ -224,7 +492,20 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                         constraints={{
                             facingMode: 'environment'
                         }}
+                        formats={SCAN_FORMATS}
                     />
+                    {locationId && (
+                        <Button
+                            fullWidth
+                            sx={{ mt: 1 }}
+                            onClick={() => {
+                                setScannerOpen(false);
+                                navigate(`/locations/${locationId}/audit`);
+                            }}
+                        >
+                            Scan Many Boxes (Audit This Location)
+                        </Button>
+                    )}
                 </DialogContent>
             </Dialog>
         </Box>
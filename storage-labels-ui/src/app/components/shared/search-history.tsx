@@ -0,0 +1,112 @@
+import React from 'react';
+import {
+    IconButton,
+    List,
+    ListItem,
+    ListItemButton,
+    ListItemIcon,
+    ListItemText,
+    ListSubheader,
+    Paper,
+} from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import StarIcon from '@mui/icons-material/Star';
+import CloseIcon from '@mui/icons-material/Close';
+
+interface SearchHistoryProps {
+    recentSearches: string[];
+    savedSearches: SavedSearch[];
+    onSelectRecent: (query: string) => void;
+    onRemoveRecent: (query: string) => void;
+    onSelectSaved: (search: SavedSearch) => void;
+    onUnsave: (search: SavedSearch) => void;
+}
+
+export const describeSavedSearch = (search: SavedSearch) => [
+    search.scopeName && `in ${search.scopeName}`,
+    search.type && (search.type === 'box' ? 'boxes only' : 'items only'),
+    search.hasImage && 'with photos',
+].filter(Boolean).join(', ');
+
+// Keeps focus in the search input so the list stays open while it is clicked
+const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+/** Pinned and recent searches, shown under an empty search input. */
+export const SearchHistory: React.FC<SearchHistoryProps> = ({
+    recentSearches,
+    savedSearches,
+    onSelectRecent,
+    onRemoveRecent,
+    onSelectSaved,
+    onUnsave,
+}) => {
+    if (recentSearches.length === 0 && savedSearches.length === 0) {
+        return null;
+    }
+
+    return (
+        <Paper
+            elevation={8}
+            sx={{
+                position: 'absolute',
+                top: '100%',
+                left: 0,
+                right: 0,
+                mt: 1,
+                zIndex: 1200,
+                maxHeight: '400px',
+                overflow: 'auto',
+            }}
+        >
+            <List dense>
+                {savedSearches.length > 0 && <ListSubheader>Saved searches</ListSubheader>}
+                {savedSearches.map((search, index) => (
+                    <ListItem
+                        key={`saved-${index}`}
+                        disablePadding
+                        secondaryAction={
+                            <IconButton
+                                edge="end"
+                                onMouseDown={keepFocus}
+                                onClick={() => onUnsave(search)}
+                                aria-label="unpin search"
+                                title="Unpin"
+                            >
+                                <StarIcon color="warning" />
+                            </IconButton>
+                        }
+                    >
+                        <ListItemButton onMouseDown={keepFocus} onClick={() => onSelectSaved(search)}>
+                            <ListItemText primary={search.query} secondary={describeSavedSearch(search) || undefined} />
+                        </ListItemButton>
+                    </ListItem>
+                ))}
+                {recentSearches.length > 0 && <ListSubheader>Recent searches</ListSubheader>}
+                {recentSearches.map(query => (
+                    <ListItem
+                        key={`recent-${query}`}
+                        disablePadding
+                        secondaryAction={
+                            <IconButton
+                                edge="end"
+                                onMouseDown={keepFocus}
+                                onClick={() => onRemoveRecent(query)}
+                                aria-label="remove from history"
+                                title="Remove"
+                            >
+                                <CloseIcon fontSize="small" />
+                            </IconButton>
+                        }
+                    >
+                        <ListItemButton onMouseDown={keepFocus} onClick={() => onSelectRecent(query)}>
+                            <ListItemIcon sx={{ minWidth: 36 }}>
+                                <HistoryIcon fontSize="small" />
+                            </ListItemIcon>
+                            <ListItemText primary={query} />
+                        </ListItemButton>
+                    </ListItem>
+                ))}
+            </List>
+        </Paper>
+    );
+};
@@ -17,6 +17,31 @@ import {
 import InventoryIcon from '@mui/icons-material/Inventory';
 import LabelIcon from '@mui/icons-material/Label';
 
+const CUSTOM_FIELD_PREFIX = 'field:';
+
+const highlightFor = (result: SearchResultResponse, field: SearchHighlightField) =>
+    result.highlights?.find(h => h.field === field);
+
+/** Renders a field with its matched spans emphasised; falls back to plain text when it did not match. */
+const HighlightedText: React.FC<{ text?: string; highlight?: SearchHighlight }> = ({ text, highlight }) => {
+    if (!highlight) {
+        return <>{text}</>;
+    }
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    highlight.matches.forEach(({ start, length }) => {
+        parts.push(highlight.text.slice(position, start));
+        parts.push(
+            <Box key={start} component="mark" sx={{ bgcolor: 'warning.light', color: 'inherit', fontWeight: 'bold', borderRadius: 0.5 }}>
+                {highlight.text.slice(start, start + length)}
+            </Box>
+        );
+        position = start + length;
+    });
+    parts.push(highlight.text.slice(position));
+    return <>{parts}</>;
+};
+
 interface SearchResultsProps {
     results: SearchResultResponse[];
     onResultClick: (result: SearchResultResponse) => void;
@@ -29,6 +54,10 @@ interface SearchResultsProps {
     totalResults?: number;
     onPageChange?: (page: number) => void;
     showRelevance?: boolean;
+    /** Active filters in words, appended to the result count. */
+    filterSummary?: string;
+    /** Offered when a filtered search finds nothing. */
+    onClearFilters?: () => void;
 }
 
 export const SearchResults: React.FC<SearchResultsProps> = ({ 
@@ -41,7 +70,9 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
     totalPages = 1,
     totalResults = 0,
     onPageChange: _onPageChange,
-    showRelevance = true
+    showRelevance = true,
+    filterSummary,
+    onClearFilters
 }) => {
     const listRef = useRef<HTMLDivElement>(null);
     const observerRef = useRef<IntersectionObserver | null>(null);
@@ -99,6 +130,22 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
         );
     }
 
+    if (results.length === 0 && !loading && onClearFilters) {
+        return (
+            <Paper elevation={2} sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="body2" sx={{
+                    color: "text.secondary",
+                    flexGrow: 1
+                }}>
+                    No results {filterSummary}.
+                </Typography>
+                <Button size="small" onClick={onClearFilters}>
+                    Clear Filters
+                </Button>
+            </Paper>
+        );
+    }
+
     if (results.length === 0) {
         return null;
     }
@@ -143,6 +190,7 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                         color: "text.secondary"
                     }}>
                         {totalResults} result{totalResults !== 1 ? 's' : ''} found
+                        {filterSummary && ` ${filterSummary}`}
                         {results.length < totalResults && ` • Showing ${results.length}`}
                     </Typography>
                 </Box>
@@ -168,7 +216,12 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                                             alignItems: "center",
                                             gap: 1
                                         }}>
-                                        {result.type === 'box' ? result.boxName : result.itemName}
+                                        <span>
+                                            <HighlightedText
+                                                text={result.type === 'box' ? result.boxName : result.itemName}
+                                                highlight={highlightFor(result, 'name')}
+                                            />
+                                        </span>
                                         <Chip
                                             label={result.type}
                                             size="small"
@@ -193,7 +246,7 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                                             <Typography variant="caption" component="span" sx={{
                                                 display: "block"
                                             }}>
-                                                Code: {result.boxCode}
+                                                Code: <HighlightedText text={result.boxCode} highlight={highlightFor(result, 'code')} />
                                             </Typography>
                                         )}
                                         {result.type === 'item' && (
@@ -203,10 +256,24 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                                                 In box: {result.boxName} ({result.boxCode})
                                             </Typography>
                                         )}
+                                        {highlightFor(result, 'description') && (
+                                            <Typography variant="caption" component="span" sx={{
+                                                display: "block"
+                                            }}>
+                                                Description: <HighlightedText highlight={highlightFor(result, 'description')} />
+                                            </Typography>
+                                        )}
+                                        {result.highlights?.filter(h => h.field.startsWith(CUSTOM_FIELD_PREFIX)).map(highlight => (
+                                            <Typography key={highlight.field} variant="caption" component="span" sx={{
+                                                display: "block"
+                                            }}>
+                                                {highlight.field.slice(CUSTOM_FIELD_PREFIX.length)}: <HighlightedText highlight={highlight} />
+                                            </Typography>
+                                        ))}
                                         <Typography variant="caption" component="span" sx={{
                                             color: "text.secondary"
                                         }}>
-                                            Location: {result.locationName}
+                                            Location: {[result.locationName, ...(result.containerPath ?? [])].join(' › ')}
                                         </Typography>
                                     </>
                                 }
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import {
+    Badge,
+    Box,
+    Button,
+    CircularProgress,
+    Divider,
+    IconButton,
+    List,
+    ListItem,
+    ListItemText,
+    Popover,
+    Stack,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import CloudDoneIcon from '@mui/icons-material/CloudDone';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import SyncProblemIcon from '@mui/icons-material/SyncProblem';
+import { PendingChange, SyncStatus, useOfflineSync } from '../../../api';
+
+const describeStatus = (status: SyncStatus) => {
+    if (status.conflicts.length > 0) return `${status.conflicts.length} change${status.conflicts.length !== 1 ? 's' : ''} need${status.conflicts.length === 1 ? 's' : ''} attention`;
+    if (status.syncing) return 'Syncing changes...';
+    if (!status.online) return status.pending > 0 ? `Offline, ${status.pending} change${status.pending !== 1 ? 's' : ''} waiting` : 'Offline, showing saved data';
+    if (status.pending > 0) return `${status.pending} change${status.pending !== 1 ? 's' : ''} waiting to sync`;
+    return 'All changes synced';
+};
+
+const StatusIcon: React.FC<{ status: SyncStatus }> = ({ status }) => {
+    if (status.syncing) return <CircularProgress size={22} color="inherit" />;
+    if (status.conflicts.length > 0) return <SyncProblemIcon />;
+    if (!status.online) return <CloudOffIcon />;
+    if (status.pending > 0) return <CloudUploadIcon />;
+    return <CloudDoneIcon />;
+};
+
+const describeChange = (change: PendingChange) => {
+    const verb = { create: 'Create', update: 'Edit', delete: 'Delete' }[change.action];
+    return `${verb} ${change.entity} "${change.label}"`;
+};
+
+/** Offline sync state for the navigation bar, with a panel to sync now and resolve conflicts. */
+export const SyncStatusButton: React.FC = () => {
+    const { status, syncNow, keepLocalChange, discardLocalChange } = useOfflineSync();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const [busy, setBusy] = useState<number | null>(null);
+    const summary = describeStatus(status);
+
+    const resolve = (change: PendingChange, action: (change: PendingChange) => Promise<void>) => {
+        setBusy(change.id ?? null);
+        action(change).finally(() => setBusy(null));
+    };
+
+    return (
+        <React.Fragment>
+            <Tooltip title={summary}>
+                <IconButton color="inherit" aria-label={summary} onClick={e => setAnchorEl(e.currentTarget)} sx={{ mr: 1 }}>
+                    <Badge
+                        badgeContent={status.conflicts.length || status.pending}
+                        color={status.conflicts.length > 0 ? 'warning' : 'secondary'}
+                    >
+                        <StatusIcon status={status} />
+                    </Badge>
+                </IconButton>
+            </Tooltip>
+            <Popover
+                open={Boolean(anchorEl)}
+                anchorEl={anchorEl}
+                onClose={() => setAnchorEl(null)}
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+                transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+            >
+                <Box sx={{ p: 2, width: 360, maxWidth: '90vw' }}>
+                    <Typography variant="subtitle1">{summary}</Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                        {status.lastSyncedAt
+                            ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}`
+                            : 'Box and item changes made without a connection are saved on this device and synced when you are back online.'}
+                    </Typography>
+                    <Box sx={{ mt: 1 }}>
+                        <Button
+                            size="small"
+                            onClick={() => syncNow()}
+                            disabled={status.syncing || status.pending === 0}
+                        >
+                            Sync Now
+                        </Button>
+                    </Box>
+                    {status.conflicts.length > 0 && (
+                        <React.Fragment>
+                            <Divider sx={{ my: 1 }} />
+                            <List dense disablePadding>
+                                {status.conflicts.map(change => (
+                                    <ListItem key={change.id} disableGutters sx={{ display: 'block' }}>
+                                        <ListItemText primary={describeChange(change)} secondary={change.conflict?.reason} />
+                                        <Stack direction="row" spacing={1}>
+                                            <Button
+                                                size="small"
+                                                onClick={() => resolve(change, keepLocalChange)}
+                                                disabled={busy !== null}
+                                            >
+                                                {change.conflict?.server === undefined ? 'Retry' : 'Keep Mine'}
+                                            </Button>
+                                            <Button
+                                                size="small"
+                                                color="secondary"
+                                                onClick={() => resolve(change, discardLocalChange)}
+                                                disabled={busy !== null}
+                                            >
+                                                {change.conflict?.server === undefined ? 'Discard' : 'Use Server Version'}
+                                            </Button>
+                                        </Stack>
+                                    </ListItem>
+                                ))}
+                            </List>
+                        </React.Fragment>
+                    )}
+                </Box>
+            </Popover>
+        </React.Fragment>
+    );
+};
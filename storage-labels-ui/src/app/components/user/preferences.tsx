@@ -18,6 +18,7 @@ import {
 } from '@mui/material';
 import { useApi } from '../../../api';
 import { useUser } from '../../providers/user-provider';
+import { CodeColorPatternEditor, validateColorPattern } from '../shared';
 
 export const Preferences: React.FC = () => {
     const { Api } = useApi();
@@ -25,6 +26,7 @@ export const Preferences: React.FC = () => {
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
+    const [sampleCode, setSampleCode] = useState('ABC12345');
     const [preferences, setPreferences] = useState<UserPreferences>({
         theme: 'light',
         showImages: true,
@@ -38,6 +40,11 @@ export const Preferences: React.FC = () => {
     }, [user]);
 
     const handleSave = async () => {
+        const patternError = validateColorPattern(preferences.codeColorPattern);
+        if (patternError) {
+            setError(`Color pattern is invalid. ${patternError}`);
+            return;
+        }
         try {
             setSaving(true);
             setError(null);
@@ -134,12 +141,20 @@ export const Preferences: React.FC = () => {
                 <FormControl fullWidth sx={{ mb: 3 }}>
                     <TextField
                         variant="standard"
+                        label="Sample Code"
+                        value={sampleCode}
+                        onChange={(e) => setSampleCode(e.target.value)}
+                        helperText="Try the pattern against one of your box codes"
+                        sx={{ mb: 2 }}
+                        slotProps={{ htmlInput: { maxLength: 50 } }}
+                    />
+                    <CodeColorPatternEditor
                         label="Color Pattern"
                         value={preferences.codeColorPattern}
-                        onChange={(e) =>
-                            setPreferences({ ...preferences, codeColorPattern: e.target.value })
+                        onChange={(codeColorPattern) =>
+                            setPreferences({ ...preferences, codeColorPattern })
                         }
-                        placeholder="e.g., 3:primary,2:secondary,*,4:error"
+                        sampleCode={sampleCode}
                         helperText="Format: length:color,length:color,... Use * for remaining chars. Colors: primary, secondary, error, warning, info, success"
                     />
                     <Typography
@@ -1,26 +1,40 @@
-import { Alert, AlertTitle, Box, Button, Divider, Portal } from '@mui/material';
+import { Alert, AlertTitle, Box, Button, Divider, LinearProgress, Portal } from '@mui/material';
 import React, { createContext, PropsWithChildren, useState } from 'react';
 
 
+/** A long-running operation shown above the messages, e.g. a bulk action on several boxes. */
+export interface AlertProgress {
+    label: string;
+    completed: number;
+    total: number;
+}
+
 interface AlertHandlers {
     addMessage: (alert: unknown) => void;
-    addError: (error: unknown) => void;
+    /** Adds the messages parsed from an API error, prefixed with `context` when given. */
+    addError: (error: unknown, context?: string) => void;
     clearMessages: () => void;
+    showProgress: (progress: AlertProgress) => void;
+    clearProgress: () => void;
     messages?: string[];
+    progress?: AlertProgress;
 }
 
 const defaultAlertHandlers = {
     addMessage: () => null,
     addError: () => null,
     clearMessages: () => null,
+    showProgress: () => null,
+    clearProgress: () => null,
 }
 
 const AlertContext = createContext<AlertHandlers>(defaultAlertHandlers);
 
 export const AlertProvider: React.FC<PropsWithChildren> = ({ children }) => {
     const [messages, setMessages] = useState<string[]>();
+    const [progress, setProgress] = useState<AlertProgress>();
 
-    const addError = (error: unknown) => {
+    const addError = (error: unknown, context?: string) => {
         let errorMessages: string[] = [];
 
         // Check if it's an Axios error with response data
@@ -71,6 +85,10 @@ export const AlertProvider: React.FC<PropsWithChildren> = ({ children }) => {
             }
         }
 
+        if (context) {
+            errorMessages = errorMessages.map(message => `${context}: ${message}`);
+        }
+
         setMessages(_messages => _messages ? [..._messages, ...errorMessages] : errorMessages);
     };
 
@@ -87,7 +105,12 @@ export const AlertProvider: React.FC<PropsWithChildren> = ({ children }) => {
         addError,
         clearMessages: () =>
             setMessages(undefined),
+        showProgress: (next: AlertProgress) =>
+            setProgress(next),
+        clearProgress: () =>
+            setProgress(undefined),
         messages,
+        progress,
     }
 
     return <AlertContext.Provider value={alertHandlers}>{children}</AlertContext.Provider>
@@ -98,7 +121,7 @@ export const AlertMessage: React.FC = () => {
     return (
         <AlertContext.Consumer>
             {
-                value => value.messages &&
+                value => (value.messages || value.progress) &&
                     <Portal>
                         <Box 
                             sx={{ 
@@ -114,6 +137,30 @@ export const AlertMessage: React.FC = () => {
                                 borderColor: 'divider',
                             }}
                         >
+                            {value.progress && (
+                                <React.Fragment>
+                                    <Alert
+                                        severity="info"
+                                        variant="standard"
+                                        sx={{
+                                            borderRadius: 0,
+                                            '& .MuiAlert-message': {
+                                                width: '100%'
+                                            }
+                                        }}
+                                    >
+                                        <AlertTitle>{value.progress.label}</AlertTitle>
+                                        {value.progress.completed} of {value.progress.total}
+                                        <LinearProgress
+                                            variant="determinate"
+                                            value={value.progress.total > 0 ? (value.progress.completed / value.progress.total) * 100 : 0}
+                                            sx={{ mt: 1 }}
+                                        />
+                                    </Alert>
+                                    {value.messages && <Divider />}
+                                </React.Fragment>
+                            )}
+                            {value.messages && (
                             <Box
                                 sx={{
                                     p: 1,
@@ -121,9 +168,10 @@ export const AlertMessage: React.FC = () => {
                                 }}>
                                 <Button onClick={value.clearMessages} variant="text">Clear</Button>
                             </Box>
-                            <Divider />
+                            )}
+                            {value.messages && <Divider />}
                             {
-                                value.messages.map((message, idx) =>
+                                value.messages?.map((message, idx) =>
                                     <React.Fragment key={idx}>
                                         <Alert 
                                             severity="error"
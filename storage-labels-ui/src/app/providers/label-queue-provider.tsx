@@ -0,0 +1,79 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+
+const QUEUE_STORAGE_KEY = 'box-label-queue';
+const LOCATION_ID_PREFIX = 'location-';
+
+export interface QueuedBoxLabel {
+    /** Box id, or a `location-` prefixed id for a location's own label. */
+    boxId: string;
+    code: string;
+    name: string;
+    locationName: string;
+}
+
+interface LabelQueueContextType {
+    queue: QueuedBoxLabel[];
+    addBoxes: (boxes: Box[], locationName: string) => void;
+    addLocation: (location: StorageLocation) => void;
+    removeBox: (boxId: string) => void;
+    clearQueue: () => void;
+}
+
+const LabelQueueContext = createContext<LabelQueueContextType | undefined>(undefined);
+
+const loadQueue = (): QueuedBoxLabel[] => {
+    try {
+        const stored = sessionStorage.getItem(QUEUE_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Holds existing boxes waiting to have their labels printed. The queue survives page
+ * reloads for the browser session so boxes can be collected from several locations.
+ */
+export const LabelQueueProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [queue, setQueue] = useState<QueuedBoxLabel[]>(loadQueue);
+
+    useEffect(() => {
+        sessionStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    }, [queue]);
+
+    const addBoxes = (boxes: Box[], locationName: string) => {
+        setQueue(prev => [
+            ...prev,
+            ...boxes
+                .filter(box => !prev.some(queued => queued.boxId === box.boxId))
+                .map(box => ({ boxId: box.boxId, code: box.code, name: box.name, locationName })),
+        ]);
+    };
+
+    const addLocation = (location: StorageLocation) => {
+        const id = `${LOCATION_ID_PREFIX}${location.locationId}`;
+        setQueue(prev => prev.some(queued => queued.boxId === id)
+            ? prev
+            : [...prev, { boxId: id, code: location.code, name: location.name, locationName: location.name }]);
+    };
+
+    const removeBox = (boxId: string) => {
+        setQueue(prev => prev.filter(queued => queued.boxId !== boxId));
+    };
+
+    const clearQueue = () => setQueue([]);
+
+    return (
+        <LabelQueueContext.Provider value={{ queue, addBoxes, addLocation, removeBox, clearQueue }}>
+            {children}
+        </LabelQueueContext.Provider>
+    );
+};
+
+export const useLabelQueue = () => {
+    const context = useContext(LabelQueueContext);
+    if (context === undefined) {
+        throw new Error('useLabelQueue must be used within a LabelQueueProvider');
+    }
+    return context;
+};
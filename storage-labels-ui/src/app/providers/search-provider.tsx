@@ -1,4 +1,42 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useApi } from '../../api';
+import { useUser } from './user-provider';
+
+/** Where a search looks: everywhere, or only in the location or box page the user is on. */
+export type SearchScope = 'all' | 'location' | 'box';
+
+export interface SearchFilterState {
+    scope: SearchScope;
+    type?: 'box' | 'item';
+    hasImage?: boolean;
+    /** Set by a saved search scoped to a location or box other than the current page's. */
+    target?: { locationId?: string; boxId?: string; name: string };
+}
+
+export interface SearchPage {
+    data: SearchResultResponse[];
+    totalCount: number;
+    totalPages: number;
+}
+
+interface CachedPage {
+    page: SearchPage;
+    cachedAt: number;
+}
+
+// Enough to step back through a few recent queries without refetching, short-lived so edits show up
+const CACHE_SIZE = 20;
+const CACHE_TTL = 60 * 1000;
+
+const RECENT_LIMIT = 10;
+const SAVED_LIMIT = 20;
+
+const sameSearch = (a: SavedSearch, b: SavedSearch) =>
+    a.query === b.query
+    && (a.locationId ?? null) === (b.locationId ?? null)
+    && (a.boxId ?? null) === (b.boxId ?? null)
+    && (a.type ?? null) === (b.type ?? null)
+    && (a.hasImage ?? null) === (b.hasImage ?? null);
 
 interface SearchContextType {
     searchQuery: string;
@@ -16,17 +54,71 @@ interface SearchContextType {
     accumulatedResults: SearchResultResponse[];
     appendResults: (newResults: SearchResultResponse[]) => void;
     resetAccumulatedResults: () => void;
+    // Filter chips
+    filters: SearchFilterState;
+    setFilters: (filters: SearchFilterState) => void;
+    // Recent result pages, keyed by query, filters and page
+    getCachedPage: (key: string) => SearchPage | undefined;
+    cachePage: (key: string, page: SearchPage) => void;
+    // History and pinned searches, synced through user preferences
+    recentSearches: string[];
+    savedSearches: SavedSearch[];
+    rememberSearch: (query: string) => void;
+    removeRecentSearch: (query: string) => void;
+    isSaved: (search: SavedSearch) => boolean;
+    toggleSavedSearch: (search: SavedSearch) => void;
 }
 
 const SearchContext = createContext<SearchContextType | undefined>(undefined);
 
 export const SearchProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { Api } = useApi();
+    const { user, updateUser } = useUser();
     const [searchQuery, setSearchQuery] = useState('');
     const [currentPage, setCurrentPage] = useState(1);
     const [pageSize, setPageSize] = useState(10); // Changed from 20 to 10 for infinite scroll
     const [totalResults, setTotalResults] = useState(0);
     const [totalPages, setTotalPages] = useState(0);
     const [accumulatedResults, setAccumulatedResults] = useState<SearchResultResponse[]>([]);
+    const [filters, setFilters] = useState<SearchFilterState>({ scope: 'all' });
+    // Map keeps insertion order, so the first key is always the least recently used
+    const pageCache = useRef(new Map<string, CachedPage>());
+    const [recentSearches, setRecentSearches] = useState<string[]>([]);
+    const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+    useEffect(() => {
+        setRecentSearches(user?.preferences?.recentSearches ?? []);
+        setSavedSearches(user?.preferences?.savedSearches ?? []);
+    }, [user]);
+
+    // Both lists are always written together so a quick second change can't undo the first
+    const saveHistory = (recent: string[], saved: SavedSearch[]) => {
+        setRecentSearches(recent);
+        setSavedSearches(saved);
+        if (user?.preferences) {
+            Api.User.updateUserPreferences({ ...user.preferences, recentSearches: recent, savedSearches: saved })
+                .then(() => updateUser({ silent: true }))
+                .catch(error => console.warn('Failed to save search history:', error));
+        }
+    };
+
+    const rememberSearch = (query: string) => {
+        const trimmed = query.trim();
+        if (!trimmed || recentSearches[0] === trimmed) return;
+        saveHistory([trimmed, ...recentSearches.filter(q => q !== trimmed)].slice(0, RECENT_LIMIT), savedSearches);
+    };
+
+    const removeRecentSearch = (query: string) => {
+        saveHistory(recentSearches.filter(q => q !== query), savedSearches);
+    };
+
+    const isSaved = (search: SavedSearch) => savedSearches.some(saved => sameSearch(saved, search));
+
+    const toggleSavedSearch = (search: SavedSearch) => {
+        saveHistory(recentSearches, isSaved(search)
+            ? savedSearches.filter(saved => !sameSearch(saved, search))
+            : [search, ...savedSearches].slice(0, SAVED_LIMIT));
+    };
 
     const clearSearch = () => {
         setSearchQuery('');
@@ -50,6 +142,23 @@ export const SearchProvider: React.FC<{ children: ReactNode }> = ({ children })
         setCurrentPage(1);
     };
 
+    const getCachedPage = (key: string) => {
+        const cached = pageCache.current.get(key);
+        if (!cached) return undefined;
+        pageCache.current.delete(key);
+        if (Date.now() - cached.cachedAt > CACHE_TTL) return undefined;
+        pageCache.current.set(key, cached);
+        return cached.page;
+    };
+
+    const cachePage = (key: string, page: SearchPage) => {
+        pageCache.current.delete(key);
+        pageCache.current.set(key, { page, cachedAt: Date.now() });
+        if (pageCache.current.size > CACHE_SIZE) {
+            pageCache.current.delete(pageCache.current.keys().next().value!);
+        }
+    };
+
     return (
         <SearchContext.Provider value={{ 
             searchQuery, 
@@ -64,7 +173,17 @@ export const SearchProvider: React.FC<{ children: ReactNode }> = ({ children })
             setPaginationInfo,
             accumulatedResults,
             appendResults,
-            resetAccumulatedResults
+            resetAccumulatedResults,
+            filters,
+            setFilters,
+            getCachedPage,
+            cachePage,
+            recentSearches,
+            savedSearches,
+            rememberSearch,
+            removeRecentSearch,
+            isSaved,
+            toggleSavedSearch
         }}>
             {children}
         </SearchContext.Provider>